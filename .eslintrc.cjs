@@ -76,6 +76,24 @@ module.exports = {
       ],
     },
 
+    // Routes read and write shop data through shopDb(session.shop), never the bare client
+    {
+      files: ["app/routes/**/*.{ts,tsx}"],
+      rules: {
+        "no-restricted-imports": [
+          "error",
+          {
+            paths: [
+              {
+                name: "../db.server",
+                message: "Use shopDb(shop) from ../models/shopDb.server so queries stay within the shop.",
+              },
+            ],
+          },
+        ],
+      },
+    },
+
     // Node
     {
       files: [
@@ -5,6 +5,19 @@ import { createReadableStreamFromReadable } from "@react-router/node";
 import { type EntryContext } from "react-router";
 import { isbot } from "isbot";
 import { addDocumentResponseHeaders } from "./shopify.server";
+import { kickImportWorker } from "./models/importJob.server";
+import { startRulePublisher } from "./models/rulePublisher.server";
+import { startDataRetention } from "./models/shopData.server";
+import { startWaitlistNotifier } from "./models/waitlist.server";
+
+// Resume rule imports that a restart or deploy interrupted.
+kickImportWorker();
+// Publish rule sets at their scheduled time, including any that came due while the app was down.
+startRulePublisher();
+// Purge uninstalled shops once their reinstall grace period is over, and old storefront lookups.
+startDataRetention();
+// Send waitlist notifications queued before a restart, and retry failed sends.
+startWaitlistNotifier();
 
 export const streamTimeout = 5000;
 
@@ -0,0 +1,222 @@
+import crypto from "node:crypto";
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import { resolveServiceability } from "./serviceability.server";
+import { getShopSettings, updateShopSettings } from "./shopSettings.server";
+
+// Our rates are recognised at checkout by this service_code prefix; the delivery
+// customization function hides profile rates whenever one of them is offered.
+export const RATE_CODE_PREFIX = "pincode-";
+
+const CARRIER_SERVICE_NAME = "Pincode Validator Pro";
+
+// The subset of Shopify's carrier service rate request we read.
+export type CarrierRateRequest = {
+  rate: {
+    destination: { country: string; postal_code: string | null };
+    currency: string;
+  };
+};
+
+export type CarrierRate = {
+  service_name: string;
+  service_code: string;
+  total_price: string;
+  currency: string;
+  description?: string;
+  min_delivery_date?: string;
+  max_delivery_date?: string;
+};
+
+/**
+ * Checks the X-Shopify-Hmac-Sha256 header Shopify sends with carrier service callbacks.
+ * The signature covers the raw body, so verify before parsing.
+ */
+export function verifyCarrierRequest(rawBody: string, hmac: string | null) {
+  if (!hmac) return false;
+  const digest = crypto
+    .createHmac("sha256", process.env.SHOPIFY_API_SECRET || "")
+    .update(rawBody, "utf8")
+    .digest("base64");
+  const a = Buffer.from(digest);
+  const b = Buffer.from(hmac);
+  return a.length === b.length && crypto.timingSafeEqual(a, b);
+}
+
+// Shopify expects "2026-02-16 14:00:00 +0000".
+function deliveryDate(days: number | null) {
+  if (days === null) return undefined;
+  const date = new Date(Date.now() + days * 24 * 60 * 60 * 1000);
+  return `${date.toISOString().slice(0, 19).replace("T", " ")} +0000`;
+}
+
+function etaText(min: number | null, max: number | null) {
+  if (min === null && max === null) return undefined;
+  if (min === null || max === null || min === max) return `Delivered in ${min ?? max} days`;
+  return `Delivered in ${min}-${max} days`;
+}
+
+/**
+ * Quotes the rule's fees for a checkout destination. An empty list means "no opinion":
+ * checkout then shows the shop's shipping profile rates, which is how pincodes without
+ * a rule (or without a fee) fall back to the default rates.
+ */
+export async function quoteCarrierRates(shop: string, request: CarrierRateRequest): Promise<CarrierRate[]> {
+  const { destination } = request.rate;
+  const pincode = (destination.postal_code || "").replace(/\s+/g, "");
+  if (destination.country !== "IN" || !/^\d{6}$/.test(pincode)) return [];
+
+  const settings = await getShopSettings(shop);
+  if (!settings.chargeRuleFees) return [];
+
+  const { terms } = await resolveServiceability(shop, pincode);
+  if (!terms || !terms.deliverable || terms.shippingFee === null) return [];
+
+  // Fees are stored in whole rupees; total_price is in paise.
+  const rate = (name: string, code: string, fee: number, min: number | null, max: number | null): CarrierRate => ({
+    service_name: name,
+    service_code: `${RATE_CODE_PREFIX}${code}`,
+    total_price: String(fee * 100),
+    currency: "INR",
+    description: etaText(min, max),
+    min_delivery_date: deliveryDate(min),
+    max_delivery_date: deliveryDate(max),
+  });
+
+  const rates = [rate("Standard delivery", "standard", terms.shippingFee, terms.etaMinDays, terms.etaMaxDays)];
+  if (terms.expressFee !== null) {
+    rates.push(rate("Express delivery", "express", terms.expressFee, terms.expressEtaMinDays, terms.expressEtaMaxDays));
+  }
+  return rates;
+}
+
+const CARRIER_SERVICE_CREATE = `#graphql
+  mutation PincodeCarrierServiceCreate($input: DeliveryCarrierServiceCreateInput!) {
+    carrierServiceCreate(input: $input) {
+      carrierService {
+        id
+      }
+      userErrors {
+        message
+      }
+    }
+  }
+`;
+
+const CARRIER_SERVICE_UPDATE = `#graphql
+  mutation PincodeCarrierServiceUpdate($input: DeliveryCarrierServiceUpdateInput!) {
+    carrierServiceUpdate(input: $input) {
+      carrierService {
+        id
+      }
+      userErrors {
+        message
+      }
+    }
+  }
+`;
+
+const DELIVERY_FUNCTION_QUERY = `#graphql
+  query PincodeDeliveryFunction {
+    shopifyFunctions(first: 25, apiType: "delivery_customization") {
+      nodes {
+        id
+        app {
+          apiKey
+        }
+      }
+    }
+  }
+`;
+
+const DELIVERY_CUSTOMIZATION_CREATE = `#graphql
+  mutation PincodeDeliveryCustomizationCreate($deliveryCustomization: DeliveryCustomizationInput!) {
+    deliveryCustomizationCreate(deliveryCustomization: $deliveryCustomization) {
+      deliveryCustomization {
+        id
+      }
+      userErrors {
+        message
+      }
+    }
+  }
+`;
+
+const DELIVERY_CUSTOMIZATION_UPDATE = `#graphql
+  mutation PincodeDeliveryCustomizationUpdate($id: ID!, $deliveryCustomization: DeliveryCustomizationInput!) {
+    deliveryCustomizationUpdate(id: $id, deliveryCustomization: $deliveryCustomization) {
+      deliveryCustomization {
+        id
+      }
+      userErrors {
+        message
+      }
+    }
+  }
+`;
+
+const userErrorText = (errors: Array<{ message: string }>) => errors.map((e) => e.message).join("; ");
+
+async function ensureCarrierService(admin: AdminApiContext, id: string | null, active: boolean) {
+  if (id) {
+    const res = await admin.graphql(CARRIER_SERVICE_UPDATE, { variables: { input: { id, active } } });
+    const { data } = await res.json();
+    // Deleted from Settings > Shipping; register a fresh one below.
+    if (data?.carrierServiceUpdate?.carrierService) return id;
+  }
+  if (!active) return null;
+
+  const res = await admin.graphql(CARRIER_SERVICE_CREATE, {
+    variables: {
+      input: {
+        name: CARRIER_SERVICE_NAME,
+        callbackUrl: `${process.env.SHOPIFY_APP_URL}/carrier/rates`,
+        supportsServiceDiscovery: true,
+        active: true,
+      },
+    },
+  });
+  const { data } = await res.json();
+  const errors = data?.carrierServiceCreate?.userErrors ?? [];
+  if (errors.length) throw new Error(userErrorText(errors));
+  return data.carrierServiceCreate.carrierService.id as string;
+}
+
+async function ensureDeliveryCustomization(admin: AdminApiContext, id: string | null, enabled: boolean) {
+  if (id) {
+    const res = await admin.graphql(DELIVERY_CUSTOMIZATION_UPDATE, {
+      variables: { id, deliveryCustomization: { enabled } },
+    });
+    const { data } = await res.json();
+    if (data?.deliveryCustomizationUpdate?.deliveryCustomization) return id;
+  }
+  if (!enabled) return null;
+
+  const fnRes = await admin.graphql(DELIVERY_FUNCTION_QUERY);
+  const { data: fnData } = await fnRes.json();
+  const fn = (fnData?.shopifyFunctions?.nodes ?? []).find(
+    (f: { app: { apiKey: string } }) => f.app.apiKey === process.env.SHOPIFY_API_KEY,
+  );
+  if (!fn) throw new Error("The pincode delivery function is not deployed for this app yet.");
+
+  const res = await admin.graphql(DELIVERY_CUSTOMIZATION_CREATE, {
+    variables: {
+      deliveryCustomization: { functionId: fn.id, title: "Use pincode shipping fees", enabled: true },
+    },
+  });
+  const { data } = await res.json();
+  const errors = data?.deliveryCustomizationCreate?.userErrors ?? [];
+  if (errors.length) throw new Error(userErrorText(errors));
+  return data.deliveryCustomizationCreate.deliveryCustomization.id as string;
+}
+
+/**
+ * Turns charging of rule shipping fees on or off: the carrier service quotes the fees and
+ * the delivery customization hides the profile rates next to them. Carrier-calculated
+ * shipping must be available on the shop's plan for the carrier service to be created.
+ */
+export async function setRuleFeeCharging(admin: AdminApiContext, shop: string, enabled: boolean) {
+  const settings = await getShopSettings(shop);
+  const carrierServiceId = await ensureCarrierService(admin, settings.carrierServiceId, enabled);
+  const deliveryCustomizationId = await ensureDeliveryCustomization(admin, settings.deliveryCustomizationId, enabled);
+  await updateShopSettings(shop, { chargeRuleFees: enabled, carrierServiceId, deliveryCustomizationId });
+}
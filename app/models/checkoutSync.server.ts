@@ -0,0 +1,164 @@
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import { unauthenticated } from "../shopify.server";
+import { compileServiceIndex, encodeRuns } from "./serviceIndex.server";
+import { getShopSettings, updateShopSettings } from "./shopSettings.server";
+
+// Shopify Functions can't reach our database, so they read a compiled copy of the rules
+// from this app-owned shop metafield. Keep in sync with the functions' input queries.
+export const CHECKOUT_RULES_NAMESPACE = "$app:pincode-validator";
+export const CHECKOUT_RULES_KEY = "checkout_rules";
+
+const SHOP_ID_QUERY = `#graphql
+  query CheckoutSyncShopId {
+    shop {
+      id
+    }
+  }
+`;
+
+const METAFIELDS_SET_MUTATION = `#graphql
+  mutation CheckoutSyncRules($metafields: [MetafieldsSetInput!]!) {
+    metafieldsSet(metafields: $metafields) {
+      userErrors {
+        field
+        message
+      }
+    }
+  }
+`;
+
+/**
+ * Compiles the shop's rules and writes them to the checkout metafield.
+ * Call after any rule write; the payload is rebuilt from scratch each time.
+ */
+export async function syncCheckoutRules(admin: AdminApiContext, shop: string) {
+  const [index, settings] = await Promise.all([compileServiceIndex(shop, { maskUnknown: false }), getShopSettings(shop)]);
+  const payload = {
+    v: 1,
+    deliverable: encodeRuns(index, (t) => t.deliverable),
+    // Read by the COD payment customization; only acted on while enforcement is on.
+    codEnforced: settings.enforceCod,
+    cod: encodeRuns(index, (t) => t.deliverable && t.codAvailable),
+    syncedAt: new Date().toISOString(),
+  };
+
+  const shopRes = await admin.graphql(SHOP_ID_QUERY);
+  const { data: shopData } = await shopRes.json();
+
+  const res = await admin.graphql(METAFIELDS_SET_MUTATION, {
+    variables: {
+      metafields: [
+        {
+          ownerId: shopData.shop.id,
+          namespace: CHECKOUT_RULES_NAMESPACE,
+          key: CHECKOUT_RULES_KEY,
+          type: "json",
+          value: JSON.stringify(payload),
+        },
+      ],
+    },
+  });
+  const { data } = await res.json();
+  const errors = data?.metafieldsSet?.userErrors ?? [];
+  if (errors.length) {
+    throw new Error(`Checkout rule sync failed: ${errors.map((e: { message: string }) => e.message).join("; ")}`);
+  }
+}
+
+// Rule edits must not fail because checkout sync did; the next successful sync catches up.
+export async function trySyncCheckoutRules(admin: AdminApiContext, shop: string) {
+  try {
+    await syncCheckoutRules(admin, shop);
+  } catch (e) {
+    console.error(`[checkout-sync] ${shop}:`, e);
+  }
+}
+
+// For background work (imports, scheduled publishes): the merchant may have closed the admin
+// long ago, so sync with the offline session.
+export async function trySyncCheckoutRulesOffline(shop: string) {
+  try {
+    const { admin } = await unauthenticated.admin(shop);
+    await syncCheckoutRules(admin, shop);
+  } catch (e) {
+    console.error(`[checkout-sync] ${shop}:`, e);
+  }
+}
+
+const COD_FUNCTION_QUERY = `#graphql
+  query CodPaymentFunction {
+    shopifyFunctions(first: 25, apiType: "payment_customization") {
+      nodes {
+        id
+        title
+        app {
+          apiKey
+        }
+      }
+    }
+  }
+`;
+
+const PAYMENT_CUSTOMIZATION_CREATE = `#graphql
+  mutation CodPaymentCustomizationCreate($paymentCustomization: PaymentCustomizationInput!) {
+    paymentCustomizationCreate(paymentCustomization: $paymentCustomization) {
+      paymentCustomization {
+        id
+      }
+      userErrors {
+        message
+      }
+    }
+  }
+`;
+
+const PAYMENT_CUSTOMIZATION_UPDATE = `#graphql
+  mutation CodPaymentCustomizationUpdate($id: ID!, $paymentCustomization: PaymentCustomizationInput!) {
+    paymentCustomizationUpdate(id: $id, paymentCustomization: $paymentCustomization) {
+      paymentCustomization {
+        id
+      }
+      userErrors {
+        message
+      }
+    }
+  }
+`;
+
+/**
+ * Turns COD enforcement on or off: keeps the shop's payment customization for our
+ * COD function enabled accordingly, stores the switch and re-syncs the metafield.
+ */
+export async function setCodEnforcement(admin: AdminApiContext, shop: string, enabled: boolean) {
+  const settings = await getShopSettings(shop);
+  let customizationId = settings.codCustomizationId;
+
+  if (customizationId) {
+    const res = await admin.graphql(PAYMENT_CUSTOMIZATION_UPDATE, {
+      variables: { id: customizationId, paymentCustomization: { enabled } },
+    });
+    const { data } = await res.json();
+    // Merchants can delete the customization from Settings > Payments; recreate it below.
+    if (!data?.paymentCustomizationUpdate?.paymentCustomization) customizationId = null;
+  }
+
+  if (!customizationId && enabled) {
+    const fnRes = await admin.graphql(COD_FUNCTION_QUERY);
+    const { data: fnData } = await fnRes.json();
+    const fn = (fnData?.shopifyFunctions?.nodes ?? []).find(
+      (f: { app: { apiKey: string } }) => f.app.apiKey === process.env.SHOPIFY_API_KEY,
+    );
+    if (!fn) throw new Error("The COD payment function is not deployed for this app yet.");
+
+    const res = await admin.graphql(PAYMENT_CUSTOMIZATION_CREATE, {
+      variables: { paymentCustomization: { functionId: fn.id, title: "Hide COD for non-COD pincodes", enabled: true } },
+    });
+    const { data } = await res.json();
+    const errors = data?.paymentCustomizationCreate?.userErrors ?? [];
+    if (errors.length) throw new Error(errors.map((e: { message: string }) => e.message).join("; "));
+    customizationId = data.paymentCustomizationCreate.paymentCustomization.id;
+  }
+
+  await updateShopSettings(shop, { enforceCod: enabled, codCustomizationId: customizationId });
+  await syncCheckoutRules(admin, shop);
+}
@@ -0,0 +1,215 @@
+import type { BlackoutWindow } from "@prisma/client";
+import { shopDb } from "./shopDb.server";
+import type { Locality } from "./pincodeDirectory.server";
+import { matchesPatterns, parsePincodePatterns } from "./productRestriction.server";
+import { getShopSettings } from "./shopSettings.server";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+// Longer than any ETA plus delay; also ends the day count if every weekday is marked non-working.
+const CALENDAR_HORIZON_DAYS = 366;
+
+// Everything an ETA needs for one moment: the shop's local day, when an order placed now leaves
+// the warehouse, the days that don't count, and the windows in force.
+export type DeliveryCalendar = {
+  today: Date;
+  dispatchDay: Date;
+  // When today's dispatch closes, if an order placed now still makes it.
+  cutoffAt: Date | null;
+  nonWorkingDays: number[];
+  holidays: Set<string>;
+  blackouts: BlackoutWindow[];
+};
+
+export type DeliveryEstimate = {
+  minDate: string | null;
+  maxDate: string | null;
+  text: string | null;
+  cutoff: { at: string; secondsLeft: number; text: string } | null;
+};
+
+const dayKey = (date: Date) => date.toISOString().slice(0, 10);
+
+const addDays = (day: Date, days: number) => new Date(day.getTime() + days * DAY_MS);
+
+export function isValidTimeZone(timeZone: string) {
+  try {
+    new Intl.DateTimeFormat("en-US", { timeZone });
+    return true;
+  } catch {
+    return false;
+  }
+}
+
+// The local calendar day of an instant, as UTC midnight so days can be added without DST surprises,
+// plus the seconds since local midnight.
+function zonedTime(at: Date, timeZone: string) {
+  const parts = Object.fromEntries(
+    new Intl.DateTimeFormat("en-CA", {
+      timeZone,
+      year: "numeric",
+      month: "2-digit",
+      day: "2-digit",
+      hour: "2-digit",
+      minute: "2-digit",
+      second: "2-digit",
+      hourCycle: "h23",
+    })
+      .formatToParts(at)
+      .map((p) => [p.type, p.value]),
+  );
+  return {
+    day: new Date(`${parts.year}-${parts.month}-${parts.day}T00:00:00Z`),
+    seconds: Number(parts.hour) * 3600 + Number(parts.minute) * 60 + Number(parts.second),
+  };
+}
+
+export const shopDay = (at: Date, timeZone: string) => zonedTime(at, timeZone).day;
+
+function isWorkingDay(calendar: Pick<DeliveryCalendar, "nonWorkingDays" | "holidays">, day: Date) {
+  return !calendar.nonWorkingDays.includes(day.getUTCDay()) && !calendar.holidays.has(dayKey(day));
+}
+
+// The day `workingDays` working days after `from`; zero keeps `from`.
+function addWorkingDays(calendar: Pick<DeliveryCalendar, "nonWorkingDays" | "holidays">, from: Date, workingDays: number) {
+  let day = from;
+  for (let counted = 0, steps = 0; counted < workingDays && steps < CALENDAR_HORIZON_DAYS; steps++) {
+    day = addDays(day, 1);
+    if (isWorkingDay(calendar, day)) counted++;
+  }
+  return day;
+}
+
+/**
+ * Loads the calendar for an order placed at `at`. It dispatches today when today is a working day
+ * and the cutoff hasn't passed, otherwise on the next working day, then waits out the processing days.
+ */
+export async function loadDeliveryCalendar(shop: string, at: Date = new Date()): Promise<DeliveryCalendar> {
+  const db = shopDb(shop);
+  const settings = await getShopSettings(shop);
+  const now = zonedTime(at, settings.timeZone);
+  const today = now.day;
+  const [holidays, blackouts] = await Promise.all([
+    db.holiday.findMany({
+      where: { shop, date: { gte: today, lt: addDays(today, CALENDAR_HORIZON_DAYS) } },
+      select: { date: true },
+    }),
+    db.blackoutWindow.findMany({
+      where: { shop, startsAt: { lte: at }, endsAt: { gt: at } },
+      orderBy: { createdAt: "asc" },
+    }),
+  ]);
+
+  const days = { nonWorkingDays: settings.nonWorkingDays, holidays: new Set(holidays.map((h) => dayKey(h.date))) };
+  const cutoffSeconds = settings.dispatchCutoffMinutes === null ? null : settings.dispatchCutoffMinutes * 60;
+  const makesToday = isWorkingDay(days, today) && (cutoffSeconds === null || now.seconds < cutoffSeconds);
+  const firstDispatch = makesToday ? today : addWorkingDays(days, today, 1);
+
+  return {
+    ...days,
+    today,
+    dispatchDay: addWorkingDays(days, firstDispatch, settings.processingDays),
+    cutoffAt: makesToday && cutoffSeconds !== null ? new Date(at.getTime() + (cutoffSeconds - now.seconds) * 1000) : null,
+    blackouts,
+  };
+}
+
+/**
+ * Turns a count of working days in transit into calendar days from today, counting from the
+ * dispatch day and skipping non-working weekdays and holidays.
+ */
+export function toCalendarDays(calendar: DeliveryCalendar, workingDays: number | null) {
+  if (workingDays === null) return null;
+  const arrives = addWorkingDays(calendar, calendar.dispatchDay, workingDays);
+  return Math.round((arrives.getTime() - calendar.today.getTime()) / DAY_MS);
+}
+
+const shortDate = new Intl.DateTimeFormat("en-IN", { weekday: "short", day: "numeric", month: "short", timeZone: "UTC" });
+
+function formatCountdown(seconds: number) {
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  return hours ? `${hours}h ${minutes}m` : `${Math.max(minutes, 1)}m`;
+}
+
+/**
+ * Dates for ETAs already in calendar days from today (see toCalendarDays), e.g. "Get it by Thu, 23 Oct",
+ * and how long is left to order for them while today's cutoff is still ahead.
+ */
+export function estimateDelivery(
+  calendar: DeliveryCalendar,
+  minDays: number | null,
+  maxDays: number | null,
+  at: Date = new Date(),
+): DeliveryEstimate {
+  const min = minDays === null ? null : addDays(calendar.today, minDays);
+  const max = maxDays === null ? null : addDays(calendar.today, maxDays);
+  const latest = max ?? min;
+
+  let text: string | null = null;
+  if (min && max && dayKey(min) !== dayKey(max)) text = `Get it ${shortDate.format(min)} - ${shortDate.format(max)}`;
+  else if (latest) text = `Get it by ${shortDate.format(latest)}`;
+
+  const secondsLeft = calendar.cutoffAt ? Math.floor((calendar.cutoffAt.getTime() - at.getTime()) / 1000) : 0;
+  return {
+    minDate: min && dayKey(min),
+    maxDate: max && dayKey(max),
+    text,
+    cutoff:
+      calendar.cutoffAt && secondsLeft > 0
+        ? { at: calendar.cutoffAt.toISOString(), secondsLeft, text: formatCountdown(secondsLeft) }
+        : null,
+  };
+}
+
+/**
+ * The same estimate at a later moment, for answers cached between requests: the countdown is
+ * recomputed, and null once the cutoff has passed (the dates move to the next dispatch day).
+ */
+export function refreshEstimate(estimate: DeliveryEstimate, at: Date = new Date()): DeliveryEstimate | null {
+  if (!estimate.cutoff) return estimate;
+  const secondsLeft = Math.floor((Date.parse(estimate.cutoff.at) - at.getTime()) / 1000);
+  if (secondsLeft <= 0) return null;
+  return { ...estimate, cutoff: { ...estimate.cutoff, secondsLeft, text: formatCountdown(secondsLeft) } };
+}
+
+function windowApplies(window: BlackoutWindow, pincode: string, locality: Locality | null) {
+  if (window.scope === "SHOP") return true;
+  if (window.scope === "PINCODES") return matchesPatterns(parsePincodePatterns(window.pincodes).patterns, pincode);
+  if (!locality) return false;
+
+  const same = (a: string, b: string) => a.toLowerCase() === b.toLowerCase();
+  if (!same(window.state, locality.state)) return false;
+  return window.scope === "STATE" || same(window.district, locality.district);
+}
+
+/**
+ * The active window that affects a pincode the most: one that stops delivery wins,
+ * otherwise the longest delay. Null when no window covers the pincode.
+ */
+export function matchBlackout(calendar: DeliveryCalendar, pincode: string, locality: Locality | null) {
+  const matching = calendar.blackouts.filter((w) => windowApplies(w, pincode, locality));
+  return (
+    matching.find((w) => w.effect === "UNDELIVERABLE") ??
+    matching.sort((a, b) => b.delayDays - a.delayDays)[0] ??
+    null
+  );
+}
+
+/**
+ * Parses one holiday per line as "2026-11-08 Diwali" (the name is optional).
+ * Returns the offending line as `error` when a date is malformed.
+ */
+export function parseHolidayLines(text: string): { holidays: { date: Date; name: string }[]; error: string | null } {
+  const holidays: { date: Date; name: string }[] = [];
+  for (const line of text.split(/\r?\n/).map((l) => l.trim()).filter(Boolean)) {
+    const m = line.match(/^(\d{4}-\d{2}-\d{2})\s*[,;-]?\s*(.*)$/);
+    const date = m ? new Date(`${m[1]}T00:00:00Z`) : null;
+    if (!m || !date || Number.isNaN(date.getTime()) || dayKey(date) !== m[1]) {
+      return { holidays, error: `"${line}" doesn't start with a date like 2026-11-08.` };
+    }
+    holidays.push({ date, name: m[2] || "Holiday" });
+  }
+  if (!holidays.length) return { holidays, error: "Add at least one holiday." };
+  return { holidays, error: null };
+}
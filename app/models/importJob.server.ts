@@ -0,0 +1,419 @@
+import type { ImportJob, RuleSet } from "@prisma/client";
+import {
+  unstable_composeUploadHandlers,
+  unstable_createMemoryUploadHandler,
+  unstable_parseMultipartFormData,
+  type UploadHandler,
+} from "@remix-run/node";
+import db from "../db.server";
+import { trySyncCheckoutRulesOffline } from "./checkoutSync.server";
+import { findUnknownPincodes } from "./pincodeDirectory.server";
+import { formatRulePincode } from "./pincodeRule.server";
+import { recordRuleChanges, type ChangeOrigin } from "./ruleAudit.server";
+import { getRuleSet, isEditable, RuleSetError } from "./ruleSet.server";
+import {
+  diffChunk,
+  findRulesMissingFrom,
+  ImportFormatError,
+  readImportRows,
+  ruleKey,
+  writeChunk,
+  type ImportRowError,
+  type ParsedRow,
+  type RuleChange,
+} from "./pincodeImport.server";
+import { shopDb } from "./shopDb.server";
+import { listWarehouses } from "./warehouse.server";
+import { tryQueueWaitlist } from "./waitlist.server";
+
+// Data rows (valid or not) committed per transaction; also the resume granularity.
+const CHUNK_SIZE = 1000;
+const UNKNOWN_SAMPLE_SIZE = 50;
+const PREVIEW_SAMPLE_SIZE = 50;
+// Bytes per stored slice of an upload; the worker holds one slice of the file at a time.
+const UPLOAD_CHUNK_BYTES = 1024 * 1024;
+// A rule for every possible pincode with every column set fits in well under this.
+const MAX_UPLOAD_BYTES = 64 * 1024 * 1024;
+// Uploads whose request never got to enqueueImport are swept after this long.
+const ABANDONED_UPLOAD_MS = 60 * 60 * 1000;
+
+// What confirming a job would do, computed by the dry run. Samples are capped for display.
+export type ImportPreview = {
+  added: number;
+  changed: number;
+  unchanged: number;
+  invalid: number;
+  removed: number;
+  samples: {
+    added: string[];
+    changed: RuleChange[];
+    invalid: ImportRowError[];
+    removed: string[];
+  };
+};
+
+// A job's uploaded file, read back from its chunks one at a time.
+function storedCsv(jobId: string) {
+  let index = 0;
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const chunk = await db.importJobChunk.findUnique({
+        where: { jobId_index: { jobId, index } },
+        select: { data: true },
+      });
+      if (!chunk) return controller.close();
+      controller.enqueue(chunk.data);
+      index++;
+    },
+  });
+}
+
+const dropUpload = (jobId: string) => db.importJobChunk.deleteMany({ where: { jobId } });
+
+/**
+ * Streams the "file" part of an upload into an UPLOADING job's chunks as it arrives, so the
+ * file is never held in memory whole. The form value becomes the job id, for enqueueImport.
+ * Files over MAX_UPLOAD_BYTES are refused part way, and what was stored of them is dropped.
+ */
+function uploadToJob(shop: string): UploadHandler {
+  return async ({ name, filename, data }) => {
+    if (name !== "file" || !filename) return undefined;
+
+    const scoped = shopDb(shop);
+    const job = await scoped.importJob.create({ data: { shop, fileName: filename, status: "UPLOADING" } });
+    try {
+      let index = 0;
+      let pending: Uint8Array[] = [];
+      let size = 0;
+      const flush = async () => {
+        await db.importJobChunk.create({ data: { jobId: job.id, index: index++, data: Buffer.concat(pending) } });
+        pending = [];
+        size = 0;
+      };
+      let total = 0;
+      for await (const part of data) {
+        total += part.byteLength;
+        if (total > MAX_UPLOAD_BYTES) {
+          throw new ImportFormatError(`The file is larger than ${MAX_UPLOAD_BYTES / 1024 / 1024} MB. Split it into smaller files.`);
+        }
+        pending.push(part);
+        size += part.byteLength;
+        if (size >= UPLOAD_CHUNK_BYTES) await flush();
+      }
+      if (size) await flush();
+    } catch (e) {
+      await scoped.importJob.delete({ where: { id: job.id } });
+      throw e;
+    }
+    return job.id;
+  };
+}
+
+/**
+ * The pincodes page's form data. In the multipart post of a rules upload, "file" is the id of the
+ * UPLOADING job the file was streamed into; every other field is read as usual.
+ * An upload into `ruleSet` is refused with RuleSetError before any of it is stored when the set
+ * can't be edited, and with ImportFormatError when the file is too large.
+ */
+export async function readImportForm(request: Request, shop: string, ruleSet: Pick<RuleSet, "status">) {
+  if (!(request.headers.get("Content-Type") || "").startsWith("multipart/form-data")) return request.formData();
+  if (!isEditable(ruleSet)) throw new RuleSetError("Only drafts can be imported into. Create a draft from this rule set instead.");
+  return unstable_parseMultipartFormData(
+    request,
+    unstable_composeUploadHandlers(uploadToJob(shop), unstable_createMemoryUploadHandler()),
+  );
+}
+
+const originCodes = async (shop: string) => new Set((await listWarehouses(shop)).map((w) => w.code));
+
+/**
+ * Hands an uploaded rules CSV (see readImportForm) to the worker, which dry-runs it first.
+ * Nothing is written until the merchant confirms the preview with confirmImport.
+ * The header is checked up front so an unusable file is rejected in the upload response.
+ * `createdBy` is the uploading staff user, credited in the audit log for the job's changes.
+ */
+export async function enqueueImport(
+  shop: string,
+  uploadId: string,
+  options: { ruleSetId: string; replaceMode?: boolean; createdBy?: string | null },
+) {
+  const { ruleSetId, replaceMode = false, createdBy = null } = options;
+  const scoped = shopDb(shop);
+  const upload = await scoped.importJob.findFirst({ where: { id: uploadId, shop, status: "UPLOADING" } });
+  if (!upload) throw new ImportFormatError("Please upload a CSV file.");
+
+  const rows = readImportRows(storedCsv(upload.id), new Set());
+  try {
+    await rows.next(); // runs the header check; the rows themselves are left for the worker
+    await rows.return(undefined);
+  } catch (e) {
+    await scoped.importJob.delete({ where: { id: upload.id } });
+    throw e;
+  }
+
+  const job = await scoped.importJob.update({
+    where: { id: upload.id },
+    data: { replaceMode, createdBy, ruleSetId, status: "PREVIEWING" },
+  });
+  kickImportWorker();
+  return job;
+}
+
+// Both return false when the job isn't waiting for confirmation (already handled, or another shop's).
+export async function confirmImport(shop: string, jobId: string) {
+  const { count } = await shopDb(shop).importJob.updateMany({
+    where: { id: jobId, shop, status: "AWAITING_CONFIRMATION" },
+    data: { status: "QUEUED" },
+  });
+  if (count) kickImportWorker();
+  return count > 0;
+}
+
+export async function cancelImport(shop: string, jobId: string) {
+  const { count } = await shopDb(shop).importJob.updateMany({
+    where: { id: jobId, shop, status: "AWAITING_CONFIRMATION" },
+    data: { status: "CANCELLED", finishedAt: new Date() },
+  });
+  if (count) await dropUpload(jobId);
+  return count > 0;
+}
+
+export async function listImportJobs(shop: string, take = 5) {
+  return shopDb(shop).importJob.findMany({
+    where: { shop, status: { not: "UPLOADING" } },
+    orderBy: { createdAt: "desc" },
+    take,
+    select: {
+      id: true,
+      status: true,
+      fileName: true,
+      replaceMode: true,
+      preview: true,
+      totalRows: true,
+      processedRows: true,
+      inserted: true,
+      updated: true,
+      deleted: true,
+      invalidCount: true,
+      unknownCount: true,
+      unknown: true,
+      failureReason: true,
+      createdAt: true,
+      finishedAt: true,
+    },
+  });
+}
+
+export async function listImportErrors(shop: string, jobId: string) {
+  return db.importJobError.findMany({
+    where: { jobId, job: { shop } },
+    orderBy: { row: "asc" },
+    select: { row: true, pincode: true, reason: true },
+  });
+}
+
+// Jobs from before rule sets existed target the published set.
+async function targetRuleSet(job: ImportJob) {
+  const set = await getRuleSet(job.shop, job.ruleSetId);
+  if (!isEditable(set)) throw new RuleSetError(`The rule set was ${set.status.toLowerCase()} before the import ran.`);
+  return set;
+}
+
+async function previewJob(job: ImportJob) {
+  const scoped = shopDb(job.shop);
+  const ruleSet = await targetRuleSet(job);
+  const preview: ImportPreview = {
+    added: 0,
+    changed: 0,
+    unchanged: 0,
+    invalid: 0,
+    removed: 0,
+    samples: { added: [], changed: [], invalid: [], removed: [] },
+  };
+  const keys = new Set<string>();
+  let rows = 0;
+  let valid: ParsedRow[] = [];
+
+  const take = <T>(sample: T[], items: T[]) => sample.push(...items.slice(0, PREVIEW_SAMPLE_SIZE - sample.length));
+
+  const diff = async () => {
+    const result = await diffChunk({ shop: job.shop, ruleSetId: ruleSet.id }, valid);
+    preview.added += result.added.length;
+    preview.changed += result.changed.length;
+    preview.unchanged += result.unchanged;
+    take(preview.samples.added, result.added);
+    take(preview.samples.changed, result.changed);
+    valid = [];
+  };
+
+  for await (const row of readImportRows(storedCsv(job.id), await originCodes(job.shop))) {
+    rows++;
+    if ("reason" in row) {
+      preview.invalid++;
+      take(preview.samples.invalid, [row]);
+      continue;
+    }
+    keys.add(ruleKey(row));
+    valid.push(row);
+    if (valid.length >= CHUNK_SIZE) await diff();
+  }
+  await diff();
+
+  if (job.replaceMode) {
+    const missing = await findRulesMissingFrom({ shop: job.shop, ruleSetId: ruleSet.id }, keys);
+    preview.removed = missing.length;
+    take(preview.samples.removed, missing.map(formatRulePincode));
+  }
+
+  await scoped.importJob.update({
+    where: { id: job.id },
+    data: { status: "AWAITING_CONFIRMATION", preview, totalRows: rows },
+  });
+}
+
+async function runJob(job: ImportJob) {
+  const scoped = shopDb(job.shop);
+  const ruleSet = await targetRuleSet(job);
+  // totalRows was counted by the dry run.
+  await scoped.importJob.update({ where: { id: job.id }, data: { status: "RUNNING" } });
+
+  const origin: ChangeOrigin = { source: "IMPORT", actor: job.createdBy, importJobId: job.id };
+  let unknownSample = (job.unknown as string[]) ?? [];
+  const keys = new Set<string>();
+  let consumed = 0;
+  let valid: ParsedRow[] = [];
+  let invalid: ImportRowError[] = [];
+
+  const commit = async () => {
+    const unknown = await findUnknownPincodes(valid.filter((r) => r.matchType === "EXACT").map((r) => r.pincode));
+    unknownSample = unknownSample.concat(unknown).slice(0, UNKNOWN_SAMPLE_SIZE);
+
+    await scoped.$transaction(
+      async (tx) => {
+        const written = await writeChunk(tx, { shop: job.shop, ruleSetId: ruleSet.id }, valid, origin);
+        if (invalid.length) {
+          await tx.importJobError.createMany({ data: invalid.map((e) => ({ jobId: job.id, ...e })) });
+        }
+        await tx.importJob.update({
+          where: { id: job.id },
+          data: {
+            processedRows: consumed,
+            inserted: { increment: written.inserted },
+            updated: { increment: written.updated },
+            invalidCount: { increment: invalid.length },
+            unknownCount: { increment: unknown.length },
+            unknown: unknownSample,
+          },
+        });
+      },
+      { timeout: 60_000 },
+    );
+    valid = [];
+    invalid = [];
+  };
+
+  for await (const row of readImportRows(storedCsv(job.id), await originCodes(job.shop))) {
+    consumed++;
+    if (job.replaceMode && !("reason" in row)) keys.add(ruleKey(row));
+    // Rows before the cursor were committed before the restart.
+    if (consumed <= job.processedRows) continue;
+
+    if ("reason" in row) invalid.push(row);
+    else valid.push(row);
+    if (valid.length + invalid.length >= CHUNK_SIZE) await commit();
+  }
+  if (valid.length || invalid.length) await commit();
+
+  // Deleting by id keeps this safe to repeat when a restart interrupts it.
+  if (job.replaceMode) {
+    const missing = await findRulesMissingFrom({ shop: job.shop, ruleSetId: ruleSet.id }, keys);
+    for (let i = 0; i < missing.length; i += CHUNK_SIZE) {
+      const ids = missing.slice(i, i + CHUNK_SIZE).map((r) => r.id);
+      await scoped.$transaction(
+        async (tx) => {
+          const rules = await tx.pincodeRule.findMany({ where: { id: { in: ids } } });
+          const { count } = await tx.pincodeRule.deleteMany({ where: { id: { in: rules.map((r) => r.id) } } });
+          await recordRuleChanges(tx, job.shop, origin, rules.map((before) => ({ before, after: null })));
+          await tx.importJob.update({ where: { id: job.id }, data: { deleted: { increment: count } } });
+        },
+        { timeout: 60_000 },
+      );
+    }
+  }
+
+  await scoped.importJob.update({
+    where: { id: job.id },
+    data: { status: "COMPLETED", finishedAt: new Date() },
+  });
+  await dropUpload(job.id);
+  return ruleSet.id;
+}
+
+async function drainQueue() {
+  await db.importJob.deleteMany({
+    where: { status: "UPLOADING", createdAt: { lt: new Date(Date.now() - ABANDONED_UPLOAD_MS) } },
+  });
+
+  for (;;) {
+    // RUNNING and PREVIEWING jobs may be ones a previous process was working on when it stopped.
+    const job = await db.importJob.findFirst({
+      where: { status: { in: ["PREVIEWING", "RUNNING", "QUEUED"] } },
+      orderBy: { createdAt: "asc" },
+    });
+    if (!job) return;
+
+    try {
+      if (job.status === "PREVIEWING") {
+        await previewJob(job);
+      } else {
+        const ruleSetId = await runJob(job);
+        // Re-read: a scheduled publish may have made the set live while the import ran.
+        const ruleSet = await shopDb(job.shop).ruleSet.findUnique({ where: { id: ruleSetId } });
+        if (ruleSet?.status === "PUBLISHED") {
+          await trySyncCheckoutRulesOffline(job.shop);
+          await tryQueueWaitlist(job.shop);
+        }
+      }
+    } catch (e) {
+      console.error(`[import] job ${job.id} for ${job.shop} failed:`, e);
+      await shopDb(job.shop).importJob.update({
+        where: { id: job.id },
+        data: {
+          status: "FAILED",
+          finishedAt: new Date(),
+          failureReason:
+            e instanceof ImportFormatError || e instanceof RuleSetError ? e.message : "The import stopped unexpectedly.",
+        },
+      });
+      await dropUpload(job.id);
+    }
+  }
+}
+
+let draining = false;
+let wakeAgain = false;
+
+/**
+ * Starts the in-process worker unless it is already running; safe to call any time.
+ * Jobs run one at a time, oldest first. This assumes a single app instance: with several,
+ * each would pick up the same interrupted jobs.
+ */
+export function kickImportWorker() {
+  if (draining) {
+    wakeAgain = true;
+    return;
+  }
+  draining = true;
+  void (async () => {
+    try {
+      do {
+        wakeAgain = false;
+        await drainQueue();
+      } while (wakeAgain);
+    } catch (e) {
+      console.error("[import] worker stopped:", e);
+    } finally {
+      draining = false;
+    }
+  })();
+}
@@ -0,0 +1,204 @@
+import { createHmac, randomUUID } from "node:crypto";
+import type { LookupResult } from "@prisma/client";
+import db from "../db.server";
+import { shopDay } from "./deliveryCalendar.server";
+import type { Locality } from "./pincodeDirectory.server";
+import { shopDb } from "./shopDb.server";
+import { getShopSettings } from "./shopSettings.server";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const TOP_PINCODES = 20;
+
+// Lookups older than this are pruned; trends never look further back.
+export const LOOKUP_RETENTION_DAYS = 180;
+
+export type LookupInput = {
+  pincode: string;
+  result: LookupResult;
+  locality: Locality | null;
+  productId: string | null;
+  // The widget's random per-tab id, if it sent one.
+  visitor: string | null;
+};
+
+export type LookupTotals = Record<LookupResult, number> & { total: number; addedToCart: number };
+
+export type UnserviceablePincode = { pincode: string; state: string | null; checks: number; shoppers: number };
+
+export type StateDemand = { state: string; checks: number; notDeliverable: number };
+
+export type LookupTrendDay = Record<LookupResult, number> & { day: string; addedToCart: number };
+
+export type LookupAnalytics = {
+  since: string;
+  totals: LookupTotals;
+  topUnserviceable: UnserviceablePincode[];
+  states: StateDemand[];
+  trend: LookupTrendDay[];
+};
+
+const RESULTS: LookupResult[] = ["DELIVERABLE", "NOT_DELIVERABLE", "RESTRICTED", "UNKNOWN_PINCODE"];
+
+const dayKey = (date: Date) => date.toISOString().slice(0, 10);
+
+const emptyCounts = () => Object.fromEntries(RESULTS.map((r) => [r, 0])) as Record<LookupResult, number>;
+
+// Keyed by the app secret and shop, so the stored value can't be matched to a browser or across shops.
+function anonymize(shop: string, visitor: string | null) {
+  if (!visitor) return null;
+  return createHmac("sha256", process.env.SHOPIFY_API_SECRET || "")
+    .update(`${shop}:${visitor.slice(0, 64)}`)
+    .digest("hex")
+    .slice(0, 16);
+}
+
+async function writeLookup(shop: string, id: string, input: LookupInput) {
+  const { timeZone } = await getShopSettings(shop);
+  const productId = input.productId && /^\d+$/.test(input.productId) ? input.productId : null;
+  await shopDb(shop).pincodeLookup.create({
+    data: {
+      id,
+      shop,
+      pincode: input.pincode,
+      result: input.result,
+      state: input.locality?.state ?? null,
+      day: shopDay(new Date(), timeZone),
+      productId,
+      visitor: anonymize(shop, input.visitor),
+    },
+  });
+}
+
+/**
+ * Records a storefront lookup in the background and returns its id, which the widget sends back
+ * if the shopper adds to cart. A failed write is logged and dropped; analytics never fail a check.
+ */
+export function recordLookup(shop: string, input: LookupInput) {
+  const id = randomUUID();
+  void writeLookup(shop, id, input).catch((e) => console.error(`[lookups] ${shop}:`, e));
+  return id;
+}
+
+export async function markAddedToCart(shop: string, lookupId: string) {
+  await shopDb(shop).pincodeLookup.updateMany({
+    where: { id: lookupId, shop, result: "DELIVERABLE" },
+    data: { addedToCart: true },
+  });
+}
+
+// The first shop-local day of a window of `days` days ending today.
+async function windowStart(shop: string, days: number) {
+  const { timeZone } = await getShopSettings(shop);
+  return new Date(shopDay(new Date(), timeZone).getTime() - (days - 1) * DAY_MS);
+}
+
+async function loadTotals(shop: string, since: Date): Promise<LookupTotals> {
+  const db = shopDb(shop);
+  const [byResult, addedToCart] = await Promise.all([
+    db.pincodeLookup.groupBy({ by: ["result"], where: { shop, day: { gte: since } }, _count: { _all: true } }),
+    db.pincodeLookup.count({ where: { shop, day: { gte: since }, addedToCart: true } }),
+  ]);
+  const totals = { ...emptyCounts(), total: 0, addedToCart };
+  for (const row of byResult) {
+    totals[row.result] = row._count._all;
+    totals.total += row._count._all;
+  }
+  return totals;
+}
+
+async function loadTopUnserviceable(shop: string, since: Date, take: number): Promise<UnserviceablePincode[]> {
+  const db = shopDb(shop);
+  const where = { shop, day: { gte: since }, result: "NOT_DELIVERABLE" as const };
+  const top = await db.pincodeLookup.groupBy({
+    by: ["pincode"],
+    where,
+    _count: { _all: true },
+    _max: { state: true },
+    orderBy: [{ _count: { pincode: "desc" } }, { pincode: "asc" }],
+    take,
+  });
+  if (!top.length) return [];
+
+  // One shopper re-checking shouldn't look like demand; count distinct visitors too.
+  const visitors = await db.pincodeLookup.groupBy({
+    by: ["pincode", "visitor"],
+    where: { ...where, pincode: { in: top.map((t) => t.pincode) } },
+  });
+  const shoppers = new Map<string, number>();
+  for (const v of visitors) shoppers.set(v.pincode, (shoppers.get(v.pincode) ?? 0) + 1);
+
+  return top.map((t) => ({
+    pincode: t.pincode,
+    state: t._max.state,
+    checks: t._count._all,
+    shoppers: shoppers.get(t.pincode) ?? 0,
+  }));
+}
+
+/**
+ * Everything the analytics page shows for the last `days` shop-local days: totals by result,
+ * the most requested pincodes nothing delivers to, demand per state and a daily trend.
+ */
+export async function loadLookupAnalytics(shop: string, days: number): Promise<LookupAnalytics> {
+  const db = shopDb(shop);
+  const since = await windowStart(shop, days);
+  const where = { shop, day: { gte: since } };
+
+  const [totals, topUnserviceable, byState, byDay, cartsByDay] = await Promise.all([
+    loadTotals(shop, since),
+    loadTopUnserviceable(shop, since, TOP_PINCODES),
+    db.pincodeLookup.groupBy({ by: ["state", "result"], where: { ...where, state: { not: null } }, _count: { _all: true } }),
+    db.pincodeLookup.groupBy({ by: ["day", "result"], where, _count: { _all: true } }),
+    db.pincodeLookup.groupBy({ by: ["day"], where: { ...where, addedToCart: true }, _count: { _all: true } }),
+  ]);
+
+  const states = new Map<string, StateDemand>();
+  for (const row of byState) {
+    const state = row.state ?? "";
+    const demand = states.get(state) ?? { state, checks: 0, notDeliverable: 0 };
+    demand.checks += row._count._all;
+    if (row.result === "NOT_DELIVERABLE") demand.notDeliverable += row._count._all;
+    states.set(state, demand);
+  }
+
+  // Every day of the window, including ones without checks, so the chart has no gaps.
+  const trend = new Map<string, LookupTrendDay>();
+  for (let i = 0; i < days; i++) {
+    const day = dayKey(new Date(since.getTime() + i * DAY_MS));
+    trend.set(day, { day, ...emptyCounts(), addedToCart: 0 });
+  }
+  for (const row of byDay) {
+    const day = trend.get(dayKey(row.day));
+    if (day) day[row.result] = row._count._all;
+  }
+  for (const row of cartsByDay) {
+    const day = trend.get(dayKey(row.day));
+    if (day) day.addedToCart = row._count._all;
+  }
+
+  return {
+    since: dayKey(since),
+    totals,
+    topUnserviceable,
+    states: Array.from(states.values()).sort((a, b) => b.notDeliverable - a.notDeliverable || b.checks - a.checks),
+    trend: Array.from(trend.values()),
+  };
+}
+
+// The dashboard cards: totals and the single most requested unserviceable pincode.
+export async function loadLookupSummary(shop: string, days: number) {
+  const since = await windowStart(shop, days);
+  const [totals, [topUnserviceable]] = await Promise.all([
+    loadTotals(shop, since),
+    loadTopUnserviceable(shop, since, 1),
+  ]);
+  return { totals, topUnserviceable: topUnserviceable ?? null };
+}
+
+// Runs with the retention sweep, across all shops.
+export async function pruneOldLookups() {
+  const { count } = await db.pincodeLookup.deleteMany({
+    where: { createdAt: { lt: new Date(Date.now() - LOOKUP_RETENTION_DAYS * DAY_MS) } },
+  });
+  if (count) console.log(`[lookups] pruned ${count} lookups older than ${LOOKUP_RETENTION_DAYS} days`);
+}
@@ -0,0 +1,112 @@
+import type { PincodeLocation } from "@prisma/client";
+import db from "../db.server";
+
+export type Locality = Pick<PincodeLocation, "officeName" | "district" | "state">;
+
+// Once the directory has rows it stays loaded for the life of the process.
+let directoryLoaded = false;
+
+// Existence checks are skipped until the directory has been imported,
+// otherwise a fresh install would reject every pincode.
+export async function isDirectoryLoaded() {
+  if (directoryLoaded) return true;
+  directoryLoaded = (await db.pincodeLocation.findFirst({ select: { id: true } })) !== null;
+  return directoryLoaded;
+}
+
+// A pincode can cover several post offices; prefer the head/sub office over branch offices.
+// `offices` are one pincode's, ordered by officeName.
+function primaryOffice<T extends Pick<PincodeLocation, "officeType">>(offices: T[]): T {
+  return offices.find((o) => o.officeType !== "BO") ?? offices[0];
+}
+
+export async function findLocality(pincode: string): Promise<Locality | null> {
+  const offices = await db.pincodeLocation.findMany({
+    where: { pincode },
+    select: { officeName: true, officeType: true, district: true, state: true },
+    orderBy: { officeName: "asc" },
+  });
+  if (!offices.length) return null;
+
+  const office = primaryOffice(offices);
+  return { officeName: office.officeName, district: office.district, state: office.state };
+}
+
+// The directory only changes with a re-import, so whole-directory scans share one read this long.
+const DIRECTORY_TTL_MS = 60 * 60_000;
+let directory: { expiresAt: number; localities: Promise<Map<string, Locality>> } | null = null;
+
+async function readLocalities() {
+  const offices = await db.pincodeLocation.findMany({
+    select: { pincode: true, officeName: true, officeType: true, district: true, state: true },
+    orderBy: [{ pincode: "asc" }, { officeName: "asc" }],
+  });
+
+  const localities = new Map<string, Locality>();
+  for (let start = 0; start < offices.length; ) {
+    let end = start + 1;
+    while (end < offices.length && offices[end].pincode === offices[start].pincode) end++;
+    const { pincode, officeName, district, state } = primaryOffice(offices.slice(start, end));
+    localities.set(pincode, { officeName, district, state });
+    start = end;
+  }
+  return localities;
+}
+
+// Every pincode in the directory with the locality findLocality would give it, for whole-directory scans.
+export function directoryLocalities(): Promise<Map<string, Locality>> {
+  if (!directory || directory.expiresAt <= Date.now()) {
+    const localities = readLocalities();
+    directory = { expiresAt: Date.now() + DIRECTORY_TTL_MS, localities };
+    localities.catch(() => {
+      if (directory?.localities === localities) directory = null;
+    });
+  }
+  return directory.localities;
+}
+
+export function formatLocality(locality: Locality) {
+  return `${locality.officeName}, ${locality.district}`;
+}
+
+// Returns the subset of pincodes that the directory doesn't know about.
+export async function findUnknownPincodes(pincodes: string[]) {
+  if (!pincodes.length || !(await isDirectoryLoaded())) return [];
+
+  const unique = Array.from(new Set(pincodes));
+  const known = await db.pincodeLocation.findMany({
+    where: { pincode: { in: unique } },
+    select: { pincode: true },
+    distinct: ["pincode"],
+  });
+  const knownSet = new Set(known.map((k) => k.pincode));
+  return unique.filter((p) => !knownSet.has(p));
+}
+
+// Distinct states and districts, used to suggest region names in the admin.
+export async function listRegions() {
+  const rows = await db.pincodeLocation.findMany({
+    select: { state: true, district: true },
+    distinct: ["state", "district"],
+    orderBy: [{ state: "asc" }, { district: "asc" }],
+  });
+  return {
+    states: Array.from(new Set(rows.map((r) => r.state))),
+    districts: rows,
+  };
+}
+
+// Maps admin input onto the directory's spelling; unknown names are kept as typed.
+export async function canonicalRegion(state: string, district: string) {
+  const match = await db.pincodeLocation.findFirst({
+    where: {
+      state: { equals: state, mode: "insensitive" },
+      ...(district ? { district: { equals: district, mode: "insensitive" } } : {}),
+    },
+    select: { state: true, district: true },
+  });
+  return {
+    state: match?.state ?? state,
+    district: district ? match?.district ?? district : "",
+  };
+}
@@ -0,0 +1,270 @@
+import type { PincodeMatchType, PincodeRule, Prisma } from "@prisma/client";
+import { shopDb, type ShopClient } from "./shopDb.server";
+import { parseCsvStream } from "../utils/csv";
+import { toIntOrNull } from "../utils/formValues";
+import { formatRulePincode, validateRulePincode } from "./pincodeRule.server";
+import { AUDITED_FIELDS, recordRuleChanges, type ChangeOrigin, type RuleWrite } from "./ruleAudit.server";
+import { normalizeOriginCode } from "./warehouse.server";
+
+type ImportField =
+  | "pincode"
+  | "matchType"
+  | "pincodeEnd"
+  | "origin"
+  | "deliverable"
+  | "codAvailable"
+  | "etaMinDays"
+  | "etaMaxDays"
+  | "shippingFee"
+  | "expressFee"
+  | "expressEtaMinDays"
+  | "expressEtaMaxDays";
+
+// Header spellings seen in carrier and spreadsheet exports, compared after normalizeHeader.
+const HEADER_ALIASES: Record<ImportField, string[]> = {
+  pincode: ["pincode", "pin", "pincodes", "postalcode", "postcode", "zip", "zipcode", "pincodestart", "rangestart", "prefix"],
+  matchType: ["matchtype", "type", "ruletype"],
+  pincodeEnd: ["pincodeend", "rangeend", "end"],
+  origin: ["origin", "warehouse", "warehousecode", "shipsfrom", "shipfrom"],
+  deliverable: ["deliverable", "serviceable", "isdeliverable", "delivery"],
+  codAvailable: ["codavailable", "cod", "iscod", "cashondelivery"],
+  etaMinDays: ["etamindays", "etamin", "mindays", "tatmin"],
+  etaMaxDays: ["etamaxdays", "etamax", "maxdays", "tatmax", "tat"],
+  shippingFee: ["shippingfee", "shipping", "fee", "shippingcharge", "deliverycharge", "deliveryfee"],
+  expressFee: ["expressfee", "express", "expresscharge"],
+  expressEtaMinDays: ["expressetamindays", "expressetamin", "expressmindays"],
+  expressEtaMaxDays: ["expressetamaxdays", "expressetamax", "expressmaxdays"],
+};
+
+const INT_FIELDS = [
+  "etaMinDays",
+  "etaMaxDays",
+  "shippingFee",
+  "expressFee",
+  "expressEtaMinDays",
+  "expressEtaMaxDays",
+] as const;
+
+const TRUE_VALUES = new Set(["true", "yes", "y", "1"]);
+const BOOL_VALUES = new Set([...TRUE_VALUES, "false", "no", "n", "0"]);
+
+// A file-level problem (as opposed to a bad row) that stops the import.
+export class ImportFormatError extends Error {}
+
+export type ImportRowError = { row: number; pincode: string; reason: string };
+
+export type ParsedRow = {
+  row: number;
+  matchType: PincodeMatchType;
+  pincode: string;
+  origin: string;
+  data: Omit<Prisma.PincodeRuleCreateManyInput, "shop" | "ruleSetId" | "matchType" | "pincode" | "origin">;
+};
+
+export type FieldChange = { field: string; before: string | number | boolean | null; after: string | number | boolean | null };
+
+export type RuleChange = { label: string; changes: FieldChange[] };
+
+export const ruleKey = (r: { origin: string; matchType: PincodeMatchType; pincode: string }) =>
+  `${r.origin}:${r.matchType}:${r.pincode}`;
+
+const normalizeHeader = (h: string) => h.toLowerCase().replace(/[^a-z0-9]/g, "");
+
+function resolveColumns(headers: string[]) {
+  const normalized = headers.map(normalizeHeader);
+  const columns: Partial<Record<ImportField, number>> = {};
+  for (const [field, aliases] of Object.entries(HEADER_ALIASES) as Array<[ImportField, string[]]>) {
+    const index = normalized.findIndex((h) => aliases.includes(h));
+    if (index >= 0) columns[field] = index;
+  }
+  return columns;
+}
+
+function parseRow(
+  cells: string[],
+  columns: Partial<Record<ImportField, number>>,
+  row: number,
+  origins: Set<string>,
+): ParsedRow | ImportRowError {
+  const cell = (field: ImportField) => {
+    const index = columns[field];
+    return index === undefined ? "" : (cells[index] ?? "").trim();
+  };
+
+  const pincode = cell("pincode");
+  const typeRaw = cell("matchType").toUpperCase();
+  const matchType = (typeRaw || "EXACT") as PincodeMatchType;
+  if (!["EXACT", "RANGE", "PREFIX"].includes(matchType)) {
+    return { row, pincode, reason: `Unknown rule type "${cell("matchType")}" (use exact, range or prefix).` };
+  }
+
+  const pincodeEnd = matchType === "RANGE" ? cell("pincodeEnd") : null;
+  const pincodeError = validateRulePincode(matchType, pincode, pincodeEnd);
+  if (pincodeError) return { row, pincode, reason: pincodeError };
+
+  const origin = normalizeOriginCode(cell("origin"));
+  if (origin && !origins.has(origin)) return { row, pincode, reason: `Unknown warehouse code "${origin}".` };
+
+  for (const field of ["deliverable", "codAvailable"] as const) {
+    const value = cell(field);
+    if (value && !BOOL_VALUES.has(value.toLowerCase())) {
+      return { row, pincode, reason: `${field} must be true or false.` };
+    }
+  }
+
+  const ints: Partial<Record<(typeof INT_FIELDS)[number], number | null>> = {};
+  for (const field of INT_FIELDS) {
+    const value = cell(field);
+    ints[field] = toIntOrNull(value);
+    if (value && ints[field] === null) return { row, pincode, reason: `${field} must be a non-negative integer.` };
+  }
+
+  const bool = (field: "deliverable" | "codAvailable", fallback: boolean) => {
+    const value = cell(field).toLowerCase();
+    return value ? TRUE_VALUES.has(value) : fallback;
+  };
+
+  return {
+    row,
+    matchType,
+    pincode,
+    origin,
+    data: {
+      pincodeEnd,
+      deliverable: bool("deliverable", true),
+      codAvailable: bool("codAvailable", false),
+      etaMinDays: ints.etaMinDays ?? null,
+      etaMaxDays: ints.etaMaxDays ?? null,
+      shippingFee: ints.shippingFee ?? null,
+      expressFee: ints.expressFee ?? null,
+      expressEtaMinDays: ints.expressEtaMinDays ?? null,
+      expressEtaMaxDays: ints.expressEtaMaxDays ?? null,
+    },
+  };
+}
+
+/**
+ * Streams a rules CSV as validated rows. Each data row comes out either as a rule to write or
+ * as an error carrying its CSV row number (the header is row 1). An optional origin column holds
+ * one of `origins`, the shop's warehouse codes.
+ * Throws ImportFormatError when the header has no pincode column.
+ */
+export async function* readImportRows(
+  stream: ReadableStream<Uint8Array>,
+  origins: Set<string>,
+): AsyncGenerator<ParsedRow | ImportRowError> {
+  let columns: Partial<Record<ImportField, number>> | null = null;
+  let row = 0;
+
+  for await (const cells of parseCsvStream(stream)) {
+    row++;
+    if (!columns) {
+      columns = resolveColumns(cells);
+      if (columns.pincode === undefined) throw new ImportFormatError('CSV must include a "pincode" column.');
+      continue;
+    }
+    yield parseRow(cells, columns, row, origins);
+  }
+
+  if (!columns) throw new ImportFormatError("The CSV file is empty.");
+}
+
+// The stored rules for `rows`, by ruleKey. The same pincode under another origin is a different rule.
+async function findExisting(tx: ShopClient, ruleSetId: string, rows: ParsedRow[]) {
+  const keys = new Set(rows.map(ruleKey));
+  const existing = await tx.pincodeRule.findMany({
+    where: {
+      ruleSetId,
+      origin: { in: Array.from(new Set(rows.map((r) => r.origin))) },
+      OR: (["EXACT", "RANGE", "PREFIX"] as const).map((matchType) => ({
+        matchType,
+        pincode: { in: rows.filter((r) => r.matchType === matchType).map((r) => r.pincode) },
+      })),
+    },
+  });
+  return new Map<string, PincodeRule>(existing.filter((e) => keys.has(ruleKey(e))).map((e) => [ruleKey(e), e]));
+}
+
+function lastRowPerRule(rows: ParsedRow[]) {
+  const byKey = new Map<string, ParsedRow>();
+  for (const r of rows) byKey.set(ruleKey(r), r);
+  return Array.from(byKey.values());
+}
+
+/**
+ * Classifies a chunk against the stored rules without writing anything: rules the file adds,
+ * rules it changes (with field-level before/after) and how many it leaves as they are.
+ */
+export async function diffChunk(target: { shop: string; ruleSetId: string }, rows: ParsedRow[]) {
+  const unique = lastRowPerRule(rows);
+  const result = { added: [] as string[], changed: [] as RuleChange[], unchanged: 0 };
+  if (!unique.length) return result;
+
+  const existing = await findExisting(shopDb(target.shop), target.ruleSetId, unique);
+  for (const r of unique) {
+    const label = formatRulePincode({ ...r, pincodeEnd: r.data.pincodeEnd ?? null });
+    const current = existing.get(ruleKey(r));
+    if (!current) {
+      result.added.push(label);
+      continue;
+    }
+
+    const changes = AUDITED_FIELDS.filter((f) => (r.data[f] ?? null) !== current[f]).map((f) => ({
+      field: f,
+      before: current[f],
+      after: r.data[f] ?? null,
+    }));
+    if (changes.length) result.changed.push({ label, changes });
+    else result.unchanged++;
+  }
+  return result;
+}
+
+// Rules of the set whose key is not in `keys`, i.e. what replace mode would delete.
+export async function findRulesMissingFrom(target: { shop: string; ruleSetId: string }, keys: Set<string>) {
+  const rules = await shopDb(target.shop).pincodeRule.findMany({
+    where: { ruleSetId: target.ruleSetId },
+    select: { id: true, origin: true, matchType: true, pincode: true, pincodeEnd: true },
+  });
+  return rules.filter((r) => !keys.has(ruleKey(r)));
+}
+
+/**
+ * Writes one chunk: new rules with a single createMany, existing ones as updates, and an audit
+ * entry for each rule that changed. Pass a transaction client to commit the chunk together with
+ * other writes. When the chunk repeats a rule, the last row wins.
+ */
+export async function writeChunk(
+  tx: ShopClient,
+  target: { shop: string; ruleSetId: string },
+  rows: ParsedRow[],
+  origin: ChangeOrigin,
+) {
+  const { shop, ruleSetId } = target;
+  const unique = lastRowPerRule(rows);
+  if (!unique.length) return { inserted: 0, updated: 0 };
+
+  const existing = await findExisting(tx, ruleSetId, unique);
+  const creates = unique.filter((r) => !existing.has(ruleKey(r)));
+  const updates = unique.filter((r) => existing.has(ruleKey(r)));
+
+  const created = creates.length
+    ? await tx.pincodeRule.createMany({
+        data: creates.map((r) => ({ shop, ruleSetId, origin: r.origin, matchType: r.matchType, pincode: r.pincode, ...r.data })),
+        skipDuplicates: true,
+      })
+    : { count: 0 };
+
+  const writes: RuleWrite[] = [];
+  if (creates.length) {
+    const inserted = await findExisting(tx, ruleSetId, creates);
+    writes.push(...Array.from(inserted.values(), (after) => ({ before: null, after })));
+  }
+  for (const r of updates) {
+    const before = existing.get(ruleKey(r))!;
+    writes.push({ before, after: await tx.pincodeRule.update({ where: { id: before.id }, data: r.data }) });
+  }
+  await recordRuleChanges(tx, shop, origin, writes);
+
+  return { inserted: created.count, updated: updates.length };
+}
@@ -0,0 +1,65 @@
+import type { PincodeMatchType, PincodeRule } from "@prisma/client";
+import { shopDb } from "./shopDb.server";
+import { publishedRules } from "./ruleSet.server";
+
+export type MatchedRule = {
+  rule: PincodeRule;
+  matchedBy: "exact" | "range" | "prefix";
+};
+
+// Human readable form used in the admin table and preview: 110001, 560001–560110, 4000xx (BLR)
+export function formatRulePincode(
+  rule: Pick<PincodeRule, "matchType" | "pincode" | "pincodeEnd"> & { origin?: string },
+) {
+  const origin = rule.origin ? ` (${rule.origin})` : "";
+  if (rule.matchType === "RANGE") return `${rule.pincode}–${rule.pincodeEnd ?? "?"}${origin}`;
+  if (rule.matchType === "PREFIX") return `${rule.pincode.padEnd(6, "x")}${origin}`;
+  return `${rule.pincode}${origin}`;
+}
+
+// Returns an error message, or null when pincode/pincodeEnd are valid for the match type.
+export function validateRulePincode(matchType: PincodeMatchType, pincode: string, pincodeEnd: string | null) {
+  if (matchType === "EXACT") {
+    return /^\d{6}$/.test(pincode) ? null : "Pincode must be exactly 6 digits.";
+  }
+  if (matchType === "PREFIX") {
+    return /^\d{1,5}$/.test(pincode) ? null : "Prefix must be 1 to 5 digits.";
+  }
+  if (!/^\d{6}$/.test(pincode) || !pincodeEnd || !/^\d{6}$/.test(pincodeEnd)) {
+    return "Range start and end must both be 6-digit pincodes.";
+  }
+  if (pincode > pincodeEnd) return "Range start must not be greater than range end.";
+  return null;
+}
+
+/**
+ * Finds the published rules that apply to a 6-digit pincode, one per origin (keyed by warehouse
+ * code, "" for rules that apply whichever warehouse ships).
+ * Precedence within an origin: exact match, then the narrowest containing range, then the longest prefix.
+ */
+export async function resolvePincodeRules(shop: string, pincode: string): Promise<Map<string, MatchedRule>> {
+  const db = shopDb(shop);
+  const published = publishedRules(shop);
+  const prefixes = [1, 2, 3, 4, 5].map((len) => pincode.slice(0, len));
+  const [exact, ranges, prefixRules] = await Promise.all([
+    db.pincodeRule.findMany({ where: { ...published, matchType: "EXACT", pincode } }),
+    // Fixed-width digit strings compare the same lexically and numerically.
+    db.pincodeRule.findMany({
+      where: { ...published, matchType: "RANGE", pincode: { lte: pincode }, pincodeEnd: { gte: pincode } },
+    }),
+    db.pincodeRule.findMany({ where: { ...published, matchType: "PREFIX", pincode: { in: prefixes } } }),
+  ]);
+
+  // Offered most specific first; the first rule offered for an origin wins.
+  const matches = new Map<string, MatchedRule>();
+  const offer = (rule: PincodeRule, matchedBy: MatchedRule["matchedBy"]) => {
+    if (!matches.has(rule.origin)) matches.set(rule.origin, { rule, matchedBy });
+  };
+
+  for (const rule of exact) offer(rule, "exact");
+  const span = (r: PincodeRule) => Number(r.pincodeEnd) - Number(r.pincode);
+  for (const rule of ranges.sort((a, b) => span(a) - span(b))) offer(rule, "range");
+  for (const rule of prefixRules.sort((a, b) => b.pincode.length - a.pincode.length)) offer(rule, "prefix");
+
+  return matches;
+}
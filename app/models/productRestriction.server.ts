@@ -0,0 +1,193 @@
+import type { ProductRestriction } from "@prisma/client";
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import { LruCache } from "../utils/lru";
+import { ruleVersion, shopDb } from "./shopDb.server";
+
+const RESTRICTIONS_TTL_MS = 60_000;
+
+type PincodePattern =
+  | { kind: "exact"; pincode: string }
+  | { kind: "range"; from: string; to: string }
+  | { kind: "prefix"; prefix: string };
+
+export type ProductRef = { productId?: string | null; variantId?: string | null };
+
+type ProductContext = { productId: string; tags: string[]; collectionIds: string[] };
+
+export type RestrictionVerdict = { restriction: ProductRestriction; message: string } | null;
+
+/**
+ * Parses "110001, 560001-560110, 4000*" into patterns.
+ * Returns the offending token as `error` when any entry is malformed.
+ */
+export function parsePincodePatterns(text: string): { patterns: PincodePattern[]; error: string | null } {
+  const patterns: PincodePattern[] = [];
+  const tokens = text
+    .split(/[\s,;]+/)
+    .map((t) => t.trim())
+    .filter(Boolean);
+
+  for (const token of tokens) {
+    let m: RegExpMatchArray | null;
+    if (/^\d{6}$/.test(token)) {
+      patterns.push({ kind: "exact", pincode: token });
+    } else if ((m = token.match(/^(\d{6})[-–](\d{6})$/))) {
+      if (m[1] > m[2]) return { patterns, error: `Range ${token} starts after it ends.` };
+      patterns.push({ kind: "range", from: m[1], to: m[2] });
+    } else if ((m = token.match(/^(\d{1,5})(\*|x+)$/i))) {
+      patterns.push({ kind: "prefix", prefix: m[1] });
+    } else {
+      return { patterns, error: `"${token}" is not a pincode, range (560001-560110) or prefix (4000*).` };
+    }
+  }
+
+  if (!patterns.length) return { patterns, error: "Add at least one pincode, range or prefix." };
+  return { patterns, error: null };
+}
+
+export function matchesPatterns(patterns: PincodePattern[], pincode: string) {
+  return patterns.some((p) => {
+    if (p.kind === "exact") return p.pincode === pincode;
+    if (p.kind === "range") return pincode >= p.from && pincode <= p.to;
+    return pincode.startsWith(p.prefix);
+  });
+}
+
+// Liquid hands us numeric ids; the Admin API and our stored targets use GIDs.
+export function toGid(type: "Product" | "ProductVariant" | "Collection", id: string | null | undefined) {
+  const value = (id || "").trim();
+  if (!value) return null;
+  if (value.startsWith("gid://")) return value;
+  return /^\d+$/.test(value) ? `gid://shopify/${type}/${value}` : null;
+}
+
+const PRODUCT_CONTEXT_FIELDS = `#graphql
+  fragment RestrictionProductFields on Product {
+    id
+    tags
+    collections(first: 250) {
+      nodes {
+        id
+      }
+    }
+  }
+`;
+
+const PRODUCT_CONTEXT_QUERY = `#graphql
+  ${PRODUCT_CONTEXT_FIELDS}
+  query RestrictionProductContext($id: ID!) {
+    product(id: $id) {
+      ...RestrictionProductFields
+    }
+  }
+`;
+
+const VARIANT_CONTEXT_QUERY = `#graphql
+  ${PRODUCT_CONTEXT_FIELDS}
+  query RestrictionVariantContext($id: ID!) {
+    productVariant(id: $id) {
+      product {
+        ...RestrictionProductFields
+      }
+    }
+  }
+`;
+
+type ProductFields = { id: string; tags: string[]; collections: { nodes: Array<{ id: string }> } };
+
+async function loadProductContext(admin: AdminApiContext, ref: ProductRef): Promise<ProductContext | null> {
+  const variantId = toGid("ProductVariant", ref.variantId);
+  const productId = toGid("Product", ref.productId);
+
+  let product: ProductFields | null | undefined;
+  try {
+    if (productId) {
+      const res = await admin.graphql(PRODUCT_CONTEXT_QUERY, { variables: { id: productId } });
+      const { data } = await res.json();
+      product = data?.product;
+    } else if (variantId) {
+      const res = await admin.graphql(VARIANT_CONTEXT_QUERY, { variables: { id: variantId } });
+      const { data } = await res.json();
+      product = data?.productVariant?.product;
+    }
+  } catch (e) {
+    // An Admin API error or throttle mustn't fail the storefront check; judge by the product id
+    // alone, as without an Admin API session.
+    console.error(`[restrictions] product lookup for ${productId ?? variantId} failed:`, e);
+    return productId ? { productId, tags: [], collectionIds: [] } : null;
+  }
+  if (!product) return null;
+
+  return {
+    productId: product.id,
+    tags: product.tags,
+    collectionIds: product.collections.nodes.map((c) => c.id),
+  };
+}
+
+function appliesTo(restriction: ProductRestriction, product: ProductContext) {
+  if (restriction.targetType === "PRODUCT") return restriction.targetId === product.productId;
+  if (restriction.targetType === "COLLECTION") return product.collectionIds.includes(restriction.targetId);
+  const tag = restriction.targetId.toLowerCase();
+  return product.tags.some((t) => t.toLowerCase() === tag);
+}
+
+// Every storefront check reads these, so they are kept until a rule write bumps the version.
+const cachedRestrictions = new LruCache<string, ProductRestriction[]>(500);
+
+async function loadRestrictions(shop: string) {
+  const key = `${shop}|${ruleVersion(shop)}`;
+  const hit = cachedRestrictions.get(key);
+  if (hit) return hit;
+  const rows = await shopDb(shop).productRestriction.findMany({ where: { shop }, orderBy: { createdAt: "asc" } });
+  cachedRestrictions.set(key, rows, RESTRICTIONS_TTL_MS);
+  return rows;
+}
+
+/**
+ * Returns a checker that tests products against the shop's restrictions for a pincode.
+ * The checker resolves to the first restriction that blocks delivery, or null when the product may ship.
+ * Restrictions are loaded once per checker, so one checker can serve every line of a cart.
+ * Without an Admin API session only restrictions on the product id itself can be evaluated.
+ */
+export function createRestrictionChecker(shop: string, admin: AdminApiContext | undefined) {
+  let restrictions: Promise<ProductRestriction[]> | null = null;
+  // Cart lines often repeat a product, so product lookups are memoized per checker.
+  const products = new Map<string, Promise<ProductContext | null>>();
+
+  const productContext = (ref: ProductRef) => {
+    const productId = toGid("Product", ref.productId);
+    if (!admin) return Promise.resolve(productId ? { productId, tags: [], collectionIds: [] } : null);
+
+    const key = productId ?? `variant:${ref.variantId}`;
+    let pending = products.get(key);
+    if (!pending) {
+      pending = loadProductContext(admin, ref);
+      products.set(key, pending);
+    }
+    return pending;
+  };
+
+  return async function checkProduct(pincode: string, ref: ProductRef): Promise<RestrictionVerdict> {
+    if (!ref.productId && !ref.variantId) return null;
+
+    restrictions ??= loadRestrictions(shop);
+    const rules = await restrictions;
+    if (!rules.length) return null;
+
+    const product = await productContext(ref);
+    if (!product) return null;
+
+    for (const restriction of rules) {
+      if (!appliesTo(restriction, product)) continue;
+
+      const { patterns } = parsePincodePatterns(restriction.pincodes);
+      const listed = matchesPatterns(patterns, pincode);
+      const blocked = restriction.mode === "ALLOW_ONLY" ? !listed : listed;
+      if (blocked) {
+        return { restriction, message: restriction.message || "This product can't be delivered to this pincode." };
+      }
+    }
+    return null;
+  };
+}
@@ -0,0 +1,43 @@
+import type { RegionRule, RegionScope } from "@prisma/client";
+import { shopDb } from "./shopDb.server";
+import type { Locality } from "./pincodeDirectory.server";
+
+// Most specific scope first
+const SCOPE_PRIORITY: RegionScope[] = ["DISTRICT", "STATE", "SHOP"];
+
+export function formatRegion(rule: Pick<RegionRule, "scope" | "state" | "district">) {
+  if (rule.scope === "DISTRICT") return `${rule.district}, ${rule.state}`;
+  if (rule.scope === "STATE") return rule.state;
+  return "All pincodes (shop default)";
+}
+
+/**
+ * Finds the most specific region rule for a locality: district, then state, then the shop default.
+ * Without a locality (pincode missing from the directory) only the shop default can apply.
+ */
+export async function resolveRegionRule(shop: string, locality: Locality | null) {
+  const rules = await shopDb(shop).regionRule.findMany({
+    where: {
+      shop,
+      OR: [
+        { scope: "SHOP" },
+        ...(locality
+          ? [
+              { scope: "STATE" as const, state: { equals: locality.state, mode: "insensitive" as const } },
+              {
+                scope: "DISTRICT" as const,
+                state: { equals: locality.state, mode: "insensitive" as const },
+                district: { equals: locality.district, mode: "insensitive" as const },
+              },
+            ]
+          : []),
+      ],
+    },
+  });
+
+  for (const scope of SCOPE_PRIORITY) {
+    const rule = rules.find((r) => r.scope === scope);
+    if (rule) return rule;
+  }
+  return null;
+}
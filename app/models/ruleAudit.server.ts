@@ -0,0 +1,147 @@
+import type { PincodeRule, Prisma, RuleAuditEntry, RuleAuditSource } from "@prisma/client";
+import { shopDb, type ShopClient } from "./shopDb.server";
+import { getRuleSet, isEditable, RuleSetError } from "./ruleSet.server";
+
+// Reverting a large import commits this many entries per transaction; also the resume granularity.
+const REVERT_CHUNK_SIZE = 500;
+
+// Everything a change can touch apart from the rule's key (rule set, origin, match type, pincode).
+export const AUDITED_FIELDS = [
+  "pincodeEnd",
+  "deliverable",
+  "codAvailable",
+  "etaMinDays",
+  "etaMaxDays",
+  "shippingFee",
+  "expressFee",
+  "expressEtaMinDays",
+  "expressEtaMaxDays",
+] as const;
+
+export type RuleSnapshot = Pick<PincodeRule, (typeof AUDITED_FIELDS)[number]>;
+
+// Where a change came from; `actor` is the staff user id, null for work nobody triggered directly.
+export type ChangeOrigin = { source: RuleAuditSource; actor: string | null; importJobId?: string };
+
+export type RuleWrite = { before: PincodeRule | null; after: PincodeRule | null };
+
+function snapshot(rule: PincodeRule): RuleSnapshot {
+  return Object.fromEntries(AUDITED_FIELDS.map((f) => [f, rule[f]])) as RuleSnapshot;
+}
+
+/**
+ * Records one entry per written rule, given the rule before and after the write
+ * (null before for a create, null after for a delete). Updates that changed nothing are skipped.
+ * Pass the transaction client that made the writes so the entries commit with them.
+ */
+export async function recordRuleChanges(client: ShopClient, shop: string, origin: ChangeOrigin, writes: RuleWrite[]) {
+  const data: Prisma.RuleAuditEntryCreateManyInput[] = [];
+  for (const { before, after } of writes) {
+    const rule = after ?? before;
+    if (!rule) continue;
+    if (before && after && AUDITED_FIELDS.every((f) => before[f] === after[f])) continue;
+
+    data.push({
+      shop,
+      source: origin.source,
+      actor: origin.actor,
+      importJobId: origin.importJobId ?? null,
+      ruleSetId: rule.ruleSetId,
+      action: !before ? "CREATE" : !after ? "DELETE" : "UPDATE",
+      matchType: rule.matchType,
+      pincode: rule.pincode,
+      origin: rule.origin,
+      before: before ? snapshot(before) : undefined,
+      after: after ? snapshot(after) : undefined,
+    });
+  }
+  if (data.length) await client.ruleAuditEntry.createMany({ data });
+}
+
+export async function listAuditEntries(shop: string, options: { importJobId?: string; after?: string; take?: number } = {}) {
+  const take = options.take ?? 50;
+  const db = shopDb(shop);
+  const entries = await db.ruleAuditEntry.findMany({
+    where: { shop, ...(options.importJobId ? { importJobId: options.importJobId } : {}) },
+    orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+    take: take + 1,
+    ...(options.after ? { cursor: { id: options.after }, skip: 1 } : {}),
+  });
+  return { entries: entries.slice(0, take), hasMore: entries.length > take };
+}
+
+/**
+ * Puts each entry's rule back to its recorded `before` state (deleting rules the entry created),
+ * overwriting whatever changed since. Entries are applied in the order given, so pass them newest
+ * first when one rule appears more than once. All entries must belong to the same rule set;
+ * entries from before rule sets changed the published rules.
+ */
+async function revertEntries(shop: string, entries: RuleAuditEntry[], actor: string | null) {
+  const ruleSet = await getRuleSet(shop, entries[0].ruleSetId);
+  if (!isEditable(ruleSet)) {
+    throw new RuleSetError(
+      ruleSet.status === "PUBLISHED"
+        ? "This change is in the published rules, which are read-only. Undo it in a draft copy and publish that."
+        : "This change was made to a rule set that is now archived.",
+    );
+  }
+  const db = shopDb(shop);
+
+  await db.$transaction(
+    async (tx) => {
+      const writes: RuleWrite[] = [];
+      for (const entry of entries) {
+        const { matchType, pincode, origin } = entry;
+        const key = { ruleSetId_origin_matchType_pincode: { ruleSetId: ruleSet.id, origin, matchType, pincode } };
+        const current = await tx.pincodeRule.findUnique({ where: key });
+        const before = entry.before as RuleSnapshot | null;
+
+        if (before) {
+          const restored = await tx.pincodeRule.upsert({
+            where: key,
+            update: before,
+            create: { shop, ruleSetId: ruleSet.id, origin, matchType, pincode, ...before },
+          });
+          writes.push({ before: current, after: restored });
+        } else if (current) {
+          await tx.pincodeRule.delete({ where: { id: current.id } });
+          writes.push({ before: current, after: null });
+        }
+      }
+
+      await recordRuleChanges(tx, shop, { source: "REVERT", actor }, writes);
+      await tx.ruleAuditEntry.updateMany({
+        where: { id: { in: entries.map((e) => e.id) } },
+        data: { revertedAt: new Date(), revertedBy: actor },
+      });
+    },
+    { timeout: 60_000 },
+  );
+}
+
+// Returns false when the entry doesn't exist for this shop or was already reverted.
+export async function revertChange(shop: string, entryId: string, actor: string | null) {
+  const entry = await shopDb(shop).ruleAuditEntry.findFirst({ where: { id: entryId, shop, revertedAt: null } });
+  if (!entry) return false;
+  await revertEntries(shop, [entry], actor);
+  return true;
+}
+
+/**
+ * Reverts every change an import made that isn't reverted yet, and returns how many.
+ * Chunks commit separately, so an interrupted revert can simply be run again.
+ */
+export async function revertImport(shop: string, importJobId: string, actor: string | null) {
+  const db = shopDb(shop);
+  let reverted = 0;
+  for (;;) {
+    const entries = await db.ruleAuditEntry.findMany({
+      where: { shop, importJobId, revertedAt: null },
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: REVERT_CHUNK_SIZE,
+    });
+    if (!entries.length) return reverted;
+    await revertEntries(shop, entries, actor);
+    reverted += entries.length;
+  }
+}
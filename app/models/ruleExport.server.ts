@@ -0,0 +1,101 @@
+import type { PincodeRule, Prisma } from "@prisma/client";
+import { shopDb, type ShopClient } from "./shopDb.server";
+import { toCsvRow } from "../utils/csv";
+import { buildXlsx } from "../utils/xlsx.server";
+
+const PAGE_SIZE = 1000;
+
+// Same headers the importer reads, so an export can be edited and uploaded again.
+export const EXPORT_COLUMNS = [
+  "pincode",
+  "matchType",
+  "pincodeEnd",
+  "origin",
+  "deliverable",
+  "codAvailable",
+  "etaMinDays",
+  "etaMaxDays",
+  "shippingFee",
+  "expressFee",
+  "expressEtaMinDays",
+  "expressEtaMaxDays",
+] as const;
+
+export type ExportFormat = "csv" | "xlsx" | "json";
+
+function exportRow(rule: PincodeRule) {
+  return EXPORT_COLUMNS.map((column) => (column === "matchType" ? rule.matchType.toLowerCase() : rule[column]));
+}
+
+// Pages through the matching rules by cursor so large shops never load every rule at once.
+async function* iterateRules(db: ShopClient, where: Prisma.PincodeRuleWhereInput) {
+  let cursor: string | undefined;
+  for (;;) {
+    const page = await db.pincodeRule.findMany({
+      where,
+      // Origin rules share (pincode, matchType), so id breaks ties and keeps the cursor stable.
+      orderBy: [{ pincode: "asc" }, { matchType: "asc" }, { id: "asc" }],
+      take: PAGE_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+    yield* page;
+    if (page.length < PAGE_SIZE) return;
+    cursor = page[page.length - 1].id;
+  }
+}
+
+function textStream(chunks: AsyncGenerator<string>) {
+  const encoder = new TextEncoder();
+  return new ReadableStream<Uint8Array>({
+    async pull(controller) {
+      const { done, value } = await chunks.next();
+      if (done) controller.close();
+      else controller.enqueue(encoder.encode(value));
+    },
+    async cancel() {
+      await chunks.return(undefined);
+    },
+  });
+}
+
+async function* csvChunks(rules: AsyncIterable<PincodeRule>) {
+  yield toCsvRow([...EXPORT_COLUMNS]) + "\r\n";
+  let lines: string[] = [];
+  for await (const rule of rules) {
+    lines.push(toCsvRow(exportRow(rule)));
+    if (lines.length >= PAGE_SIZE) {
+      yield lines.join("\r\n") + "\r\n";
+      lines = [];
+    }
+  }
+  if (lines.length) yield lines.join("\r\n") + "\r\n";
+}
+
+async function* jsonChunks(rules: AsyncIterable<PincodeRule>) {
+  yield "[";
+  let first = true;
+  for await (const rule of rules) {
+    const values = exportRow(rule);
+    const item = Object.fromEntries(EXPORT_COLUMNS.map((c, i) => [c, values[i]]));
+    yield (first ? "\n" : ",\n") + JSON.stringify(item);
+    first = false;
+  }
+  yield "\n]\n";
+}
+
+/**
+ * Exports the shop's rules matching `where` in the importer's column format.
+ * CSV and JSON are streamed; XLSX is a zip, so it is assembled in memory before sending.
+ */
+export async function exportRules(shop: string, where: Prisma.PincodeRuleWhereInput, format: ExportFormat) {
+  const rules = iterateRules(shopDb(shop), where);
+  if (format === "csv") return { body: textStream(csvChunks(rules)), contentType: "text/csv; charset=utf-8" };
+  if (format === "json") return { body: textStream(jsonChunks(rules)), contentType: "application/json" };
+
+  const rows = [];
+  for await (const rule of rules) rows.push(exportRow(rule));
+  return {
+    body: buildXlsx("Pincode rules", [...EXPORT_COLUMNS], rows),
+    contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  };
+}
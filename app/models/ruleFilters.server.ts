@@ -0,0 +1,72 @@
+import type { Prisma } from "@prisma/client";
+
+// What the search box asked for: one pincode, a prefix (1-5 digits) or a comma-separated list.
+export type RuleSearch = { kind: "exact" | "prefix" | "list"; values: string[] };
+
+// Filters shared by the rules list and the export, read from the same query params.
+export type RuleFilters = {
+  search: RuleSearch | null;
+  deliverable: boolean | null;
+  cod: boolean | null;
+  fee: boolean | null; // whether the rule sets a shipping fee
+  etaMin: number | null; // rules promising no sooner than this
+  etaMax: number | null; // rules promising no later than this
+  prefix: string;
+};
+
+const yesNo = (value: string | null) => (value === "yes" ? true : value === "no" ? false : null);
+
+function nonNegativeInt(value: string | null) {
+  if (!value || !/^\d+$/.test(value.trim())) return null;
+  return Number(value.trim());
+}
+
+// Unparseable searches return null so the list shows everything rather than nothing.
+function parseSearch(q: string | null): RuleSearch | null {
+  const tokens = (q || "")
+    .split(/[\s,;]+/)
+    .map((t) => t.trim())
+    .filter(Boolean);
+  if (!tokens.length) return null;
+  if (tokens.length > 1) {
+    const values = tokens.filter((t) => /^\d{1,6}$/.test(t));
+    return values.length ? { kind: "list", values } : null;
+  }
+  if (/^\d{6}$/.test(tokens[0])) return { kind: "exact", values: tokens };
+  if (/^\d{1,5}$/.test(tokens[0])) return { kind: "prefix", values: tokens };
+  return null;
+}
+
+export function parseRuleFilters(params: URLSearchParams): RuleFilters {
+  const prefix = (params.get("prefix") || "").trim();
+  return {
+    search: parseSearch(params.get("q")),
+    deliverable: yesNo(params.get("deliverable")),
+    cod: yesNo(params.get("cod")),
+    fee: yesNo(params.get("fee")),
+    etaMin: nonNegativeInt(params.get("etaMin")),
+    etaMax: nonNegativeInt(params.get("etaMax")),
+    prefix: /^\d{1,6}$/.test(prefix) ? prefix : "",
+  };
+}
+
+export function ruleFilterWhere(shop: string, filters: RuleFilters): Prisma.PincodeRuleWhereInput {
+  const where: Prisma.PincodeRuleWhereInput = { shop };
+  const and: Prisma.PincodeRuleWhereInput[] = [];
+
+  if (filters.deliverable !== null) where.deliverable = filters.deliverable;
+  if (filters.cod !== null) where.codAvailable = filters.cod;
+  if (filters.fee !== null) where.shippingFee = filters.fee ? { not: null } : null;
+  if (filters.etaMin !== null) where.etaMinDays = { gte: filters.etaMin };
+  if (filters.etaMax !== null) where.etaMaxDays = { lte: filters.etaMax };
+  // Matches the stored start of a rule, so ranges starting and longer prefixes inside it are found too.
+  if (filters.prefix) and.push({ pincode: { startsWith: filters.prefix } });
+
+  const search = filters.search;
+  if (search?.kind === "exact") and.push({ pincode: search.values[0] });
+  if (search?.kind === "prefix") and.push({ pincode: { startsWith: search.values[0] } });
+  if (search?.kind === "list") and.push({ pincode: { in: search.values } });
+
+  if (and.length) where.AND = and;
+  return where;
+}
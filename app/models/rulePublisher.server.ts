@@ -0,0 +1,36 @@
+import db from "../db.server";
+import { trySyncCheckoutRulesOffline } from "./checkoutSync.server";
+import { publishRuleSet } from "./ruleSet.server";
+import { tryQueueWaitlist } from "./waitlist.server";
+
+const PUBLISHER_INTERVAL_MS = 60_000;
+
+async function publishDueRuleSets() {
+  const due = await db.ruleSet.findMany({
+    where: { status: "SCHEDULED", publishAt: { lte: new Date() } },
+    orderBy: { publishAt: "asc" },
+  });
+  for (const set of due) {
+    try {
+      await publishRuleSet(set.shop, set.id);
+      await trySyncCheckoutRulesOffline(set.shop);
+      await tryQueueWaitlist(set.shop);
+    } catch (e) {
+      console.error(`[rule-sets] scheduled publish of ${set.id} for ${set.shop} failed:`, e);
+    }
+  }
+}
+
+let publisher: ReturnType<typeof setInterval> | undefined;
+
+/**
+ * Checks for due scheduled publishes every minute; safe to call more than once.
+ * Like the import worker, this assumes a single app instance.
+ */
+export function startRulePublisher() {
+  if (publisher) return;
+  publisher = setInterval(() => {
+    publishDueRuleSets().catch((e) => console.error("[rule-sets] publisher check failed:", e));
+  }, PUBLISHER_INTERVAL_MS);
+  void publishDueRuleSets().catch((e) => console.error("[rule-sets] publisher check failed:", e));
+}
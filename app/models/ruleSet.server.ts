@@ -0,0 +1,134 @@
+import { Prisma, type RuleSet } from "@prisma/client";
+import { shopDb } from "./shopDb.server";
+
+const COPY_PAGE_SIZE = 1000;
+
+// A rule set action the set's status doesn't allow, e.g. editing an archived version.
+export class RuleSetError extends Error {}
+
+// Where clause for the rules the storefront and checkout read.
+export const publishedRules = (shop: string): Prisma.PincodeRuleWhereInput => ({
+  shop,
+  ruleSet: { status: "PUBLISHED" },
+});
+
+// The published set changes only by publishing a draft, and archived sets only by rolling back to them.
+export const isEditable = (set: Pick<RuleSet, "status">) => set.status === "DRAFT" || set.status === "SCHEDULED";
+
+// Set by the unique index that allows one PUBLISHED set per shop (see the migration that adds it).
+const isPublishedConflict = (e: unknown) => e instanceof Prisma.PrismaClientKnownRequestError && e.code === "P2002";
+
+/**
+ * The shop's published set, created empty on first use so every shop always has one.
+ */
+export async function ensurePublishedRuleSet(shop: string) {
+  const db = shopDb(shop);
+  const published = await db.ruleSet.findFirst({ where: { shop, status: "PUBLISHED" } });
+  if (published) return published;
+  try {
+    return await db.ruleSet.create({ data: { shop, name: "Live rules", status: "PUBLISHED", publishedAt: new Date() } });
+  } catch (e) {
+    // A concurrent request created it first.
+    if (!isPublishedConflict(e)) throw e;
+    return db.ruleSet.findFirstOrThrow({ where: { shop, status: "PUBLISHED" } });
+  }
+}
+
+/**
+ * The set named by `id` (any status), or the published set when `id` is empty.
+ * Throws RuleSetError for an id that isn't one of the shop's sets.
+ */
+export async function getRuleSet(shop: string, id: string | null | undefined) {
+  const db = shopDb(shop);
+  if (!id) return ensurePublishedRuleSet(shop);
+  const set = await db.ruleSet.findFirst({ where: { id, shop } });
+  if (!set) throw new RuleSetError("This rule set no longer exists.");
+  return set;
+}
+
+export async function listRuleSets(shop: string) {
+  const db = shopDb(shop);
+  await ensurePublishedRuleSet(shop);
+  return db.ruleSet.findMany({
+    where: { shop },
+    orderBy: [{ status: "asc" }, { createdAt: "desc" }],
+    include: { _count: { select: { rules: true } } },
+  });
+}
+
+/**
+ * Creates a draft, optionally starting from a copy of another set's rules.
+ * Copies go page by page so a large set never loads at once.
+ */
+export async function createDraft(shop: string, name: string, copyFromId: string | null) {
+  const db = shopDb(shop);
+  const source = copyFromId ? await getRuleSet(shop, copyFromId) : null;
+  const draft = await db.ruleSet.create({ data: { shop, name } });
+  if (!source) return draft;
+
+  for (let copied = 0; ; copied += COPY_PAGE_SIZE) {
+    const page = await db.pincodeRule.findMany({
+      where: { ruleSetId: source.id },
+      orderBy: { id: "asc" },
+      skip: copied,
+      take: COPY_PAGE_SIZE,
+      omit: { id: true, ruleSetId: true, createdAt: true, updatedAt: true },
+    });
+    if (page.length) {
+      await db.pincodeRule.createMany({ data: page.map((rule) => ({ ...rule, ruleSetId: draft.id })) });
+    }
+    if (page.length < COPY_PAGE_SIZE) return draft;
+  }
+}
+
+/**
+ * Makes a set the one the storefront reads and archives the previously published one.
+ * Publishing an archived set is a rollback to that version. Nothing is copied, so this is
+ * instant however many rules the set holds. Callers sync checkout rules afterwards.
+ */
+export async function publishRuleSet(shop: string, id: string) {
+  const db = shopDb(shop);
+  return db
+    .$transaction(async (tx) => {
+      const set = await tx.ruleSet.findFirst({ where: { id, shop } });
+      if (!set) throw new RuleSetError("This rule set no longer exists.");
+      if (set.status === "PUBLISHED") throw new RuleSetError("This rule set is already published.");
+
+      const now = new Date();
+      await tx.ruleSet.updateMany({
+        where: { shop, status: "PUBLISHED" },
+        data: { status: "ARCHIVED", archivedAt: now },
+      });
+      return tx.ruleSet.update({
+        where: { id },
+        data: { status: "PUBLISHED", publishedAt: now, publishAt: null, archivedAt: null },
+      });
+    })
+    .catch((e) => {
+      if (isPublishedConflict(e)) throw new RuleSetError("Another rule set was published at the same time. Reload and try again.");
+      throw e;
+    });
+}
+
+export async function schedulePublish(shop: string, id: string, publishAt: Date) {
+  const db = shopDb(shop);
+  const { count } = await db.ruleSet.updateMany({
+    where: { id, shop, status: { in: ["DRAFT", "SCHEDULED"] } },
+    data: { status: "SCHEDULED", publishAt },
+  });
+  if (!count) throw new RuleSetError("Only drafts can be scheduled.");
+}
+
+export async function unschedulePublish(shop: string, id: string) {
+  const db = shopDb(shop);
+  await db.ruleSet.updateMany({
+    where: { id, shop, status: "SCHEDULED" },
+    data: { status: "DRAFT", publishAt: null },
+  });
+}
+
+export async function deleteRuleSet(shop: string, id: string) {
+  const db = shopDb(shop);
+  const { count } = await db.ruleSet.deleteMany({ where: { id, shop, status: { not: "PUBLISHED" } } });
+  if (!count) throw new RuleSetError("The published rule set can't be deleted.");
+}
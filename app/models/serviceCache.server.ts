@@ -0,0 +1,96 @@
+import { LruCache } from "../utils/lru";
+import { refreshEstimate } from "./deliveryCalendar.server";
+import { directoryLocalities, type Locality } from "./pincodeDirectory.server";
+import { resolveServiceability, type Serviceability, type ServiceabilityOptions } from "./serviceability.server";
+import { bitmapRule, bitmapVerdict, compileServiceIndex, toServiceBitmap, type ServiceBitmap } from "./serviceIndex.server";
+import { ruleVersion } from "./shopDb.server";
+
+// Keys include the shop's rule version, so a rule write makes older answers unreachable at once.
+// The TTL bounds what that misses: warehouse stock changes.
+const ANSWER_TTL_MS = 60_000;
+const MAX_ANSWERS = 5000;
+const BITMAP_TTL_MS = 60 * 60_000;
+const MAX_BITMAPS = 200;
+// Compiling scans the whole directory, so an import that writes rules chunk by chunk
+// recompiles at most this often; checks take the slower path in between.
+const BITMAP_COMPILE_INTERVAL_MS = 30_000;
+
+const answers = new LruCache<string, Serviceability>(MAX_ANSWERS);
+// The directory's localities are shared by every shop's entry, not copied into each.
+type CompiledShop = { bitmap: ServiceBitmap; localities: Map<string, Locality> };
+const bitmaps = new LruCache<string, CompiledShop & { version: number }>(MAX_BITMAPS);
+const compileStarted = new Map<string, number>();
+const compiling = new Set<string>();
+
+function compileBitmap(shop: string, version: number) {
+  const last = compileStarted.get(shop) ?? 0;
+  if (compiling.has(shop) || Date.now() - last < BITMAP_COMPILE_INTERVAL_MS) return;
+  compiling.add(shop);
+  compileStarted.set(shop, Date.now());
+
+  void Promise.all([compileServiceIndex(shop), directoryLocalities()])
+    .then(([index, localities]) => {
+      // A rule write during the scan may or may not be in it; the next check compiles again.
+      if (ruleVersion(shop) !== version) return;
+      bitmaps.set(shop, { version, bitmap: toServiceBitmap(index), localities }, BITMAP_TTL_MS);
+    })
+    .catch((e) => console.error(`[service-cache] compiling the bitmap for ${shop} failed:`, e))
+    .finally(() => compiling.delete(shop));
+}
+
+/**
+ * The shop's deliverability bitmap when it is up to date with the rules, otherwise null
+ * (and a compile is started in the background for later checks).
+ */
+function currentBitmap(shop: string): CompiledShop | null {
+  const version = ruleVersion(shop);
+  const cached = bitmaps.get(shop);
+  if (cached?.version === version) return cached;
+  compileBitmap(shop, version);
+  return null;
+}
+
+/**
+ * resolveServiceability for storefront checks, answered from memory where it can be:
+ * - pincodes the bitmap marks unknown to the directory;
+ * - pincodes no rule delivers to, with the rule that said so: stock and the calendar can't change that;
+ * - repeat checks for the same pincode and variant, with the cutoff countdown brought up to date.
+ * Everything else resolves against the database and is cached for the next check.
+ */
+export async function checkServiceability(
+  shop: string,
+  pincode: string,
+  options: Omit<ServiceabilityOptions, "at"> = {},
+): Promise<Serviceability> {
+  const compiled = currentBitmap(shop);
+  const verdict = compiled ? bitmapVerdict(compiled.bitmap, pincode) : "MAYBE";
+  if (verdict === "UNKNOWN_PINCODE") {
+    return { pincode, exists: false, locality: null, terms: null, source: null, origin: null, blackout: null, estimate: null };
+  }
+  if (compiled && verdict === "NOT_DELIVERABLE") {
+    const rule = bitmapRule(compiled.bitmap, pincode);
+    return {
+      pincode,
+      exists: true,
+      locality: compiled.localities.get(pincode) ?? null,
+      terms: rule?.terms ?? null,
+      source: rule?.source ?? null,
+      origin: null,
+      blackout: null,
+      estimate: null,
+    };
+  }
+
+  const version = ruleVersion(shop);
+  const key = [shop, version, pincode, options.variantId ?? ""].join("|");
+  const at = new Date();
+  const hit = answers.get(key);
+  if (hit && !hit.estimate) return hit;
+  const estimate = hit?.estimate && refreshEstimate(hit.estimate, at);
+  if (hit && estimate) return { ...hit, estimate };
+
+  const answer = await resolveServiceability(shop, pincode, { ...options, at });
+  // Same as the bitmap: an answer read across a rule write isn't kept.
+  if (ruleVersion(shop) === version) answers.set(key, answer, ANSWER_TTL_MS);
+  return answer;
+}
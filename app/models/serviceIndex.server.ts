@@ -0,0 +1,247 @@
+import type { PincodeRule } from "@prisma/client";
+import { shopDb } from "./shopDb.server";
+import { directoryLocalities, isDirectoryLoaded } from "./pincodeDirectory.server";
+import { formatRulePincode } from "./pincodeRule.server";
+import { formatRegion } from "./regionRule.server";
+import { publishedRules } from "./ruleSet.server";
+import type { RuleSource, RuleTerms } from "./serviceability.server";
+
+// Every possible Indian pincode is a 6-digit number in [100000, 999999].
+const FIRST_PINCODE = 100000;
+const SLOT_COUNT = 900000;
+
+/**
+ * A shop's rules flattened to one slot per pincode, for consumers that can't query the
+ * database (checkout functions via metafields) or shouldn't on a hot path.
+ * `slots[i]` is 0 when nothing applies, otherwise 1 + an index into `terms` and `sources`, which
+ * hold a rule's terms and how resolveServiceability would report the rule.
+ * `known[i]` is 1 for pincodes in the directory; null unless the index masks unknown pincodes.
+ */
+export type ServiceIndex = {
+  terms: RuleTerms[];
+  sources: RuleSource[];
+  slots: Uint32Array;
+  known: Uint8Array | null;
+};
+
+export type IndexedRule = { terms: RuleTerms; source: RuleSource };
+
+/**
+ * One bit per pincode for whether it is deliverable, plus one for whether the directory knows it
+ * (null before the directory is loaded): ~110 KB each, small enough to keep per shop in memory.
+ * Runs of pincodes answered by the same rule are kept too, so an undeliverable pincode's rule
+ * is known without the database: run i starts at pincode `runStarts[i]` and is answered by
+ * `rules[runSlots[i] - 1]` (by no rule when 0). Runs add a few hundred KB at most.
+ */
+export type ServiceBitmap = {
+  deliverable: Uint8Array;
+  known: Uint8Array | null;
+  runStarts: Uint32Array;
+  runSlots: Uint32Array;
+  rules: IndexedRule[];
+};
+
+function toTerms(rule: RuleTerms): RuleTerms {
+  return {
+    deliverable: rule.deliverable,
+    etaMinDays: rule.etaMinDays,
+    etaMaxDays: rule.etaMaxDays,
+    codAvailable: rule.codAvailable,
+    shippingFee: rule.shippingFee,
+    expressFee: rule.expressFee,
+    expressEtaMinDays: rule.expressEtaMinDays,
+    expressEtaMaxDays: rule.expressEtaMaxDays,
+  };
+}
+
+/**
+ * Evaluates every rule of a shop into a ServiceIndex.
+ * Rules are painted from least to most specific (shop default, state, district, prefix,
+ * range, exact), then deliverable warehouse rules on top, so each slot ends up with the answer
+ * resolveServiceability gives when stock doesn't narrow the warehouses.
+ * `maskUnknown: false` keeps terms on pincodes missing from the directory, which keeps
+ * encoded runs short where a caller (checkout) already gets validated addresses.
+ */
+export async function compileServiceIndex(shop: string, { maskUnknown = true } = {}): Promise<ServiceIndex> {
+  const db = shopDb(shop);
+  const [pincodeRules, regionRules, warehouses, directoryLoaded] = await Promise.all([
+    db.pincodeRule.findMany({ where: publishedRules(shop) }),
+    db.regionRule.findMany({ where: { shop } }),
+    db.warehouse.findMany({ where: { shop }, select: { code: true } }),
+    isDirectoryLoaded(),
+  ]);
+
+  const terms: RuleTerms[] = [];
+  const sources: RuleSource[] = [];
+  const termIds = new Map<string, number>();
+  const slotValue = (rule: RuleTerms, source: RuleSource) => {
+    const t = toTerms(rule);
+    const key = JSON.stringify([t, source]);
+    let id = termIds.get(key);
+    if (id === undefined) {
+      id = terms.push(t);
+      sources.push(source);
+      termIds.set(key, id);
+    }
+    return id;
+  };
+  const regionValue = (rule: (typeof regionRules)[number]) => {
+    const level = rule.scope === "DISTRICT" ? "district" : rule.scope === "STATE" ? "state" : "shop";
+    return slotValue(rule, { level, label: formatRegion(rule) });
+  };
+  const pincodeValue = (rule: PincodeRule) =>
+    slotValue(rule, {
+      level: "pincode",
+      matchedBy: rule.matchType === "EXACT" ? "exact" : rule.matchType === "RANGE" ? "range" : "prefix",
+      label: formatRulePincode(rule),
+    });
+
+  const slots = new Uint32Array(SLOT_COUNT);
+  const paint = (from: number, to: number, value: number) => {
+    slots.fill(value, Math.max(from, FIRST_PINCODE) - FIRST_PINCODE, Math.min(to, 999999) - FIRST_PINCODE + 1);
+  };
+
+  const shopDefault = regionRules.find((r) => r.scope === "SHOP");
+  if (shopDefault) paint(FIRST_PINCODE, 999999, regionValue(shopDefault));
+
+  // One locality per pincode, so a pincode on a state or district border gets the region rule
+  // resolveServiceability would pick for it.
+  const locations = directoryLoaded
+    ? Array.from(await directoryLocalities(), ([pincode, locality]) => ({ pincode, ...locality }))
+    : [];
+
+  for (const scope of ["STATE", "DISTRICT"] as const) {
+    for (const rule of regionRules.filter((r) => r.scope === scope)) {
+      const value = regionValue(rule);
+      const state = rule.state.toLowerCase();
+      const district = rule.district.toLowerCase();
+      for (const loc of locations) {
+        if (loc.state.toLowerCase() !== state) continue;
+        if (scope === "DISTRICT" && loc.district.toLowerCase() !== district) continue;
+        const pin = Number(loc.pincode);
+        paint(pin, pin, value);
+      }
+    }
+  }
+
+  const paintPincodeRules = (rules: PincodeRule[]) => {
+    const byType = (type: PincodeRule["matchType"]) => rules.filter((r) => r.matchType === type);
+
+    // Longer prefixes and narrower ranges are more specific, so they are painted last.
+    for (const rule of byType("PREFIX").sort((a, b) => a.pincode.length - b.pincode.length)) {
+      const width = 10 ** (6 - rule.pincode.length);
+      const from = Number(rule.pincode) * width;
+      paint(from, from + width - 1, pincodeValue(rule));
+    }
+
+    const span = (r: PincodeRule) => Number(r.pincodeEnd) - Number(r.pincode);
+    for (const rule of byType("RANGE").sort((a, b) => span(b) - span(a))) {
+      paint(Number(rule.pincode), Number(rule.pincodeEnd), pincodeValue(rule));
+    }
+
+    for (const rule of byType("EXACT")) {
+      const pin = Number(rule.pincode);
+      paint(pin, pin, pincodeValue(rule));
+    }
+  };
+
+  // A pincode any warehouse delivers to is served by one of them, whatever the other rules say.
+  const codes = new Set(warehouses.map((w) => w.code));
+  paintPincodeRules(pincodeRules.filter((r) => r.origin === ""));
+  paintPincodeRules(pincodeRules.filter((r) => codes.has(r.origin) && r.deliverable));
+
+  // Pincodes the directory doesn't know are rejected by /proxy/check, so they get no terms here either.
+  let known: Uint8Array | null = null;
+  if (directoryLoaded && maskUnknown) {
+    known = new Uint8Array(SLOT_COUNT);
+    for (const loc of locations) known[Number(loc.pincode) - FIRST_PINCODE] = 1;
+    for (let i = 0; i < SLOT_COUNT; i++) if (!known[i]) slots[i] = 0;
+  }
+
+  return { terms, sources, slots, known };
+}
+
+export function lookupTerms(index: ServiceIndex, pincode: string): RuleTerms | null {
+  const i = Number(pincode) - FIRST_PINCODE;
+  if (!/^\d{6}$/.test(pincode) || i < 0) return null;
+  const slot = index.slots[i];
+  return slot ? index.terms[slot - 1] : null;
+}
+
+function packBits(length: number, isSet: (i: number) => boolean) {
+  const bits = new Uint8Array(Math.ceil(length / 8));
+  for (let i = 0; i < length; i++) if (isSet(i)) bits[i >> 3] |= 1 << (i & 7);
+  return bits;
+}
+
+const hasBit = (bits: Uint8Array, i: number) => (bits[i >> 3] & (1 << (i & 7))) !== 0;
+
+/**
+ * The index's answer to "deliverable?" for every pincode. Stock, blackout windows and product
+ * restrictions can only turn a yes into a no, so a no here is final and a yes needs the full check.
+ */
+export function toServiceBitmap(index: ServiceIndex): ServiceBitmap {
+  const deliverable = index.terms.map((t) => t.deliverable);
+  const { slots, known } = index;
+
+  const runStarts: number[] = [];
+  const runSlots: number[] = [];
+  for (let i = 0; i < SLOT_COUNT; i++) {
+    if (i > 0 && slots[i] === slots[i - 1]) continue;
+    runStarts.push(i + FIRST_PINCODE);
+    runSlots.push(slots[i]);
+  }
+
+  return {
+    deliverable: packBits(SLOT_COUNT, (i) => slots[i] !== 0 && deliverable[slots[i] - 1]),
+    known: known && packBits(SLOT_COUNT, (i) => known[i] === 1),
+    runStarts: Uint32Array.from(runStarts),
+    runSlots: Uint32Array.from(runSlots),
+    rules: index.terms.map((terms, i) => ({ terms, source: index.sources[i] })),
+  };
+}
+
+export function bitmapVerdict(bitmap: ServiceBitmap, pincode: string): "UNKNOWN_PINCODE" | "NOT_DELIVERABLE" | "MAYBE" {
+  const i = Number(pincode) - FIRST_PINCODE;
+  // Outside the slots only the database can say, unless the directory rules the pincode out.
+  if (!/^\d{6}$/.test(pincode) || i < 0) return bitmap.known ? "UNKNOWN_PINCODE" : "MAYBE";
+  if (bitmap.known && !hasBit(bitmap.known, i)) return "UNKNOWN_PINCODE";
+  return hasBit(bitmap.deliverable, i) ? "MAYBE" : "NOT_DELIVERABLE";
+}
+
+// The rule that answers a pincode the bitmap covers, or null when none applies.
+export function bitmapRule(bitmap: ServiceBitmap, pincode: string): IndexedRule | null {
+  const pin = Number(pincode);
+  let lo = 0;
+  let hi = bitmap.runStarts.length - 1;
+  while (lo < hi) {
+    const mid = (lo + hi + 1) >> 1;
+    if (bitmap.runStarts[mid] <= pin) lo = mid;
+    else hi = mid - 1;
+  }
+  const slot = bitmap.runSlots[lo];
+  return slot ? bitmap.rules[slot - 1] : null;
+}
+
+/**
+ * Encodes the pincodes whose terms satisfy `predicate` as sorted runs: "110001-110005,560034".
+ * Runs keep national-scale rule sets small enough for a metafield.
+ */
+export function encodeRuns(index: ServiceIndex, predicate: (terms: RuleTerms) => boolean) {
+  const matches = index.terms.map(predicate);
+  const runs: string[] = [];
+  let start = -1;
+
+  for (let i = 0; i <= SLOT_COUNT; i++) {
+    const slot = i < SLOT_COUNT ? index.slots[i] : 0;
+    const hit = slot !== 0 && matches[slot - 1];
+    if (hit && start < 0) start = i;
+    if (!hit && start >= 0) {
+      const from = start + FIRST_PINCODE;
+      const to = i - 1 + FIRST_PINCODE;
+      runs.push(from === to ? String(from) : `${from}-${to}`);
+      start = -1;
+    }
+  }
+  return runs.join(",");
+}
@@ -0,0 +1,159 @@
+import type { BlackoutWindow, PincodeRule, Warehouse } from "@prisma/client";
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import {
+  estimateDelivery,
+  loadDeliveryCalendar,
+  matchBlackout,
+  toCalendarDays,
+  type DeliveryCalendar,
+  type DeliveryEstimate,
+} from "./deliveryCalendar.server";
+import { findLocality, isDirectoryLoaded, type Locality } from "./pincodeDirectory.server";
+import { formatRulePincode, resolvePincodeRules, type MatchedRule } from "./pincodeRule.server";
+import { formatRegion, resolveRegionRule } from "./regionRule.server";
+import { getShopSettings } from "./shopSettings.server";
+import { listWarehouses, loadAvailability, pickOrigin, type OriginCandidate } from "./warehouse.server";
+
+export type RuleTerms = Pick<
+  PincodeRule,
+  | "deliverable"
+  | "etaMinDays"
+  | "etaMaxDays"
+  | "codAvailable"
+  | "shippingFee"
+  | "expressFee"
+  | "expressEtaMinDays"
+  | "expressEtaMaxDays"
+>;
+
+// Which level produced the answer, so support staff can explain it to customers.
+export type RuleSource = {
+  level: "pincode" | "district" | "state" | "shop";
+  matchedBy?: MatchedRule["matchedBy"];
+  label: string;
+};
+
+export type Serviceability = {
+  pincode: string;
+  exists: boolean;
+  locality: Locality | null;
+  terms: RuleTerms | null;
+  source: RuleSource | null;
+  // The warehouse that ships, when the answer came from a warehouse's own rule.
+  origin: Pick<Warehouse, "code" | "name" | "locationId"> | null;
+  // The blackout window that stopped or delayed delivery, if one is in force.
+  blackout: Pick<BlackoutWindow, "name" | "effect" | "delayDays" | "message"> | null;
+  // Standard delivery dates and the order cutoff, when deliverable.
+  estimate: DeliveryEstimate | null;
+};
+
+export type ServiceabilityOptions = {
+  // When the order would be placed; defaults to now.
+  at?: Date;
+  // With both, warehouses without the variant in stock are passed over.
+  admin?: AdminApiContext;
+  variantId?: string | null;
+};
+
+type ResolvedRules = { terms: RuleTerms; source: RuleSource; origin: Serviceability["origin"] };
+
+function pickTerms(rule: RuleTerms): RuleTerms {
+  return {
+    deliverable: rule.deliverable,
+    etaMinDays: rule.etaMinDays,
+    etaMaxDays: rule.etaMaxDays,
+    codAvailable: rule.codAvailable,
+    shippingFee: rule.shippingFee,
+    expressFee: rule.expressFee,
+    expressEtaMinDays: rule.expressEtaMinDays,
+    expressEtaMaxDays: rule.expressEtaMaxDays,
+  };
+}
+
+// Rule ETAs count working days in transit; shoppers are quoted calendar days from today.
+function applyCalendar(calendar: DeliveryCalendar, terms: RuleTerms, blackout: BlackoutWindow | null): RuleTerms {
+  if (blackout?.effect === "UNDELIVERABLE") return { ...terms, deliverable: false };
+  const delay = blackout?.delayDays ?? 0;
+  const eta = (days: number | null) => toCalendarDays(calendar, days === null ? null : days + delay);
+  return {
+    ...terms,
+    etaMinDays: eta(terms.etaMinDays),
+    etaMaxDays: eta(terms.etaMaxDays),
+    expressEtaMinDays: eta(terms.expressEtaMinDays),
+    expressEtaMaxDays: eta(terms.expressEtaMaxDays),
+  };
+}
+
+function pincodeSource(match: MatchedRule): RuleSource {
+  return { level: "pincode", matchedBy: match.matchedBy, label: formatRulePincode(match.rule) };
+}
+
+/**
+ * Warehouse rules come first: when any warehouse delivers to the pincode under its own rule, the
+ * shop's strategy picks one of them. Otherwise (or when none has stock) the rules for any
+ * warehouse answer: pincode, then district, state and shop default.
+ */
+async function resolveRules(
+  shop: string,
+  pincode: string,
+  locality: Locality | null,
+  options: ServiceabilityOptions,
+): Promise<ResolvedRules | null> {
+  const matches = await resolvePincodeRules(shop, pincode);
+
+  const originMatches = Array.from(matches).filter(([code, match]) => code !== "" && match.rule.deliverable);
+  if (originMatches.length) {
+    const [warehouses, settings, availability] = await Promise.all([
+      listWarehouses(shop),
+      getShopSettings(shop),
+      loadAvailability(options.admin, options.variantId),
+    ]);
+    // Rules for a deleted warehouse are ignored.
+    const candidates = originMatches.flatMap(([code, match]): OriginCandidate[] => {
+      const warehouse = warehouses.find((w) => w.code === code);
+      return warehouse ? [{ warehouse, match }] : [];
+    });
+    const picked = pickOrigin(candidates, settings.originStrategy, availability);
+    if (picked) {
+      const { code, name, locationId } = picked.warehouse;
+      return { terms: pickTerms(picked.match.rule), source: pincodeSource(picked.match), origin: { code, name, locationId } };
+    }
+  }
+
+  const match = matches.get("");
+  if (match) return { terms: pickTerms(match.rule), source: pincodeSource(match), origin: null };
+
+  const region = await resolveRegionRule(shop, locality);
+  if (region) {
+    const level = region.scope === "DISTRICT" ? "district" : region.scope === "STATE" ? "state" : "shop";
+    return { terms: pickTerms(region), source: { level, label: formatRegion(region) }, origin: null };
+  }
+
+  return null;
+}
+
+/**
+ * Resolves a 6-digit pincode for a shop from warehouse rules, then pincode, district, state and
+ * shop default rules, then applies the blackout windows, dispatch cutoff and working days for an order placed at `at`.
+ * `terms` is null when nothing matches, which callers treat as not deliverable.
+ */
+export async function resolveServiceability(
+  shop: string,
+  pincode: string,
+  options: ServiceabilityOptions = {},
+): Promise<Serviceability> {
+  const at = options.at ?? new Date();
+  const locality = await findLocality(pincode);
+  const exists = locality !== null || !(await isDirectoryLoaded());
+  if (!exists) return { pincode, exists, locality, terms: null, source: null, origin: null, blackout: null, estimate: null };
+
+  const matched = await resolveRules(shop, pincode, locality, options);
+  if (!matched) return { pincode, exists, locality, terms: null, source: null, origin: null, blackout: null, estimate: null };
+  if (!matched.terms.deliverable) return { pincode, exists, locality, ...matched, blackout: null, estimate: null };
+
+  const calendar = await loadDeliveryCalendar(shop, at);
+  const blackout = matchBlackout(calendar, pincode, locality);
+  const terms = applyCalendar(calendar, matched.terms, blackout);
+  const estimate = terms.deliverable ? estimateDelivery(calendar, terms.etaMinDays, terms.etaMaxDays, at) : null;
+  return { pincode, exists, locality, source: matched.source, origin: matched.origin, terms, blackout, estimate };
+}
@@ -0,0 +1,230 @@
+import type { DataPurgeReason } from "@prisma/client";
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import db from "../db.server";
+import { setRuleFeeCharging } from "./carrierRates.server";
+import { setCodEnforcement, trySyncCheckoutRules } from "./checkoutSync.server";
+import { pruneOldLookups } from "./lookupAnalytics.server";
+import { bumpRuleVersion, shopDb } from "./shopDb.server";
+import { getShopSettings } from "./shopSettings.server";
+import { normalizeContact } from "./waitlist.server";
+
+const DAY_MS = 24 * 60 * 60 * 1000;
+const RETENTION_INTERVAL_MS = 60 * 60 * 1000;
+
+// How long an uninstalled shop's rules are kept for a reinstall. Shopify's shop/redact webhook,
+// sent 48 hours after uninstall, purges them sooner whatever this is set to.
+export const UNINSTALL_GRACE_DAYS = Number(process.env.UNINSTALL_GRACE_DAYS) || 30;
+
+/**
+ * Deletes everything stored for a shop and records the row counts in DataPurge, which is kept.
+ * A redelivered webhook (same `webhookId`) is recorded once; the purge itself is idempotent.
+ */
+export async function purgeShopData(shop: string, reason: DataPurgeReason, webhookId?: string) {
+  if (webhookId && (await db.dataPurge.findUnique({ where: { webhookId } }))) return;
+
+  const where = { shop };
+  // Rules and import errors go with their rule sets and jobs, but are deleted first so they're counted.
+  const [
+    pincodeRules,
+    ruleSets,
+    regionRules,
+    productRestrictions,
+    warehouses,
+    blackoutWindows,
+    holidays,
+    importJobs,
+    ruleAuditEntries,
+    pincodeLookups,
+    waitlistSignups,
+    customerDataRequests,
+    shopSettings,
+    sessions,
+  ] = await db.$transaction([
+    db.pincodeRule.deleteMany({ where }),
+    db.ruleSet.deleteMany({ where }),
+    db.regionRule.deleteMany({ where }),
+    db.productRestriction.deleteMany({ where }),
+    db.warehouse.deleteMany({ where }),
+    db.blackoutWindow.deleteMany({ where }),
+    db.holiday.deleteMany({ where }),
+    db.importJob.deleteMany({ where }),
+    db.ruleAuditEntry.deleteMany({ where }),
+    db.pincodeLookup.deleteMany({ where }),
+    db.waitlistSignup.deleteMany({ where }),
+    db.customerDataRequest.deleteMany({ where }),
+    db.shopSettings.deleteMany({ where }),
+    db.session.deleteMany({ where }),
+  ]);
+  // Written with the bare client, so the storefront caches are told here.
+  bumpRuleVersion(shop);
+
+  const deleted = {
+    pincodeRules: pincodeRules.count,
+    ruleSets: ruleSets.count,
+    regionRules: regionRules.count,
+    productRestrictions: productRestrictions.count,
+    warehouses: warehouses.count,
+    blackoutWindows: blackoutWindows.count,
+    holidays: holidays.count,
+    importJobs: importJobs.count,
+    ruleAuditEntries: ruleAuditEntries.count,
+    pincodeLookups: pincodeLookups.count,
+    waitlistSignups: waitlistSignups.count,
+    customerDataRequests: customerDataRequests.count,
+    shopSettings: shopSettings.count,
+    sessions: sessions.count,
+  };
+  await db.dataPurge.create({ data: { shop, reason, webhookId, deleted } });
+  console.log(`[shop-data] purged ${shop} (${reason})`, deleted);
+}
+
+export type CustomerContacts = { email?: string | null; phone?: string | null };
+
+// The email and phone in a GDPR webhook payload, as a waitlist signup would store them.
+function customerContacts(customer: CustomerContacts) {
+  const contacts: string[] = [];
+  for (const raw of [customer.email, customer.phone]) {
+    if (!raw) continue;
+    try {
+      contacts.push(normalizeContact(raw).contact);
+    } catch {
+      // Not something a signup could have been stored under.
+    }
+  }
+  return contacts;
+}
+
+/**
+ * customers/redact: waitlist signups are the only customer data the app keeps (rules, settings
+ * and sessions are merchant data; lookups carry only a hashed per-tab id, which can't be tied to
+ * a customer). The customer's signups and earlier data requests are deleted and the request
+ * recorded with the counts.
+ */
+export async function recordCustomerRedact(shop: string, webhookId: string, customer: CustomerContacts) {
+  if (await db.dataPurge.findUnique({ where: { webhookId } })) return;
+  const contacts = customerContacts(customer);
+  const [signups, dataRequests] = await db.$transaction([
+    db.waitlistSignup.deleteMany({ where: { shop, contact: { in: contacts } } }),
+    db.customerDataRequest.deleteMany({ where: { shop, contacts: { hasSome: contacts } } }),
+  ]);
+  await db.dataPurge.create({
+    data: {
+      shop,
+      reason: "CUSTOMER_REDACT",
+      webhookId,
+      deleted: { waitlistSignups: signups.count, customerDataRequests: dataRequests.count },
+    },
+  });
+}
+
+/**
+ * customers/data_request: records the customer's waitlist signups as they are now, for the
+ * merchant to download from the waitlist page and send on. Redelivered webhooks are recorded once.
+ */
+export async function recordCustomerDataRequest(
+  shop: string,
+  webhookId: string,
+  request: { requestId: string | null; customerId: string | null; customer: CustomerContacts },
+) {
+  if (await db.customerDataRequest.findUnique({ where: { webhookId } })) return null;
+  const contacts = customerContacts(request.customer);
+  const waitlistSignups = await db.waitlistSignup.findMany({
+    where: { shop, contact: { in: contacts } },
+    select: {
+      pincode: true,
+      productTitle: true,
+      productPath: true,
+      channel: true,
+      contact: true,
+      status: true,
+      createdAt: true,
+      notifiedAt: true,
+    },
+    orderBy: { createdAt: "asc" },
+  });
+  return db.customerDataRequest.create({
+    data: {
+      shop,
+      webhookId,
+      requestId: request.requestId,
+      customerId: request.customerId,
+      contacts,
+      data: { waitlistSignups },
+    },
+  });
+}
+
+export async function listCustomerDataRequests(shop: string, take = 20) {
+  return shopDb(shop).customerDataRequest.findMany({
+    where: { shop },
+    orderBy: { createdAt: "desc" },
+    take,
+  });
+}
+
+export async function getCustomerDataRequest(shop: string, id: string) {
+  return shopDb(shop).customerDataRequest.findFirst({ where: { id, shop } });
+}
+
+// Starts the grace period; rules stay in place until it ends or shop/redact arrives.
+export async function markShopUninstalled(shop: string) {
+  await getShopSettings(shop);
+  await db.shopSettings.updateMany({ where: { shop, uninstalledAt: null }, data: { uninstalledAt: new Date() } });
+}
+
+/**
+ * Called after OAuth: a shop reinstalling within the grace period gets its rules back. Shopify
+ * removed the app's metafields, customizations and carrier service on uninstall, so the checkout
+ * switches are re-applied (they recreate what's missing) and the checkout rules re-synced.
+ */
+export async function restoreShopData(admin: AdminApiContext, shop: string) {
+  const { count } = await db.shopSettings.updateMany({
+    where: { shop, uninstalledAt: { not: null } },
+    data: { uninstalledAt: null },
+  });
+  if (!count) return;
+
+  const settings = await getShopSettings(shop);
+  try {
+    if (settings.enforceCod) await setCodEnforcement(admin, shop, true);
+    if (settings.chargeRuleFees) await setRuleFeeCharging(admin, shop, true);
+  } catch (e) {
+    // The merchant can switch them on again from the settings page.
+    console.error(`[shop-data] restoring checkout settings for ${shop} failed:`, e);
+  }
+  await trySyncCheckoutRules(admin, shop);
+  console.log(`[shop-data] restored ${shop} after reinstall`);
+}
+
+async function purgeExpiredShops() {
+  const expired = await db.shopSettings.findMany({
+    where: { uninstalledAt: { lte: new Date(Date.now() - UNINSTALL_GRACE_DAYS * DAY_MS) } },
+    select: { shop: true },
+  });
+  for (const { shop } of expired) {
+    try {
+      await purgeShopData(shop, "UNINSTALL_EXPIRED");
+    } catch (e) {
+      console.error(`[shop-data] purge of ${shop} failed:`, e);
+    }
+  }
+}
+
+async function retentionSweep() {
+  await purgeExpiredShops();
+  await pruneOldLookups();
+}
+
+let retention: ReturnType<typeof setInterval> | undefined;
+
+/**
+ * Purges shops whose grace period has ended and prunes old lookups, hourly; safe to call more than once.
+ * Like the rule publisher, this assumes a single app instance.
+ */
+export function startDataRetention() {
+  if (retention) return;
+  retention = setInterval(() => {
+    retentionSweep().catch((e) => console.error("[shop-data] retention check failed:", e));
+  }, RETENTION_INTERVAL_MS);
+  void retentionSweep().catch((e) => console.error("[shop-data] retention check failed:", e));
+}
@@ -0,0 +1,141 @@
+import db from "../db.server";
+
+// Models holding one shop's rows, told apart by their `shop` column. Everything else
+// (PincodeLocation, ImportJobError, DataPurge) is shared or reached through its owner.
+const SHOP_MODELS = new Set<string>([
+  "Session",
+  "PincodeRule",
+  "RuleSet",
+  "RegionRule",
+  "ProductRestriction",
+  "ShopSettings",
+  "Warehouse",
+  "BlackoutWindow",
+  "Holiday",
+  "ImportJob",
+  "RuleAuditEntry",
+  "PincodeLookup",
+  "WaitlistSignup",
+  "CustomerDataRequest",
+]);
+
+// Models whose rows decide a storefront pincode check. A write to any of them bumps the shop's
+// rule version, which the storefront caches (serviceCache.server) key on.
+const RULE_MODELS = new Set<string>([
+  "PincodeRule",
+  "RuleSet",
+  "RegionRule",
+  "ProductRestriction",
+  "ShopSettings",
+  "Warehouse",
+  "BlackoutWindow",
+  "Holiday",
+]);
+
+const READ_OPERATIONS = new Set<string>([
+  "findUnique",
+  "findUniqueOrThrow",
+  "findFirst",
+  "findFirstOrThrow",
+  "findMany",
+  "count",
+  "aggregate",
+  "groupBy",
+]);
+
+const ruleVersions = new Map<string, number>();
+
+export const ruleVersion = (shop: string) => ruleVersions.get(shop) ?? 0;
+
+// For writes that don't go through shopDb, like purging a shop with the bare client.
+export function bumpRuleVersion(shop: string) {
+  ruleVersions.set(shop, ruleVersion(shop) + 1);
+}
+
+export class ShopScopeError extends Error {}
+
+type ScopedArgs = { where?: object; data?: unknown; create?: object; update?: unknown };
+
+function assertSameShop(shop: string, data: unknown) {
+  const rows = Array.isArray(data) ? data : [data];
+  for (const row of rows) {
+    const target = (row as { shop?: unknown } | null)?.shop;
+    if (target !== undefined && target !== shop) throw new ShopScopeError(`Can't write ${shop} data to another shop.`);
+  }
+}
+
+function scopeArgs(shop: string, operation: string, input: unknown): ScopedArgs {
+  const args = { ...(input as ScopedArgs) };
+  const stamp = (row: unknown) => ({ ...(row as object), shop });
+
+  switch (operation) {
+    case "create":
+      assertSameShop(shop, args.data);
+      args.data = stamp(args.data);
+      break;
+    case "createMany":
+    case "createManyAndReturn":
+      assertSameShop(shop, args.data);
+      args.data = Array.isArray(args.data) ? args.data.map(stamp) : stamp(args.data);
+      break;
+    case "upsert":
+      assertSameShop(shop, [args.create, args.update]);
+      args.where = { ...args.where, shop };
+      args.create = stamp(args.create);
+      break;
+    case "update":
+    case "updateMany":
+    case "updateManyAndReturn":
+      assertSameShop(shop, args.data);
+      args.where = { ...args.where, shop };
+      break;
+    default:
+      // Reads, counts, aggregates and deletes; unique lookups accept the extra filter too.
+      args.where = { ...args.where, shop };
+  }
+  return args;
+}
+
+/**
+ * A client that can only see and change one shop's rows: reads, updates and deletes on
+ * shop-owned models are filtered by `shop` and creates are stamped with it, so an id from
+ * another shop matches nothing. Nested writes and raw SQL aren't rewritten; don't use them here.
+ * Routes get their data through this; only background scans across shops use the bare client.
+ * Writes to rule models also bump the shop's rule version (see ruleVersion).
+ */
+export function shopDb(shop: string) {
+  const client = db.$extends({
+    name: "shopScope",
+    query: {
+      $allModels: {
+        async $allOperations({ model, operation, args, query }) {
+          if (!SHOP_MODELS.has(model)) return query(args);
+          const result = await query(scopeArgs(shop, operation, args) as typeof args);
+          // After the write, so a check can't cache the old rows under the new version. Inside a
+          // transaction that is still before the commit, so $transaction bumps again below.
+          if (RULE_MODELS.has(model) && !READ_OPERATIONS.has(operation)) bumpRuleVersion(shop);
+          return result;
+        },
+      },
+    },
+  });
+
+  // A check between a transaction's rule write and its commit still reads the old rows, and would
+  // cache them under the bumped version. Bumping once more when the transaction settles retires that.
+  const transaction = (...args: unknown[]) => {
+    const before = ruleVersion(shop);
+    const settled = Reflect.apply(client.$transaction, client, args) as Promise<unknown>;
+    return settled.finally(() => {
+      if (ruleVersion(shop) !== before) bumpRuleVersion(shop);
+    });
+  };
+
+  return new Proxy(client, {
+    get: (target, prop, receiver) => (prop === "$transaction" ? transaction : Reflect.get(target, prop, receiver)),
+  });
+}
+
+export type ShopDb = ReturnType<typeof shopDb>;
+
+// A ShopDb or the `tx` of an interactive transaction on one, for helpers that take either.
+export type ShopClient = Parameters<Parameters<ShopDb["$transaction"]>[0]>[0];
@@ -0,0 +1,17 @@
+import type { ShopSettings } from "@prisma/client";
+import { shopDb } from "./shopDb.server";
+
+export type ShopSettingsInput = Partial<Omit<ShopSettings, "shop" | "createdAt" | "updatedAt">>;
+
+// Read first: storefront checks call this, and an upsert would count as a settings write.
+export async function getShopSettings(shop: string) {
+  const db = shopDb(shop);
+  return (
+    (await db.shopSettings.findUnique({ where: { shop } })) ??
+    db.shopSettings.upsert({ where: { shop }, update: {}, create: { shop } })
+  );
+}
+
+export async function updateShopSettings(shop: string, data: ShopSettingsInput) {
+  return shopDb(shop).shopSettings.upsert({ where: { shop }, update: data, create: { shop, ...data } });
+}
@@ -0,0 +1,302 @@
+import type { PincodeRule, Prisma, WaitlistChannel, WaitlistSignup, WaitlistStatus } from "@prisma/client";
+import db from "../db.server";
+import { unauthenticated } from "../shopify.server";
+import { toCsvRow } from "../utils/csv";
+import { createRestrictionChecker } from "./productRestriction.server";
+import type { RuleWrite } from "./ruleAudit.server";
+import { resolveServiceability } from "./serviceability.server";
+import { shopDb } from "./shopDb.server";
+import { waitlistSender, type WaitlistMessage } from "./waitlistSender.server";
+
+const PAGE_SIZE = 1000;
+const SEND_BATCH_SIZE = 100;
+const MAX_SEND_ATTEMPTS = 5;
+const RETRY_INTERVAL_MS = 5 * 60_000;
+
+// A signup the widget can't store, with a message to show the shopper.
+export class WaitlistError extends Error {}
+
+export type SignupInput = {
+  pincode: string;
+  contact: string;
+  productId?: string | null;
+  productTitle?: string | null;
+  productPath?: string | null;
+};
+
+export type SignupFilters = { status?: WaitlistStatus; pincode?: string };
+
+export const WAITLIST_EXPORT_COLUMNS = [
+  "pincode",
+  "channel",
+  "contact",
+  "productId",
+  "productTitle",
+  "status",
+  "createdAt",
+  "notifiedAt",
+] as const;
+
+/**
+ * Reads an email address or an Indian mobile number (10 digits, optionally with +91, 91 or 0
+ * in front). Emails are lower-cased and phones stored as +91XXXXXXXXXX, so one shopper signing
+ * up twice for the same pincode and product keeps a single signup.
+ */
+export function normalizeContact(raw: string): { channel: WaitlistChannel; contact: string } {
+  const value = raw.trim();
+  if (value.includes("@")) {
+    if (value.length > 254 || !/^[^\s@]+@[^\s@]+\.[^\s@]+$/.test(value)) {
+      throw new WaitlistError("Enter a valid email address.");
+    }
+    return { channel: "EMAIL", contact: value.toLowerCase() };
+  }
+
+  const digits = value.replace(/[\s().-]/g, "").replace(/^(\+91|0091|91(?=\d{10}$)|0(?=\d{10}$))/, "");
+  if (!/^[6-9]\d{9}$/.test(digits)) throw new WaitlistError("Enter an email address or a 10-digit mobile number.");
+  return { channel: "PHONE", contact: `+91${digits}` };
+}
+
+/**
+ * Stores a signup, or puts an existing one for the same pincode, product and contact back
+ * on the waitlist (the widget only offers signing up where delivery isn't available).
+ */
+export async function addSignup(shop: string, input: SignupInput) {
+  if (!/^\d{6}$/.test(input.pincode)) throw new WaitlistError("Enter a 6-digit pincode.");
+  const { channel, contact } = normalizeContact(input.contact);
+  const productId = input.productId && /^\d+$/.test(input.productId) ? input.productId : "";
+  const productTitle = input.productTitle?.trim().slice(0, 255) || null;
+  // Only a path on the shop's own storefront; it ends up as a link in the message.
+  const productPath = input.productPath && /^\/[\w\-/.%]*$/.test(input.productPath) ? input.productPath.slice(0, 512) : null;
+
+  const key = { shop_pincode_productId_contact: { shop, pincode: input.pincode, productId, contact } };
+  return shopDb(shop).waitlistSignup.upsert({
+    where: key,
+    create: { shop, pincode: input.pincode, productId, productTitle, productPath, channel, contact },
+    update: {
+      productTitle,
+      productPath,
+      status: "WAITING",
+      attempts: 0,
+      lastError: null,
+      queuedAt: null,
+      notifiedAt: null,
+    },
+  });
+}
+
+const STATUSES: WaitlistStatus[] = ["WAITING", "QUEUED", "NOTIFIED", "FAILED"];
+
+// Reads the admin list's ?status=&pincode= filters, shared by the page and its CSV export.
+export function parseSignupFilters(params: URLSearchParams): SignupFilters {
+  const status = STATUSES.find((s) => s === params.get("status"));
+  const pincode = (params.get("pincode") || "").replace(/\D/g, "").slice(0, 6);
+  return { status, pincode: pincode || undefined };
+}
+
+function signupWhere(shop: string, filters: SignupFilters): Prisma.WaitlistSignupWhereInput {
+  return {
+    shop,
+    ...(filters.status ? { status: filters.status } : {}),
+    ...(filters.pincode ? { pincode: { startsWith: filters.pincode } } : {}),
+  };
+}
+
+export async function listSignups(shop: string, filters: SignupFilters, options: { after?: string; take?: number } = {}) {
+  const take = options.take ?? 50;
+  const where = signupWhere(shop, filters);
+  const db = shopDb(shop);
+  const [signups, counts] = await Promise.all([
+    db.waitlistSignup.findMany({
+      where,
+      orderBy: [{ createdAt: "desc" }, { id: "desc" }],
+      take: take + 1,
+      ...(options.after ? { cursor: { id: options.after }, skip: 1 } : {}),
+    }),
+    db.waitlistSignup.groupBy({ by: ["status"], where: { shop }, _count: { _all: true } }),
+  ]);
+  return {
+    signups: signups.slice(0, take),
+    hasMore: signups.length > take,
+    counts: Object.fromEntries(counts.map((c) => [c.status, c._count._all])) as Partial<Record<WaitlistStatus, number>>,
+  };
+}
+
+export async function deleteSignup(shop: string, id: string) {
+  await shopDb(shop).waitlistSignup.deleteMany({ where: { id, shop } });
+}
+
+// The signups matching `filters` as CSV, oldest first, read a page at a time.
+export async function exportSignupsCsv(shop: string, filters: SignupFilters) {
+  const db = shopDb(shop);
+  const lines = [toCsvRow([...WAITLIST_EXPORT_COLUMNS])];
+  let cursor: string | undefined;
+  for (;;) {
+    const page = await db.waitlistSignup.findMany({
+      where: signupWhere(shop, filters),
+      orderBy: { id: "asc" },
+      take: PAGE_SIZE,
+      ...(cursor ? { cursor: { id: cursor }, skip: 1 } : {}),
+    });
+    for (const s of page) {
+      lines.push(
+        toCsvRow([
+          s.pincode,
+          s.channel.toLowerCase(),
+          s.contact,
+          s.productId,
+          s.productTitle,
+          s.status.toLowerCase(),
+          s.createdAt.toISOString(),
+          s.notifiedAt?.toISOString(),
+        ]),
+      );
+    }
+    if (page.length < PAGE_SIZE) return lines.join("\r\n") + "\r\n";
+    cursor = page[page.length - 1].id;
+  }
+}
+
+// The pincodes a rule covers, as a filter on WaitlistSignup.pincode.
+function coveredPincodes(rule: PincodeRule): Prisma.StringFilter | string {
+  if (rule.matchType === "RANGE") return { gte: rule.pincode, lte: rule.pincodeEnd ?? rule.pincode };
+  if (rule.matchType === "PREFIX") return { startsWith: rule.pincode };
+  return rule.pincode;
+}
+
+async function queueDeliverable(shop: string, where: Prisma.WaitlistSignupWhereInput) {
+  const db = shopDb(shop);
+  const waiting = await db.waitlistSignup.findMany({
+    where: { ...where, shop, status: "WAITING" },
+    select: { id: true, pincode: true, productId: true },
+  });
+  if (!waiting.length) return 0;
+
+  // Without the Admin API (no offline session) product restrictions can't be checked and are skipped.
+  const admin = await unauthenticated.admin(shop).then(
+    (context) => context.admin,
+    () => undefined,
+  );
+  const checkProduct = createRestrictionChecker(shop, admin);
+  const deliverable = new Map<string, boolean>();
+  const ready: string[] = [];
+
+  for (const signup of waiting) {
+    if (!deliverable.has(signup.pincode)) {
+      const { terms } = await resolveServiceability(shop, signup.pincode);
+      deliverable.set(signup.pincode, terms?.deliverable ?? false);
+    }
+    if (!deliverable.get(signup.pincode)) continue;
+    if (signup.productId && (await checkProduct(signup.pincode, { productId: signup.productId }))) continue;
+    ready.push(signup.id);
+  }
+
+  if (ready.length) {
+    await db.waitlistSignup.updateMany({
+      where: { id: { in: ready }, status: "WAITING" },
+      data: { status: "QUEUED", queuedAt: new Date() },
+    });
+    kickWaitlistNotifier();
+  }
+  return ready.length;
+}
+
+/**
+ * Queues waitlist signups whose pincode rule changes made deliverable, and returns how many.
+ * With `writes`, only pincodes covered by a rule that became deliverable are re-checked; without,
+ * every waiting signup is (after a publish or an import). Each one is confirmed against the
+ * published rules first, so edits to a draft queue nothing. Errors are logged, never thrown,
+ * so a rule change doesn't fail over the waitlist.
+ */
+export async function tryQueueWaitlist(shop: string, writes?: RuleWrite[]) {
+  try {
+    if (!writes) return await queueDeliverable(shop, {});
+    const opened = writes.flatMap(({ before, after }) => (after?.deliverable && !before?.deliverable ? [after] : []));
+    if (!opened.length) return 0;
+    return await queueDeliverable(shop, { OR: opened.map((rule) => ({ pincode: coveredPincodes(rule) })) });
+  } catch (e) {
+    console.error(`[waitlist] queueing for ${shop} failed:`, e);
+    return 0;
+  }
+}
+
+function messageFor(signup: WaitlistSignup): WaitlistMessage {
+  const link = `https://${signup.shop}${signup.productPath ?? ""}`;
+  const what = signup.productTitle ? `${signup.productTitle} is` : "Orders are";
+  return {
+    shop: signup.shop,
+    channel: signup.channel,
+    to: signup.contact,
+    subject: `We now deliver to ${signup.pincode}`,
+    text: `Good news! ${what} now delivered to pincode ${signup.pincode}. Order at ${link}`,
+  };
+}
+
+async function sendQueued() {
+  const sender = waitlistSender();
+  const started = new Date();
+  for (;;) {
+    // Sends that failed this round were touched after `started`, so they wait for the next one.
+    const batch = await db.waitlistSignup.findMany({
+      where: { status: "QUEUED", updatedAt: { lt: started } },
+      orderBy: { queuedAt: "asc" },
+      take: SEND_BATCH_SIZE,
+    });
+    if (!batch.length) return;
+
+    for (const signup of batch) {
+      try {
+        await sender.send(messageFor(signup));
+        await db.waitlistSignup.update({
+          where: { id: signup.id },
+          data: { status: "NOTIFIED", notifiedAt: new Date(), lastError: null },
+        });
+      } catch (e) {
+        const attempts = signup.attempts + 1;
+        await db.waitlistSignup.update({
+          where: { id: signup.id },
+          data: {
+            attempts,
+            lastError: (e instanceof Error ? e.message : String(e)).slice(0, 500),
+            status: attempts >= MAX_SEND_ATTEMPTS ? "FAILED" : "QUEUED",
+          },
+        });
+      }
+    }
+  }
+}
+
+let sending = false;
+let sendAgain = false;
+
+/**
+ * Sends queued notifications unless a run is already going; safe to call any time.
+ * Like the import worker, this assumes a single app instance.
+ */
+export function kickWaitlistNotifier() {
+  if (sending) {
+    sendAgain = true;
+    return;
+  }
+  sending = true;
+  void (async () => {
+    try {
+      do {
+        sendAgain = false;
+        await sendQueued();
+      } while (sendAgain);
+    } catch (e) {
+      console.error("[waitlist] notifier stopped:", e);
+    } finally {
+      sending = false;
+    }
+  })();
+}
+
+let retrier: ReturnType<typeof setInterval> | undefined;
+
+// Sends anything left queued by a restart now, and retries failed sends every few minutes.
+export function startWaitlistNotifier() {
+  if (retrier) return;
+  retrier = setInterval(kickWaitlistNotifier, RETRY_INTERVAL_MS);
+  kickWaitlistNotifier();
+}
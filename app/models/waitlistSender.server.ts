@@ -0,0 +1,41 @@
+import type { WaitlistChannel } from "@prisma/client";
+
+export type WaitlistMessage = {
+  shop: string;
+  channel: WaitlistChannel;
+  to: string;
+  subject: string;
+  text: string;
+};
+
+// Delivers one waitlist message; throw to have the notifier retry it later.
+export type WaitlistSender = {
+  name: string;
+  send(message: WaitlistMessage): Promise<void>;
+};
+
+// Writes messages to the server log instead of sending them; the default, and handy in development.
+export const logSender: WaitlistSender = {
+  name: "log",
+  async send(message) {
+    console.log(`[waitlist] ${message.channel} to ${message.to} for ${message.shop}: ${message.subject}\n${message.text}`);
+  },
+};
+
+const senders = new Map<string, WaitlistSender>([[logSender.name, logSender]]);
+
+/**
+ * Makes a sender selectable with WAITLIST_SENDER=<name>, e.g. one wrapping an email or SMS
+ * provider's API. Register it at startup, before the notifier sends anything.
+ */
+export function registerWaitlistSender(sender: WaitlistSender) {
+  senders.set(sender.name, sender);
+}
+
+export function waitlistSender() {
+  const name = process.env.WAITLIST_SENDER || logSender.name;
+  const sender = senders.get(name);
+  if (sender) return sender;
+  console.warn(`[waitlist] unknown WAITLIST_SENDER "${name}"; logging messages instead`);
+  return logSender;
+}
@@ -0,0 +1,91 @@
+import type { OriginStrategy, Warehouse } from "@prisma/client";
+import type { AdminApiContext } from "@shopify/shopify-app-react-router/server";
+import { shopDb } from "./shopDb.server";
+import type { MatchedRule } from "./pincodeRule.server";
+import { toGid } from "./productRestriction.server";
+
+// A warehouse that can deliver to a pincode under its own rule.
+export type OriginCandidate = { warehouse: Warehouse; match: MatchedRule };
+
+const VARIANT_INVENTORY_QUERY = `#graphql
+  query OriginInventory($id: ID!) {
+    productVariant(id: $id) {
+      inventoryItem {
+        tracked
+        inventoryLevels(first: 50) {
+          nodes {
+            location {
+              id
+            }
+            quantities(names: ["available"]) {
+              quantity
+            }
+          }
+        }
+      }
+    }
+  }
+`;
+
+// Codes are short upper-case tags (DEL, BLR-2) so they read well in CSV files.
+export function normalizeOriginCode(code: string) {
+  return code.trim().toUpperCase();
+}
+
+export function validateOriginCode(code: string) {
+  return /^[A-Z0-9][A-Z0-9_-]{0,15}$/.test(code) ? null : "Use 1-16 letters, digits, - or _ for the warehouse code.";
+}
+
+export async function listWarehouses(shop: string) {
+  return shopDb(shop).warehouse.findMany({ where: { shop }, orderBy: { code: "asc" } });
+}
+
+/**
+ * Available quantity per location GID for a variant, or null when stock doesn't limit it:
+ * inventory isn't tracked, the variant is unknown, or the Admin API can't be reached.
+ */
+export async function loadAvailability(admin: AdminApiContext | undefined, variantId: string | null | undefined) {
+  const id = toGid("ProductVariant", variantId);
+  if (!admin || !id) return null;
+
+  try {
+    const res = await admin.graphql(VARIANT_INVENTORY_QUERY, { variables: { id } });
+    const { data } = await res.json();
+    const item = data?.productVariant?.inventoryItem;
+    if (!item?.tracked) return null;
+
+    const levels: Array<{ location: { id: string }; quantities: Array<{ quantity: number }> }> =
+      item.inventoryLevels.nodes;
+    return new Map(levels.map((l) => [l.location.id, l.quantities[0]?.quantity ?? 0]));
+  } catch (e) {
+    // Stock only narrows the choice; quote from every origin rather than fail the check.
+    console.error(`[warehouses] stock lookup for ${id} failed:`, e);
+    return null;
+  }
+}
+
+/**
+ * Picks the warehouse to ship from among those whose rule delivers to the pincode: the one with
+ * the earliest ETA or the lowest fee, per the shop's strategy, breaking ties the other way and then
+ * by code. Warehouses without the variant in stock are skipped when `availability` is known.
+ */
+export function pickOrigin(
+  candidates: OriginCandidate[],
+  strategy: OriginStrategy,
+  availability: Map<string, number> | null,
+): OriginCandidate | null {
+  const inStock = candidates.filter(
+    (c) => c.match.rule.deliverable && (!availability || (availability.get(c.warehouse.locationId) ?? 0) > 0),
+  );
+
+  // Unknown ETAs sort last; no fee means free.
+  const eta = (c: OriginCandidate) => c.match.rule.etaMinDays ?? c.match.rule.etaMaxDays ?? Number.MAX_SAFE_INTEGER;
+  const fee = (c: OriginCandidate) => c.match.rule.shippingFee ?? 0;
+  const order = strategy === "CHEAPEST" ? [fee, eta] : [eta, fee];
+
+  return (
+    inStock.sort(
+      (a, b) => order[0](a) - order[0](b) || order[1](a) - order[1](b) || a.warehouse.code.localeCompare(b.warehouse.code),
+    )[0] ?? null
+  );
+}
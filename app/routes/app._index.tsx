@@ -4,7 +4,9 @@ import { useLoaderData, Link } from "react-router";
 import { json } from "@remix-run/node";
 
 import { authenticate } from "../shopify.server";
-import db from "../db.server";
+import { shopDb } from "../models/shopDb.server";
+import { publishedRules } from "../models/ruleSet.server";
+import { loadLookupSummary } from "../models/lookupAnalytics.server";
 
 declare global {
   // eslint-disable-next-line @typescript-eslint/no-namespace
@@ -28,16 +30,25 @@ type LoaderData = {
   deliverableCount: number;
   blockedCount: number;
   lastUpdatedAt: string | null;
+  lookups: Awaited<ReturnType<typeof loadLookupSummary>>;
 };
 
+const LOOKUP_SUMMARY_DAYS = 30;
+
+const percent = (part: number, whole: number) => (whole ? `${Math.round((part / whole) * 100)}%` : "—");
+
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { session } = await authenticate.admin(request);
+  const db = shopDb(session.shop);
 
-  const rules = await db.pincodeRule.findMany({
-    where: { shop: session.shop },
-    select: { deliverable: true, createdAt: true },
-    orderBy: { createdAt: "desc" },
-  });
+  const [rules, lookups] = await Promise.all([
+    db.pincodeRule.findMany({
+      where: publishedRules(session.shop),
+      select: { deliverable: true, createdAt: true },
+      orderBy: { createdAt: "desc" },
+    }),
+    loadLookupSummary(session.shop, LOOKUP_SUMMARY_DAYS),
+  ]);
 
   const totalRules = rules.length;
   const deliverableCount = rules.filter((r) => r.deliverable).length;
@@ -50,6 +61,7 @@ export const loader = async ({ request }: LoaderFunctionArgs) => {
     deliverableCount,
     blockedCount,
     lastUpdatedAt,
+    lookups,
   });
 };
 
@@ -141,6 +153,44 @@ export default function AppHome() {
         </s-card>
       </div>
 
+      {/* Storefront demand */}
+      <div style={{ marginTop: 16 }}>
+        <s-card>
+          <s-stack gap="large">
+            <div style={{ display: "flex", justifyContent: "space-between", alignItems: "center" }}>
+              <s-heading>Storefront checks, last {LOOKUP_SUMMARY_DAYS} days</s-heading>
+              <Link to="/app/analytics" style={btnSecondary}>
+                View analytics
+              </Link>
+            </div>
+
+            <div style={{ ...statGrid, gridTemplateColumns: "repeat(4, 1fr)" }}>
+              <div style={statBox}>
+                <div style={statLabel}>Pincode checks</div>
+                <div style={statValue}>{data.lookups.totals.total}</div>
+              </div>
+              <div style={statBox}>
+                <div style={statLabel}>Not deliverable</div>
+                <div style={statValue}>{percent(data.lookups.totals.NOT_DELIVERABLE, data.lookups.totals.total)}</div>
+              </div>
+              <div style={statBox}>
+                <div style={statLabel}>Added to cart after a check</div>
+                <div style={statValue}>{percent(data.lookups.totals.addedToCart, data.lookups.totals.DELIVERABLE)}</div>
+              </div>
+              <div style={statBox}>
+                <div style={statLabel}>Top undeliverable pincode</div>
+                <div style={statValue}>
+                  {data.lookups.topUnserviceable ? data.lookups.topUnserviceable.pincode : "—"}
+                </div>
+                {data.lookups.topUnserviceable ? (
+                  <div style={statLabel}>{data.lookups.topUnserviceable.checks} checks</div>
+                ) : null}
+              </div>
+            </div>
+          </s-stack>
+        </s-card>
+      </div>
+
       {/* Bottom section */}
       <div style={{ marginTop: 16 }}>
         <s-section heading="What do you want to do next?">
@@ -173,7 +223,7 @@ export default function AppHome() {
                 <s-text tone="neutral">
                   Apply different delivery rules for specific products or collections.
                 </s-text>
-                <Link to="/app/rules" style={btnPrimary}>
+                <Link to="/app/restrictions" style={btnPrimary}>
                   Create advanced rules
                 </Link>
               </s-stack>
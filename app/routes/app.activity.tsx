@@ -0,0 +1,337 @@
+import type { RuleAuditAction, RuleAuditSource } from "@prisma/client";
+import { useRef, useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { Link, useFetcher, useLoaderData, useSearchParams } from "react-router";
+import { json } from "@remix-run/node";
+
+import { authenticate } from "../shopify.server";
+import { shopDb } from "../models/shopDb.server";
+import { formatRulePincode } from "../models/pincodeRule.server";
+import {
+  AUDITED_FIELDS,
+  listAuditEntries,
+  revertChange,
+  revertImport,
+  type RuleSnapshot,
+} from "../models/ruleAudit.server";
+import { RuleSetError } from "../models/ruleSet.server";
+
+/* ======================
+   Types
+====================== */
+type FieldValue = string | number | boolean | null;
+
+type EntryRow = {
+  id: string;
+  createdAt: string;
+  action: RuleAuditAction;
+  source: RuleAuditSource;
+  importJobId: string | null;
+  actor: string | null;
+  label: string;
+  changes: { field: string; before: FieldValue; after: FieldValue }[];
+  revertedAt: string | null;
+};
+
+type LoaderData = {
+  entries: EntryRow[];
+  hasMore: boolean;
+  importJob: { id: string; fileName: string } | null;
+};
+
+type ActionResponse = { ok: true; reverted: number } | { ok: false; error: string };
+
+const SOURCE_LABELS: Record<RuleAuditSource, string> = {
+  EDIT: "Edit",
+  BULK_EDIT: "Bulk edit",
+  IMPORT: "CSV import",
+  REVERT: "Revert",
+};
+
+const ACTION_LABELS: Record<RuleAuditAction, string> = { CREATE: "Created", UPDATE: "Updated", DELETE: "Deleted" };
+
+/* ======================
+   Loader
+====================== */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const db = shopDb(session.shop);
+  const params = new URL(request.url).searchParams;
+  const importJobId = params.get("import") || undefined;
+
+  const [{ entries, hasMore }, importJob] = await Promise.all([
+    listAuditEntries(session.shop, { importJobId, after: params.get("after") || undefined }),
+    importJobId
+      ? db.importJob.findFirst({ where: { id: importJobId, shop: session.shop }, select: { id: true, fileName: true } })
+      : null,
+  ]);
+
+  return json<LoaderData>({
+    entries: entries.map((e) => {
+      const before = e.before as RuleSnapshot | null;
+      const after = e.after as RuleSnapshot | null;
+      return {
+        id: e.id,
+        createdAt: e.createdAt.toISOString(),
+        action: e.action,
+        source: e.source,
+        importJobId: e.importJobId,
+        actor: e.actor,
+        label: formatRulePincode({
+          matchType: e.matchType,
+          pincode: e.pincode,
+          pincodeEnd: (after ?? before)?.pincodeEnd ?? null,
+          origin: e.origin,
+        }),
+        changes: AUDITED_FIELDS.filter((f) => (before?.[f] ?? null) !== (after?.[f] ?? null)).map((f) => ({
+          field: f,
+          before: before?.[f] ?? null,
+          after: after?.[f] ?? null,
+        })),
+        revertedAt: e.revertedAt?.toISOString() ?? null,
+      };
+    }),
+    hasMore,
+    importJob,
+  });
+};
+
+/* ======================
+   Action
+====================== */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session, sessionToken } = await authenticate.admin(request);
+  const form = await request.formData();
+  const intent = String(form.get("intent") || "");
+
+  const bad = (error: string, status = 400) => json<ActionResponse>({ ok: false, error }, { status });
+
+  try {
+    if (intent === "revert") {
+      const entryId = String(form.get("entryId") || "").trim();
+      if (!entryId) return bad("Missing change id");
+      if (!(await revertChange(session.shop, entryId, sessionToken.sub))) {
+        return bad("This change was already reverted or no longer exists.");
+      }
+      return json<ActionResponse>({ ok: true, reverted: 1 });
+    }
+
+    if (intent === "revert_import") {
+      const jobId = String(form.get("jobId") || "").trim();
+      if (!jobId) return bad("Missing import id");
+      const reverted = await revertImport(session.shop, jobId, sessionToken.sub);
+      if (!reverted) return bad("Nothing left to revert for this import.");
+      return json<ActionResponse>({ ok: true, reverted });
+    }
+  } catch (e) {
+    if (e instanceof RuleSetError) return bad(e.message);
+    throw e;
+  }
+
+  return bad("Unknown intent");
+};
+
+/* ======================
+   Component
+====================== */
+const CONFIRM_MODAL_ID = "activity-confirm-modal";
+
+export default function ActivityPage() {
+  const { entries, hasMore, importJob } = useLoaderData<LoaderData>();
+  const fetcher = useFetcher<ActionResponse>();
+  const [searchParams, setSearchParams] = useSearchParams();
+  const modalRef = useRef<HTMLElementTagNameMap["s-modal"]>(null);
+  const [pending, setPending] = useState<{ message: string; fields: Record<string, string> } | null>(null);
+
+  const error = fetcher.data && fetcher.data.ok === false ? fetcher.data.error : null;
+  const notice = fetcher.data?.ok ? `Reverted ${fetcher.data.reverted} change${fetcher.data.reverted === 1 ? "" : "s"}.` : null;
+
+  const askRevert = (message: string, fields: Record<string, string>) => {
+    setPending({ message, fields });
+    modalRef.current?.showOverlay();
+  };
+
+  const page = (after: string | null) => {
+    const next = new URLSearchParams(searchParams);
+    if (after) next.set("after", after);
+    else next.delete("after");
+    setSearchParams(next);
+  };
+
+  return (
+    <s-page heading="Activity">
+      {error ? (
+        <s-banner tone="critical">
+          <s-paragraph>{error}</s-paragraph>
+        </s-banner>
+      ) : null}
+      {notice ? (
+        <s-banner tone="success">
+          <s-paragraph>{notice}</s-paragraph>
+        </s-banner>
+      ) : null}
+
+      {importJob ? (
+        <s-section heading={`Import: ${importJob.fileName}`}>
+          <div style={{ display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap" }}>
+            <button
+              type="button"
+              style={btnStyle}
+              onClick={() =>
+                askRevert(`Revert every change ${importJob.fileName} made that isn't reverted yet?`, {
+                  intent: "revert_import",
+                  jobId: importJob.id,
+                })
+              }
+            >
+              {fetcher.state !== "idle" ? "Reverting..." : "Revert entire import"}
+            </button>
+            <Link to="/app/activity" style={{ textDecoration: "underline" }}>
+              Show all activity
+            </Link>
+          </div>
+        </s-section>
+      ) : null}
+
+      <s-section heading="Rule changes">
+        <div style={{ overflowX: "auto" }}>
+          <table style={tableStyle}>
+            <thead>
+              <tr>
+                <th style={thStyle}>When</th>
+                <th style={thStyle}>Staff</th>
+                <th style={thStyle}>Source</th>
+                <th style={thStyle}>Change</th>
+                <th style={thStyle}>Pincode</th>
+                <th style={thStyle}>Details</th>
+                <th style={thStyle}>Action</th>
+              </tr>
+            </thead>
+            <tbody>
+              {entries.map((e) => (
+                <tr key={e.id}>
+                  <td style={tdStyle}>{new Date(e.createdAt).toLocaleString()}</td>
+                  <td style={tdStyle}>{e.actor ? `Staff #${e.actor}` : "System"}</td>
+                  <td style={tdStyle}>
+                    {e.importJobId && !importJob ? (
+                      <Link to={`/app/activity?import=${e.importJobId}`} style={{ textDecoration: "underline" }}>
+                        {SOURCE_LABELS[e.source]}
+                      </Link>
+                    ) : (
+                      SOURCE_LABELS[e.source]
+                    )}
+                  </td>
+                  <td style={tdStyle}>{ACTION_LABELS[e.action]}</td>
+                  <td style={tdStyle}>{e.label}</td>
+                  <td style={tdStyle}>
+                    {e.changes.map((c) => (
+                      <div key={c.field}>
+                        {c.field}: {formatValue(c.before)} → {formatValue(c.after)}
+                      </div>
+                    ))}
+                  </td>
+                  <td style={tdStyle}>
+                    {e.revertedAt ? (
+                      `Reverted ${new Date(e.revertedAt).toLocaleDateString()}`
+                    ) : (
+                      <button
+                        type="button"
+                        style={linkButtonStyle}
+                        onClick={() =>
+                          askRevert(`Put ${e.label} back the way it was before this change?`, {
+                            intent: "revert",
+                            entryId: e.id,
+                          })
+                        }
+                      >
+                        Revert
+                      </button>
+                    )}
+                  </td>
+                </tr>
+              ))}
+              {entries.length === 0 ? (
+                <tr>
+                  <td style={tdStyle} colSpan={7}>No rule changes recorded yet.</td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
+
+        <div style={{ display: "flex", gap: 12, marginTop: 12 }}>
+          {searchParams.get("after") ? (
+            <button type="button" style={btnStyle} onClick={() => page(null)}>
+              Newest
+            </button>
+          ) : null}
+          {hasMore ? (
+            <button type="button" style={btnStyle} onClick={() => page(entries[entries.length - 1].id)}>
+              Older
+            </button>
+          ) : null}
+        </div>
+      </s-section>
+
+      <s-modal id={CONFIRM_MODAL_ID} ref={modalRef} heading="Revert changes" onAfterHide={() => setPending(null)}>
+        <s-paragraph>{pending?.message} Later edits to the same rules are overwritten.</s-paragraph>
+        <s-button
+          slot="primary-action"
+          variant="primary"
+          onClick={() => {
+            if (pending) fetcher.submit(pending.fields, { method: "post" });
+            modalRef.current?.hideOverlay();
+          }}
+        >
+          Revert
+        </s-button>
+        <s-button slot="secondary-actions" commandFor={CONFIRM_MODAL_ID} command="--hide">
+          Cancel
+        </s-button>
+      </s-modal>
+    </s-page>
+  );
+}
+
+function formatValue(value: FieldValue) {
+  if (value === null) return "-";
+  if (typeof value === "boolean") return value ? "Yes" : "No";
+  return String(value);
+}
+
+/* ======================
+   Styles
+====================== */
+const btnStyle: React.CSSProperties = {
+  padding: "10px 14px",
+  borderRadius: 10,
+  border: "1px solid rgba(0,0,0,.15)",
+  background: "black",
+  color: "white",
+  cursor: "pointer",
+};
+
+const linkButtonStyle: React.CSSProperties = {
+  padding: 0,
+  border: "none",
+  background: "none",
+  textDecoration: "underline",
+  cursor: "pointer",
+  font: "inherit",
+  fontWeight: 400,
+};
+
+const tableStyle: React.CSSProperties = { width: "100%", borderCollapse: "collapse" };
+
+const thStyle: React.CSSProperties = {
+  textAlign: "left",
+  fontSize: 12,
+  padding: "10px 8px",
+  borderBottom: "1px solid rgba(0,0,0,.12)",
+};
+
+const tdStyle: React.CSSProperties = {
+  padding: "10px 8px",
+  borderBottom: "1px solid rgba(0,0,0,.08)",
+  fontSize: 13,
+};
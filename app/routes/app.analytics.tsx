@@ -0,0 +1,285 @@
+import type { LookupResult } from "@prisma/client";
+import type { LoaderFunctionArgs } from "react-router";
+import { Link, useLoaderData } from "react-router";
+import { json } from "@remix-run/node";
+
+import { authenticate } from "../shopify.server";
+import { loadLookupAnalytics, type LookupAnalytics, type LookupTrendDay } from "../models/lookupAnalytics.server";
+
+/* ======================
+   Types
+====================== */
+type LoaderData = LookupAnalytics & { days: number };
+
+const PERIODS = [7, 30, 90];
+
+const RESULT_LABELS: Record<LookupResult, string> = {
+  DELIVERABLE: "Deliverable",
+  NOT_DELIVERABLE: "Not deliverable",
+  RESTRICTED: "Restricted product",
+  UNKNOWN_PINCODE: "Unknown pincode",
+};
+
+const RESULT_COLORS: Record<LookupResult, string> = {
+  DELIVERABLE: "#0a7a32",
+  NOT_DELIVERABLE: "#b42318",
+  RESTRICTED: "#b54708",
+  UNKNOWN_PINCODE: "#98a2b3",
+};
+
+const RESULT_ORDER: LookupResult[] = ["DELIVERABLE", "RESTRICTED", "NOT_DELIVERABLE", "UNKNOWN_PINCODE"];
+
+/* ======================
+   Loader
+====================== */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const requested = Number(new URL(request.url).searchParams.get("days"));
+  const days = PERIODS.includes(requested) ? requested : 30;
+
+  const analytics = await loadLookupAnalytics(session.shop, days);
+  return json<LoaderData>({ ...analytics, days });
+};
+
+/* ======================
+   Component
+====================== */
+const percent = (part: number, whole: number) => (whole ? `${Math.round((part / whole) * 100)}%` : "—");
+
+function TrendChart({ trend }: { trend: LookupTrendDay[] }) {
+  const max = Math.max(1, ...trend.map((d) => RESULT_ORDER.reduce((sum, r) => sum + d[r], 0)));
+  return (
+    <div>
+      <div style={chartStyle}>
+        {trend.map((d) => (
+          <div
+            key={d.day}
+            title={`${d.day}: ${RESULT_ORDER.map((r) => `${RESULT_LABELS[r]} ${d[r]}`).join(", ")}, added to cart ${d.addedToCart}`}
+            style={{ flex: 1, display: "flex", flexDirection: "column-reverse", height: "100%" }}
+          >
+            {RESULT_ORDER.map((r) =>
+              d[r] ? <div key={r} style={{ height: `${(d[r] / max) * 100}%`, background: RESULT_COLORS[r] }} /> : null,
+            )}
+          </div>
+        ))}
+      </div>
+      <div style={{ display: "flex", justifyContent: "space-between", fontSize: 12, opacity: 0.7, marginTop: 6 }}>
+        <span>{trend[0]?.day}</span>
+        <span>{trend[trend.length - 1]?.day}</span>
+      </div>
+      <div style={{ display: "flex", gap: 16, flexWrap: "wrap", fontSize: 12, marginTop: 8 }}>
+        {RESULT_ORDER.map((r) => (
+          <span key={r} style={{ display: "inline-flex", alignItems: "center", gap: 6 }}>
+            <span style={{ width: 10, height: 10, borderRadius: 2, background: RESULT_COLORS[r] }} />
+            {RESULT_LABELS[r]}
+          </span>
+        ))}
+      </div>
+    </div>
+  );
+}
+
+function ConversionChart({ trend }: { trend: LookupTrendDay[] }) {
+  return (
+    <div style={chartStyle}>
+      {trend.map((d) => {
+        const rate = d.DELIVERABLE ? d.addedToCart / d.DELIVERABLE : 0;
+        return (
+          <div
+            key={d.day}
+            title={`${d.day}: ${d.addedToCart} of ${d.DELIVERABLE} deliverable checks added to cart`}
+            style={{ flex: 1, display: "flex", flexDirection: "column-reverse", height: "100%" }}
+          >
+            {rate ? <div style={{ height: `${Math.min(rate, 1) * 100}%`, background: "#1d4ed8" }} /> : null}
+          </div>
+        );
+      })}
+    </div>
+  );
+}
+
+export default function AnalyticsPage() {
+  const { days, since, totals, topUnserviceable, states, trend } = useLoaderData<LoaderData>();
+  const maxStateChecks = Math.max(1, ...states.map((s) => s.checks));
+
+  return (
+    <s-page heading="Lookup Analytics">
+      <s-section heading="Period">
+        <div style={{ display: "flex", gap: 8, alignItems: "center", flexWrap: "wrap" }}>
+          {PERIODS.map((p) => (
+            <Link key={p} to={`/app/analytics?days=${p}`} style={p === days ? periodActiveStyle : periodStyle}>
+              Last {p} days
+            </Link>
+          ))}
+          <span style={{ fontSize: 12, opacity: 0.7 }}>Storefront checks since {since}, in the shop&apos;s time zone.</span>
+        </div>
+      </s-section>
+
+      <s-section heading="Summary">
+        <div style={statGrid}>
+          <div style={statBox}>
+            <div style={statLabel}>Pincode checks</div>
+            <div style={statValue}>{totals.total}</div>
+          </div>
+          <div style={statBox}>
+            <div style={statLabel}>Not deliverable</div>
+            <div style={statValue}>{percent(totals.NOT_DELIVERABLE, totals.total)}</div>
+          </div>
+          <div style={statBox}>
+            <div style={statLabel}>Deliverable checks added to cart</div>
+            <div style={statValue}>{percent(totals.addedToCart, totals.DELIVERABLE)}</div>
+          </div>
+          <div style={statBox}>
+            <div style={statLabel}>Restricted for the product</div>
+            <div style={statValue}>{percent(totals.RESTRICTED, totals.total)}</div>
+          </div>
+        </div>
+      </s-section>
+
+      <s-section heading="Checks per day">
+        {totals.total ? (
+          <TrendChart trend={trend} />
+        ) : (
+          <s-paragraph>No checks yet. They appear here once shoppers use the product page widget.</s-paragraph>
+        )}
+      </s-section>
+
+      <s-section heading="Add-to-cart rate per day">
+        <s-paragraph>Share of deliverable checks followed by an add to cart from the same page.</s-paragraph>
+        <ConversionChart trend={trend} />
+      </s-section>
+
+      <s-section heading="Most requested pincodes you don't deliver to">
+        <s-paragraph>
+          Candidates for a new courier partner or region rule. The shoppers column counts each browser tab once.
+        </s-paragraph>
+        <div style={{ overflowX: "auto" }}>
+          <table style={tableStyle}>
+            <thead>
+              <tr>
+                <th style={thStyle}>Pincode</th>
+                <th style={thStyle}>State</th>
+                <th style={thStyle}>Checks</th>
+                <th style={thStyle}>Shoppers</th>
+              </tr>
+            </thead>
+            <tbody>
+              {topUnserviceable.map((p) => (
+                <tr key={p.pincode}>
+                  <td style={tdStyle}>{p.pincode}</td>
+                  <td style={tdStyle}>{p.state ?? "—"}</td>
+                  <td style={tdStyle}>{p.checks}</td>
+                  <td style={tdStyle}>{p.shoppers}</td>
+                </tr>
+              ))}
+              {topUnserviceable.length === 0 ? (
+                <tr>
+                  <td style={tdStyle} colSpan={4}>No undeliverable checks in this period.</td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
+      </s-section>
+
+      <s-section heading="Demand by state">
+        <div style={{ overflowX: "auto" }}>
+          <table style={tableStyle}>
+            <thead>
+              <tr>
+                <th style={thStyle}>State</th>
+                <th style={thStyle}>Checks</th>
+                <th style={thStyle}>Not deliverable</th>
+                <th style={{ ...thStyle, width: "40%" }}>Share of checks</th>
+              </tr>
+            </thead>
+            <tbody>
+              {states.map((s) => (
+                <tr key={s.state}>
+                  <td style={tdStyle}>{s.state}</td>
+                  <td style={tdStyle}>{s.checks}</td>
+                  <td style={tdStyle}>
+                    {s.notDeliverable} ({percent(s.notDeliverable, s.checks)})
+                  </td>
+                  <td style={tdStyle}>
+                    <div style={{ display: "flex", height: 10, width: `${(s.checks / maxStateChecks) * 100}%` }}>
+                      <div style={{ flex: s.checks - s.notDeliverable, background: RESULT_COLORS.DELIVERABLE }} />
+                      <div style={{ flex: s.notDeliverable, background: RESULT_COLORS.NOT_DELIVERABLE }} />
+                    </div>
+                  </td>
+                </tr>
+              ))}
+              {states.length === 0 ? (
+                <tr>
+                  <td style={tdStyle} colSpan={4}>
+                    No checks from pincodes in the directory yet.
+                  </td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
+      </s-section>
+    </s-page>
+  );
+}
+
+/* ======================
+   Styles
+====================== */
+const chartStyle: React.CSSProperties = {
+  display: "flex",
+  alignItems: "stretch",
+  gap: 2,
+  height: 160,
+  borderBottom: "1px solid rgba(0,0,0,.12)",
+};
+
+const periodStyle: React.CSSProperties = {
+  padding: "8px 12px",
+  borderRadius: 10,
+  border: "1px solid rgba(0,0,0,.15)",
+  background: "white",
+  color: "black",
+  textDecoration: "none",
+};
+
+const periodActiveStyle: React.CSSProperties = { ...periodStyle, background: "black", color: "white" };
+
+const statGrid: React.CSSProperties = {
+  display: "grid",
+  gridTemplateColumns: "repeat(4, 1fr)",
+  gap: 12,
+};
+
+const statBox: React.CSSProperties = {
+  border: "1px solid rgba(0,0,0,.12)",
+  borderRadius: 12,
+  padding: 12,
+};
+
+const statLabel: React.CSSProperties = {
+  fontSize: 12,
+  opacity: 0.7,
+  marginBottom: 6,
+};
+
+const statValue: React.CSSProperties = {
+  fontSize: 22,
+  fontWeight: 700,
+};
+
+const tableStyle: React.CSSProperties = { width: "100%", borderCollapse: "collapse" };
+
+const thStyle: React.CSSProperties = {
+  textAlign: "left",
+  fontSize: 12,
+  padding: "10px 8px",
+  borderBottom: "1px solid rgba(0,0,0,.12)",
+};
+
+const tdStyle: React.CSSProperties = {
+  padding: "10px 8px",
+  borderBottom: "1px solid rgba(0,0,0,.08)",
+  fontSize: 13,
+};
@@ -0,0 +1,597 @@
+import type { BlackoutEffect, BlackoutScope } from "@prisma/client";
+import { useEffect, useRef, useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { useFetcher, useLoaderData } from "react-router";
+import { json } from "@remix-run/node";
+
+import { authenticate } from "../shopify.server";
+import { shopDb } from "../models/shopDb.server";
+import { isValidTimeZone, parseHolidayLines, shopDay } from "../models/deliveryCalendar.server";
+import { canonicalRegion, listRegions } from "../models/pincodeDirectory.server";
+import { parsePincodePatterns } from "../models/productRestriction.server";
+import { getShopSettings, updateShopSettings } from "../models/shopSettings.server";
+import { toIntOrNull } from "../utils/formValues";
+
+/* ======================
+   Types
+====================== */
+type WindowRow = {
+  id: string;
+  name: string;
+  scope: BlackoutScope;
+  target: string;
+  effect: BlackoutEffect;
+  delayDays: number;
+  message: string | null;
+  startsAt: string;
+  endsAt: string;
+};
+
+type LoaderData = {
+  windows: WindowRow[];
+  holidays: { id: string; date: string; name: string }[];
+  nonWorkingDays: number[];
+  dispatch: { timeZone: string; cutoff: string; processingDays: number };
+  states: string[];
+  districts: Array<{ state: string; district: string }>;
+};
+
+type ActionResponse = { ok: true } | { ok: false; error: string };
+
+const SCOPES: BlackoutScope[] = ["SHOP", "STATE", "DISTRICT", "PINCODES"];
+const EFFECTS: BlackoutEffect[] = ["UNDELIVERABLE", "DELAY"];
+
+// Indexed like Date.getDay() and ShopSettings.nonWorkingDays.
+const WEEKDAY_LABELS = ["Sunday", "Monday", "Tuesday", "Wednesday", "Thursday", "Friday", "Saturday"];
+
+// Cutoffs are stored as minutes after midnight and edited as "HH:MM".
+const toClock = (minutes: number | null) =>
+  minutes === null ? "" : `${String(Math.floor(minutes / 60)).padStart(2, "0")}:${String(minutes % 60).padStart(2, "0")}`;
+
+function formatTarget(w: { scope: BlackoutScope; state: string; district: string; pincodes: string }) {
+  if (w.scope === "SHOP") return "All pincodes";
+  if (w.scope === "STATE") return w.state;
+  if (w.scope === "DISTRICT") return `${w.district}, ${w.state}`;
+  return w.pincodes;
+}
+
+/* ======================
+   Loader
+====================== */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const db = shopDb(session.shop);
+
+  const settings = await getShopSettings(session.shop);
+  const [windows, holidays, regions] = await Promise.all([
+    db.blackoutWindow.findMany({ where: { shop: session.shop }, orderBy: { startsAt: "desc" } }),
+    // Past holidays no longer affect any ETA.
+    db.holiday.findMany({
+      where: { shop: session.shop, date: { gte: shopDay(new Date(), settings.timeZone) } },
+      orderBy: { date: "asc" },
+    }),
+    listRegions(),
+  ]);
+
+  return json<LoaderData>({
+    windows: windows.map((w) => ({
+      id: w.id,
+      name: w.name,
+      scope: w.scope,
+      target: formatTarget(w),
+      effect: w.effect,
+      delayDays: w.delayDays,
+      message: w.message,
+      startsAt: w.startsAt.toISOString(),
+      endsAt: w.endsAt.toISOString(),
+    })),
+    holidays: holidays.map((h) => ({ id: h.id, date: h.date.toISOString().slice(0, 10), name: h.name })),
+    nonWorkingDays: settings.nonWorkingDays,
+    dispatch: {
+      timeZone: settings.timeZone,
+      cutoff: toClock(settings.dispatchCutoffMinutes),
+      processingDays: settings.processingDays,
+    },
+    states: regions.states,
+    districts: regions.districts,
+  });
+};
+
+/* ======================
+   Action
+====================== */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const db = shopDb(session.shop);
+  const form = await request.formData();
+  const intent = String(form.get("intent") || "");
+
+  const bad = (error: string, status = 400) => json<ActionResponse>({ ok: false, error }, { status });
+
+  if (intent === "create_window") {
+    const name = String(form.get("name") || "").trim();
+    if (!name) return bad("Give the window a name, e.g. Diwali pickup pause.");
+
+    const scope = SCOPES.find((s) => s === String(form.get("scope") || ""));
+    if (!scope) return bad("Unknown blackout area.");
+    const effect = EFFECTS.find((e) => e === String(form.get("effect") || "")) ?? "UNDELIVERABLE";
+
+    const delayDays = effect === "DELAY" ? toIntOrNull(form.get("delayDays") as string) : 0;
+    if (delayDays === null || (effect === "DELAY" && delayDays < 1)) return bad("Delay must be at least 1 day.");
+
+    const startsAt = new Date(String(form.get("startsAt") || ""));
+    const endsAt = new Date(String(form.get("endsAt") || ""));
+    if (Number.isNaN(startsAt.getTime()) || Number.isNaN(endsAt.getTime())) return bad("Pick when the window starts and ends.");
+    if (endsAt <= startsAt) return bad("The window must end after it starts.");
+
+    const stateRaw = scope === "STATE" || scope === "DISTRICT" ? String(form.get("state") || "").trim() : "";
+    const districtRaw = scope === "DISTRICT" ? String(form.get("district") || "").trim() : "";
+    if ((scope === "STATE" || scope === "DISTRICT") && !stateRaw) return bad("State is required.");
+    if (scope === "DISTRICT" && !districtRaw) return bad("District is required.");
+    const { state, district } = await canonicalRegion(stateRaw, districtRaw);
+
+    const pincodes = scope === "PINCODES" ? String(form.get("pincodes") || "").trim() : "";
+    if (scope === "PINCODES") {
+      const { error: patternError } = parsePincodePatterns(pincodes);
+      if (patternError) return bad(patternError);
+    }
+
+    const message = String(form.get("message") || "").trim() || null;
+
+    await db.blackoutWindow.create({
+      data: { shop: session.shop, name, scope, state, district, pincodes, effect, delayDays, message, startsAt, endsAt },
+    });
+    return json<ActionResponse>({ ok: true });
+  }
+
+  if (intent === "delete_window") {
+    const id = String(form.get("id") || "").trim();
+    if (!id) return bad("Missing id");
+    await db.blackoutWindow.deleteMany({ where: { id, shop: session.shop } });
+    return json<ActionResponse>({ ok: true });
+  }
+
+  if (intent === "dispatch_settings") {
+    const working = new Set(form.getAll("workingDay").map((d) => Number(d)));
+    if (!working.size) return bad("Keep at least one working day.");
+    const nonWorkingDays = WEEKDAY_LABELS.map((_, day) => day).filter((day) => !working.has(day));
+
+    const timeZone = String(form.get("timeZone") || "").trim();
+    if (!isValidTimeZone(timeZone)) return bad(`"${timeZone}" is not a time zone like Asia/Kolkata.`);
+
+    const cutoffRaw = String(form.get("cutoff") || "").trim();
+    const cutoff = cutoffRaw.match(/^([01]\d|2[0-3]):([0-5]\d)$/);
+    if (cutoffRaw && !cutoff) return bad("Cutoff must be a time like 14:00.");
+    const dispatchCutoffMinutes = cutoff ? Number(cutoff[1]) * 60 + Number(cutoff[2]) : null;
+
+    const processingRaw = String(form.get("processingDays") || "").trim();
+    const processingDays = toIntOrNull(processingRaw);
+    if (processingRaw && processingDays === null) return bad("Processing days must be a non-negative integer.");
+
+    await updateShopSettings(session.shop, {
+      nonWorkingDays,
+      timeZone,
+      dispatchCutoffMinutes,
+      processingDays: processingDays ?? 0,
+    });
+    return json<ActionResponse>({ ok: true });
+  }
+
+  if (intent === "add_holidays") {
+    const { holidays, error: holidayError } = parseHolidayLines(String(form.get("holidays") || ""));
+    if (holidayError) return bad(holidayError);
+
+    // Re-adding a date renames it rather than failing.
+    await db.$transaction(
+      holidays.map((h) =>
+        db.holiday.upsert({
+          where: { shop_date: { shop: session.shop, date: h.date } },
+          update: { name: h.name },
+          create: { shop: session.shop, date: h.date, name: h.name },
+        }),
+      ),
+    );
+    return json<ActionResponse>({ ok: true });
+  }
+
+  if (intent === "delete_holiday") {
+    const id = String(form.get("id") || "").trim();
+    if (!id) return bad("Missing id");
+    await db.holiday.deleteMany({ where: { id, shop: session.shop } });
+    return json<ActionResponse>({ ok: true });
+  }
+
+  return bad("Unknown intent");
+};
+
+/* ======================
+   Component
+====================== */
+export default function CalendarPage() {
+  const { windows, holidays, nonWorkingDays, dispatch, states, districts } = useLoaderData<LoaderData>();
+  const fetcher = useFetcher<ActionResponse>();
+  const windowFetcher = useFetcher<ActionResponse>();
+  const holidayFetcher = useFetcher<ActionResponse>();
+
+  // datetime-local has no time zone, so the admin's local time is sent as UTC.
+  const [startsAt, setStartsAt] = useState("");
+  const [endsAt, setEndsAt] = useState("");
+  const [scope, setScope] = useState<BlackoutScope>("SHOP");
+  const [effect, setEffect] = useState<BlackoutEffect>("UNDELIVERABLE");
+
+  const errorOf = (f: typeof fetcher) => (f.data && f.data.ok === false ? f.data.error : null);
+  const error = errorOf(fetcher) ?? errorOf(windowFetcher) ?? errorOf(holidayFetcher);
+
+  const windowFormRef = useRef<HTMLFormElement>(null);
+  useEffect(() => {
+    if (windowFetcher.data?.ok !== true) return;
+    windowFormRef.current?.reset();
+    setStartsAt("");
+    setEndsAt("");
+  }, [windowFetcher.data]);
+
+  const holidayFormRef = useRef<HTMLFormElement>(null);
+  useEffect(() => {
+    if (holidayFetcher.data?.ok === true) holidayFormRef.current?.reset();
+  }, [holidayFetcher.data]);
+
+  const now = Date.now();
+  const windowStatus = (w: WindowRow) => {
+    if (Date.parse(w.endsAt) <= now) return "Ended";
+    return Date.parse(w.startsAt) <= now ? "Active" : "Upcoming";
+  };
+
+  return (
+    <s-page heading="Delivery Calendar">
+      {error ? (
+        <s-banner tone="critical">
+          <s-paragraph>{error}</s-paragraph>
+        </s-banner>
+      ) : null}
+
+      <s-section heading="Add Blackout Window">
+        <s-paragraph>
+          While a window is active, the pincodes it covers are reported as not deliverable or quoted a longer ETA,
+          without touching the rules themselves. Your message replaces the default storefront text.
+        </s-paragraph>
+
+        <windowFetcher.Form method="post" ref={windowFormRef}>
+          <input type="hidden" name="intent" value="create_window" />
+          <input type="hidden" name="startsAt" value={startsAt ? new Date(startsAt).toISOString() : ""} />
+          <input type="hidden" name="endsAt" value={endsAt ? new Date(endsAt).toISOString() : ""} />
+
+          <div
+            style={{
+              display: "grid",
+              gridTemplateColumns: "220px 160px 1fr",
+              gap: 12,
+              alignItems: "end",
+              marginTop: 12,
+            }}
+          >
+            <div>
+              <label htmlFor="bw_name" style={labelStyle}>Name</label>
+              <input id="bw_name" name="name" placeholder="Assam floods" style={inputStyle} />
+            </div>
+
+            <div>
+              <label htmlFor="bw_scope" style={labelStyle}>Applies to</label>
+              <select
+                id="bw_scope"
+                name="scope"
+                value={scope}
+                onChange={(e) => setScope(e.target.value as BlackoutScope)}
+                style={inputStyle}
+              >
+                <option value="SHOP">Whole shop</option>
+                <option value="STATE">State</option>
+                <option value="DISTRICT">District</option>
+                <option value="PINCODES">Pincodes</option>
+              </select>
+            </div>
+
+            {scope === "STATE" || scope === "DISTRICT" ? (
+              <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr", gap: 12 }}>
+                <div>
+                  <label htmlFor="bw_state" style={labelStyle}>State</label>
+                  <input id="bw_state" name="state" list="bw_states" placeholder="Assam" style={inputStyle} />
+                  <datalist id="bw_states">
+                    {states.map((s) => (
+                      <option key={s} value={s} />
+                    ))}
+                  </datalist>
+                </div>
+                {scope === "DISTRICT" ? (
+                  <div>
+                    <label htmlFor="bw_district" style={labelStyle}>District</label>
+                    <input id="bw_district" name="district" list="bw_districts" placeholder="Kamrup" style={inputStyle} />
+                    <datalist id="bw_districts">
+                      {districts.map((d) => (
+                        <option key={`${d.state}/${d.district}`} value={d.district}>
+                          {d.state}
+                        </option>
+                      ))}
+                    </datalist>
+                  </div>
+                ) : null}
+              </div>
+            ) : scope === "PINCODES" ? (
+              <div>
+                <label htmlFor="bw_pincodes" style={labelStyle}>Pincodes, ranges or prefixes</label>
+                <input id="bw_pincodes" name="pincodes" placeholder="781001-781040, 7820*" style={inputStyle} />
+              </div>
+            ) : (
+              <div />
+            )}
+          </div>
+
+          <div
+            style={{
+              display: "grid",
+              gridTemplateColumns: "180px 120px 220px 220px 1fr",
+              gap: 12,
+              alignItems: "end",
+              marginTop: 12,
+            }}
+          >
+            <div>
+              <label htmlFor="bw_effect" style={labelStyle}>Effect</label>
+              <select
+                id="bw_effect"
+                name="effect"
+                value={effect}
+                onChange={(e) => setEffect(e.target.value as BlackoutEffect)}
+                style={inputStyle}
+              >
+                <option value="UNDELIVERABLE">Not deliverable</option>
+                <option value="DELAY">Delayed</option>
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="bw_delay" style={labelStyle}>Delay (days)</label>
+              <input
+                id="bw_delay"
+                name="delayDays"
+                placeholder="3"
+                disabled={effect !== "DELAY"}
+                style={inputStyle}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="bw_starts" style={labelStyle}>Starts</label>
+              <input
+                id="bw_starts"
+                type="datetime-local"
+                value={startsAt}
+                onChange={(e) => setStartsAt(e.target.value)}
+                style={inputStyle}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="bw_ends" style={labelStyle}>Ends</label>
+              <input
+                id="bw_ends"
+                type="datetime-local"
+                value={endsAt}
+                onChange={(e) => setEndsAt(e.target.value)}
+                style={inputStyle}
+              />
+            </div>
+
+            <div>
+              <label htmlFor="bw_message" style={labelStyle}>Shopper message (optional)</label>
+              <input
+                id="bw_message"
+                name="message"
+                placeholder="Deliveries to Assam are paused due to floods."
+                style={inputStyle}
+              />
+            </div>
+          </div>
+
+          <div style={{ marginTop: 12 }}>
+            <button type="submit" style={btnStyle}>
+              {windowFetcher.state !== "idle" ? "Saving..." : "Add Window"}
+            </button>
+          </div>
+        </windowFetcher.Form>
+      </s-section>
+
+      <s-section heading="Blackout Windows">
+        <div style={{ overflowX: "auto" }}>
+          <table style={tableStyle}>
+            <thead>
+              <tr>
+                <th style={thStyle}>Name</th>
+                <th style={thStyle}>Applies to</th>
+                <th style={thStyle}>Effect</th>
+                <th style={thStyle}>From</th>
+                <th style={thStyle}>Until</th>
+                <th style={thStyle}>Status</th>
+                <th style={thStyle}>Action</th>
+              </tr>
+            </thead>
+            <tbody>
+              {windows.map((w) => (
+                <tr key={w.id}>
+                  <td style={tdStyle}>
+                    {w.name}
+                    {w.message ? <div style={{ opacity: 0.7 }}>{w.message}</div> : null}
+                  </td>
+                  <td style={tdStyle}>{w.target}</td>
+                  <td style={tdStyle}>
+                    {w.effect === "DELAY" ? `Delayed ${w.delayDays} day${w.delayDays === 1 ? "" : "s"}` : "Not deliverable"}
+                  </td>
+                  <td style={tdStyle}>{new Date(w.startsAt).toLocaleString()}</td>
+                  <td style={tdStyle}>{new Date(w.endsAt).toLocaleString()}</td>
+                  <td style={tdStyle}>{windowStatus(w)}</td>
+                  <td style={tdStyle}>
+                    <fetcher.Form method="post">
+                      <input type="hidden" name="intent" value="delete_window" />
+                      <input type="hidden" name="id" value={w.id} />
+                      <button type="submit" style={btnDangerStyle}>Delete</button>
+                    </fetcher.Form>
+                  </td>
+                </tr>
+              ))}
+              {windows.length === 0 ? (
+                <tr>
+                  <td style={tdStyle} colSpan={7}>No blackout windows yet.</td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
+      </s-section>
+
+      <s-section heading="Dispatch">
+        <s-paragraph>
+          Orders placed before the cutoff on a working day dispatch that day, later ones on the next working day, then
+          wait out the processing days. Rule ETAs count working days in transit from there, skipping unticked weekdays
+          and the holidays below, and shoppers see the resulting dates with a countdown to the cutoff.
+        </s-paragraph>
+        <fetcher.Form
+          method="post"
+          key={[dispatch.timeZone, dispatch.cutoff, dispatch.processingDays, ...nonWorkingDays].join(",")}
+        >
+          <input type="hidden" name="intent" value="dispatch_settings" />
+          <div
+            style={{ display: "grid", gridTemplateColumns: "220px 140px 160px", gap: 12, alignItems: "end", marginTop: 12 }}
+          >
+            <div>
+              <label htmlFor="ds_time_zone" style={labelStyle}>Warehouse time zone</label>
+              <input id="ds_time_zone" name="timeZone" defaultValue={dispatch.timeZone} style={inputStyle} />
+            </div>
+            <div>
+              <label htmlFor="ds_cutoff" style={labelStyle}>Daily cutoff (optional)</label>
+              <input id="ds_cutoff" name="cutoff" type="time" defaultValue={dispatch.cutoff} style={inputStyle} />
+            </div>
+            <div>
+              <label htmlFor="ds_processing" style={labelStyle}>Processing days</label>
+              <input id="ds_processing" name="processingDays" defaultValue={dispatch.processingDays} style={inputStyle} />
+            </div>
+          </div>
+          <div style={{ display: "flex", gap: 16, flexWrap: "wrap", alignItems: "center", marginTop: 12 }}>
+            {WEEKDAY_LABELS.map((label, day) => (
+              <label key={label} htmlFor={`wd_${day}`} style={{ display: "flex", gap: 6, alignItems: "center" }}>
+                <input
+                  id={`wd_${day}`}
+                  type="checkbox"
+                  name="workingDay"
+                  value={day}
+                  defaultChecked={!nonWorkingDays.includes(day)}
+                />
+                {label}
+              </label>
+            ))}
+          </div>
+          <div style={{ marginTop: 12 }}>
+            <button type="submit" style={btnStyle}>
+              {fetcher.state !== "idle" ? "Saving..." : "Save Dispatch Settings"}
+            </button>
+          </div>
+        </fetcher.Form>
+      </s-section>
+
+      <s-section heading="Holidays">
+        <holidayFetcher.Form method="post" ref={holidayFormRef}>
+          <input type="hidden" name="intent" value="add_holidays" />
+          <label htmlFor="hd_lines" style={labelStyle}>One per line: date, then an optional name</label>
+          <textarea
+            id="hd_lines"
+            name="holidays"
+            rows={4}
+            placeholder={"2026-11-08 Diwali\n2026-12-25 Christmas"}
+            style={{ ...inputStyle, fontFamily: "monospace" }}
+          />
+          <div style={{ marginTop: 12 }}>
+            <button type="submit" style={btnStyle}>
+              {holidayFetcher.state !== "idle" ? "Saving..." : "Add Holidays"}
+            </button>
+          </div>
+        </holidayFetcher.Form>
+
+        <div style={{ overflowX: "auto", marginTop: 12 }}>
+          <table style={tableStyle}>
+            <thead>
+              <tr>
+                <th style={thStyle}>Date</th>
+                <th style={thStyle}>Name</th>
+                <th style={thStyle}>Action</th>
+              </tr>
+            </thead>
+            <tbody>
+              {holidays.map((h) => (
+                <tr key={h.id}>
+                  <td style={tdStyle}>{h.date}</td>
+                  <td style={tdStyle}>{h.name}</td>
+                  <td style={tdStyle}>
+                    <fetcher.Form method="post">
+                      <input type="hidden" name="intent" value="delete_holiday" />
+                      <input type="hidden" name="id" value={h.id} />
+                      <button type="submit" style={btnDangerStyle}>Delete</button>
+                    </fetcher.Form>
+                  </td>
+                </tr>
+              ))}
+              {holidays.length === 0 ? (
+                <tr>
+                  <td style={tdStyle} colSpan={3}>No upcoming holidays.</td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
+      </s-section>
+    </s-page>
+  );
+}
+
+/* ======================
+   Styles
+====================== */
+const labelStyle: React.CSSProperties = { display: "block", fontSize: 12, marginBottom: 6 };
+
+const inputStyle: React.CSSProperties = {
+  width: "100%",
+  padding: "10px 12px",
+  border: "1px solid rgba(0,0,0,.15)",
+  borderRadius: 10,
+  outline: "none",
+};
+
+const btnStyle: React.CSSProperties = {
+  padding: "10px 14px",
+  borderRadius: 10,
+  border: "1px solid rgba(0,0,0,.15)",
+  background: "black",
+  color: "white",
+  cursor: "pointer",
+};
+
+const btnDangerStyle: React.CSSProperties = {
+  padding: "8px 12px",
+  borderRadius: 10,
+  border: "1px solid rgba(0,0,0,.15)",
+  background: "#b42318",
+  color: "white",
+  cursor: "pointer",
+};
+
+const tableStyle: React.CSSProperties = { width: "100%", borderCollapse: "collapse" };
+
+const thStyle: React.CSSProperties = {
+  textAlign: "left",
+  fontSize: 12,
+  padding: "10px 8px",
+  borderBottom: "1px solid rgba(0,0,0,.12)",
+};
+
+const tdStyle: React.CSSProperties = {
+  padding: "10px 8px",
+  borderBottom: "1px solid rgba(0,0,0,.08)",
+  fontSize: 13,
+};
@@ -0,0 +1,29 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { exportRules, type ExportFormat } from "../models/ruleExport.server";
+import { parseRuleFilters, ruleFilterWhere } from "../models/ruleFilters.server";
+import { getRuleSet, RuleSetError } from "../models/ruleSet.server";
+
+const FORMATS: ExportFormat[] = ["csv", "xlsx", "json"];
+
+// /app/export?format=csv&deliverable=yes&cod=no&etaMin=2&etaMax=5&prefix=560[&set=<rule set id>]
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const url = new URL(request.url);
+
+  const format = FORMATS.find((f) => f === url.searchParams.get("format")) ?? "csv";
+  const ruleSet = await getRuleSet(session.shop, url.searchParams.get("set")).catch((e) => {
+    if (e instanceof RuleSetError) throw new Response(e.message, { status: 404 });
+    throw e;
+  });
+  const where = { ...ruleFilterWhere(session.shop, parseRuleFilters(url.searchParams)), ruleSetId: ruleSet.id };
+  const { body, contentType } = await exportRules(session.shop, where, format);
+
+  const date = new Date().toISOString().slice(0, 10);
+  return new Response(body, {
+    headers: {
+      "Content-Type": contentType,
+      "Content-Disposition": `attachment; filename="pincode-rules-${date}.${format}"`,
+    },
+  });
+};
@@ -0,0 +1,21 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { listImportErrors } from "../models/importJob.server";
+import { toCsv } from "../utils/csv";
+
+// Row-level error report for one import job, as CSV.
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const errors = await listImportErrors(session.shop, params.id ?? "");
+
+  const csv = toCsv(
+    ["row", "pincode", "error"],
+    errors.map((e) => [e.row, e.pincode, e.reason]),
+  );
+  return new Response(csv, {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="pincode-import-errors-${params.id}.csv"`,
+    },
+  });
+};
@@ -0,0 +1,10 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { json } from "@remix-run/node";
+import { authenticate } from "../shopify.server";
+import { listImportJobs } from "../models/importJob.server";
+
+// Polled by the pincodes page while an import is queued or running.
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  return json({ jobs: await listImportJobs(session.shop) });
+};
@@ -1,11 +1,33 @@
-import type { Prisma } from "@prisma/client";
-import { useEffect, useMemo } from "react";
+import type { ImportJobStatus, PincodeMatchType, Prisma, RuleSetStatus } from "@prisma/client";
+import { useEffect, useRef, useState } from "react";
 import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
-import { useFetcher, useLoaderData } from "react-router";
+import { Link, useFetcher, useLoaderData, useRevalidator, useSearchParams } from "react-router";
 import { json } from "@remix-run/node";
 
 import { authenticate } from "../shopify.server";
-import db from "../db.server";
+import { shopDb } from "../models/shopDb.server";
+import { formatRulePincode, validateRulePincode } from "../models/pincodeRule.server";
+import { formatLocality } from "../models/pincodeDirectory.server";
+import { ImportFormatError } from "../models/pincodeImport.server";
+import {
+  cancelImport,
+  confirmImport,
+  enqueueImport,
+  listImportJobs,
+  readImportForm,
+  type ImportPreview,
+} from "../models/importJob.server";
+import { resolveServiceability, type RuleSource } from "../models/serviceability.server";
+import { parseRuleFilters, ruleFilterWhere } from "../models/ruleFilters.server";
+import { setCodEnforcement } from "../models/checkoutSync.server";
+import { getShopSettings } from "../models/shopSettings.server";
+import { setRuleFeeCharging } from "../models/carrierRates.server";
+import { recordRuleChanges, type ChangeOrigin } from "../models/ruleAudit.server";
+import { getRuleSet, isEditable, RuleSetError } from "../models/ruleSet.server";
+import { listWarehouses, normalizeOriginCode } from "../models/warehouse.server";
+import { downloadFile } from "../utils/download";
+import { toBool, toIntOrNull } from "../utils/formValues";
+import { firstTermError, parseRuleTerms, type EditableTerms, type TermErrors } from "../utils/ruleTerms";
 
 /* ======================
    Types
@@ -13,222 +35,380 @@ import db from "../db.server";
 type RuleRow = {
   id: string;
   shop: string;
+  matchType: PincodeMatchType;
   pincode: string;
+  pincodeEnd: string | null;
+  origin: string;
+  label: string;
   deliverable: boolean;
   etaMinDays: number | null;
   etaMaxDays: number | null;
   codAvailable: boolean;
   shippingFee: number | null;
+  expressFee: number | null;
+  expressEtaMinDays: number | null;
+  expressEtaMaxDays: number | null;
+};
+
+type ImportJobRow = {
+  id: string;
+  status: ImportJobStatus;
+  fileName: string;
+  replaceMode: boolean;
+  preview: ImportPreview | null;
+  totalRows: number | null;
+  processedRows: number;
+  inserted: number;
+  updated: number;
+  deleted: number;
+  invalidCount: number;
+  unknownCount: number;
+  unknown: string[];
+  failureReason: string | null;
+  createdAt: string;
+  finishedAt: string | null;
+};
+
+type SortField = (typeof SORT_FIELDS)[number];
+
+type PageInfo = {
+  total: number;
+  hasPrev: boolean;
+  hasNext: boolean;
+  firstId: string | null;
+  lastId: string | null;
+  sort: SortField;
+  dir: "asc" | "desc";
 };
 
 type LoaderData = {
+  ruleSet: { id: string; name: string; status: RuleSetStatus; publishAt: string | null };
   rules: RuleRow[];
+  page: PageInfo;
+  enforceCod: boolean;
+  chargeRuleFees: boolean;
+  imports: ImportJobRow[];
+  warehouses: { code: string; name: string }[];
 };
 
-type BulkResponse =
-  | { ok: true; inserted: number; updated: number; invalidCount: number; invalid: Array<{ row: number; reason: string; pincode?: string }> }
-  | { ok: false; error: string };
+type QueuedResponse = { ok: true; jobId: string };
+
+type PreviewResponse = {
+  ok: true;
+  preview: {
+    pincode: string;
+    exists: boolean;
+    locality: string | null;
+    source: RuleSource | null;
+    origin: string | null;
+    deliverable: boolean;
+    blackout: string | null;
+  };
+};
 
 type ActionResponse =
   | { ok: true }
-  | { ok: false; error: string }
-  | BulkResponse;
+  | { ok: false; error: string; fieldErrors?: TermErrors }
+  | QueuedResponse
+  | PreviewResponse;
 
-/* ======================
-   Helpers
-====================== */
-function toBool(val: string | null, fallback = false) {
-  if (!val) return fallback;
-  const v = val.toString().trim().toLowerCase();
-  return v === "true" || v === "1" || v === "yes";
-}
-
-function toIntOrNull(val: string | null) {
-  if (!val) return null;
-  const s = val.toString().trim();
-  if (!s) return null;
-  const n = Number(s);
-  if (!Number.isFinite(n) || !Number.isInteger(n) || n < 0) return null;
-  return n;
-}
-
-function parseCsv(text: string) {
-  // Simple CSV parser: commas + newlines, no quoted commas
-  const lines = text
-    .replace(/\r\n/g, "\n")
-    .replace(/\r/g, "\n")
-    .split("\n")
-    .map((l) => l.trim())
-    .filter(Boolean);
-
-  if (!lines.length) return { headers: [], rows: [] as Array<Record<string, string>> };
-
-  const headers = lines[0].split(",").map((h) => h.trim());
-  const rows = lines.slice(1).map((line) => {
-    const cols = line.split(",").map((c) => c.trim());
-    const obj: Record<string, string> = {};
-    headers.forEach((h, i) => (obj[h] = cols[i] ?? ""));
-    return obj;
-  });
+const MATCH_TYPES: PincodeMatchType[] = ["EXACT", "RANGE", "PREFIX"];
 
-  return { headers, rows };
-}
+const PAGE_SIZE = 50;
+const SORT_FIELDS = ["createdAt", "pincode", "deliverable", "etaMinDays", "etaMaxDays", "codAvailable", "shippingFee"] as const;
 
 /* ======================
    Loader
 ====================== */
 export const loader = async ({ request }: LoaderFunctionArgs) => {
   const { session } = await authenticate.admin(request);
+  const db = shopDb(session.shop);
+  const params = new URL(request.url).searchParams;
 
-  const rules = await db.pincodeRule.findMany({
-    where: { shop: session.shop },
-    orderBy: { createdAt: "desc" },
+  // `set` picks a draft or archived version to view; without it the page edits the published rules.
+  const ruleSet = await getRuleSet(session.shop, params.get("set")).catch((e) => {
+    if (e instanceof RuleSetError) throw new Response(e.message, { status: 404 });
+    throw e;
+  });
+  const where = { ...ruleFilterWhere(session.shop, parseRuleFilters(params)), ruleSetId: ruleSet.id };
+  const sort = SORT_FIELDS.find((f) => f === params.get("sort")) ?? "createdAt";
+  const dir = params.get("dir") === "asc" || params.get("dir") === "desc" ? (params.get("dir") as "asc" | "desc") : sort === "createdAt" ? "desc" : "asc";
+
+  // Cursor pagination: `after` pages forward from a rule id, `before` pages back. One extra
+  // row is fetched to know whether another page exists in that direction.
+  const after = params.get("after");
+  const before = params.get("before");
+  const cursorId = before || after;
+
+  const fetched = await db.pincodeRule.findMany({
+    where,
+    orderBy: [{ [sort]: dir } as Prisma.PincodeRuleOrderByWithRelationInput, { id: dir }],
+    take: before ? -(PAGE_SIZE + 1) : PAGE_SIZE + 1,
+    ...(cursorId ? { cursor: { id: cursorId }, skip: 1 } : {}),
     select: {
       id: true,
       shop: true,
+      matchType: true,
       pincode: true,
+      pincodeEnd: true,
+      origin: true,
       deliverable: true,
       etaMinDays: true,
       etaMaxDays: true,
       codAvailable: true,
       shippingFee: true,
+      expressFee: true,
+      expressEtaMinDays: true,
+      expressEtaMaxDays: true,
     },
   });
 
-  return json<LoaderData>({ rules });
+  const more = fetched.length > PAGE_SIZE;
+  const rules = before ? fetched.slice(-PAGE_SIZE) : fetched.slice(0, PAGE_SIZE);
+
+  const [total, settings, imports, warehouses] = await Promise.all([
+    db.pincodeRule.count({ where }),
+    getShopSettings(session.shop),
+    listImportJobs(session.shop),
+    listWarehouses(session.shop),
+  ]);
+
+  return json<LoaderData>({
+    ruleSet: {
+      id: ruleSet.id,
+      name: ruleSet.name,
+      status: ruleSet.status,
+      publishAt: ruleSet.publishAt?.toISOString() ?? null,
+    },
+    rules: rules.map((r) => ({ ...r, label: formatRulePincode(r) })),
+    page: {
+      total,
+      hasPrev: before ? more : Boolean(after),
+      hasNext: before ? true : more,
+      firstId: rules[0]?.id ?? null,
+      lastId: rules[rules.length - 1]?.id ?? null,
+      sort,
+      dir,
+    },
+    enforceCod: settings.enforceCod,
+    chargeRuleFees: settings.chargeRuleFees,
+    imports: imports.map((j) => ({
+      ...j,
+      unknown: j.unknown as string[],
+      preview: j.preview as ImportPreview | null,
+      createdAt: j.createdAt.toISOString(),
+      finishedAt: j.finishedAt?.toISOString() ?? null,
+    })),
+    warehouses: warehouses.map((w) => ({ code: w.code, name: w.name })),
+  });
 };
 
 /* ======================
    Action
 ====================== */
 export const action = async ({ request }: ActionFunctionArgs) => {
-  const { session } = await authenticate.admin(request);
-  const form = await request.formData();
-  const intent = String(form.get("intent") || "");
+  const { session, admin, sessionToken } = await authenticate.admin(request);
+  const db = shopDb(session.shop);
+  const edit: ChangeOrigin = { source: "EDIT", actor: sessionToken.sub };
 
   const bad = (error: string, status = 400) =>
     json<ActionResponse>({ ok: false, error }, { status });
 
-  if (intent === "create") {
-    const pincode = String(form.get("pincode") || "").trim();
-    if (!/^\d{6}$/.test(pincode)) return bad("Pincode must be exactly 6 digits.");
+  // Forms post back to the page URL, so `set` names the rule set being edited, as in the loader.
+  // It is read first, so an upload into a set that can't take it is refused before it is stored.
+  const ruleSetResult = await getRuleSet(session.shop, new URL(request.url).searchParams.get("set")).catch((e) => {
+    if (e instanceof RuleSetError) return e;
+    throw e;
+  });
+  if (ruleSetResult instanceof RuleSetError) return bad(ruleSetResult.message, 404);
+  const ruleSet = ruleSetResult;
 
-    const deliverable = toBool(form.get("deliverable") as string, true);
-    const codAvailable = toBool(form.get("codAvailable") as string, false);
+  const formResult = await readImportForm(request, session.shop, ruleSet).catch((e) => {
+    if (e instanceof RuleSetError || e instanceof ImportFormatError) return e;
+    throw e;
+  });
+  if (formResult instanceof Error) return bad(formResult.message);
+  const form = formResult;
+  const intent = String(form.get("intent") || "");
+  if (["create", "update", "bulk_edit", "delete", "bulk_upload"].includes(intent) && !isEditable(ruleSet)) {
+    return bad(`${ruleSet.status === "PUBLISHED" ? "Published" : "Archived"} rule sets can't be edited. Create a draft from it instead.`);
+  }
+  // Only drafts are edited, so nothing here reaches checkout (or the waitlist) until publishing syncs it.
 
-    const etaMinDays = toIntOrNull(form.get("etaMinDays") as string);
-    const etaMaxDays = toIntOrNull(form.get("etaMaxDays") as string);
-    const shippingFee = toIntOrNull(form.get("shippingFee") as string);
+  if (intent === "create") {
+    const matchTypeRaw = String(form.get("matchType") || "EXACT");
+    const matchType = MATCH_TYPES.find((t) => t === matchTypeRaw);
+    if (!matchType) return bad("Unknown rule type.");
 
-    // validation if provided but invalid
-    const etaMinRaw = String(form.get("etaMinDays") || "").trim();
-    const etaMaxRaw = String(form.get("etaMaxDays") || "").trim();
-    const shipRaw = String(form.get("shippingFee") || "").trim();
+    const pincode = String(form.get("pincode") || "").trim();
+    const pincodeEnd = matchType === "RANGE" ? String(form.get("pincodeEnd") || "").trim() : null;
+    const pincodeError = validateRulePincode(matchType, pincode, pincodeEnd);
+    if (pincodeError) return bad(pincodeError);
 
-    if (etaMinRaw && etaMinDays === null) return bad("ETA Min must be a non-negative integer.");
-    if (etaMaxRaw && etaMaxDays === null) return bad("ETA Max must be a non-negative integer.");
-    if (shipRaw && shippingFee === null) return bad("Shipping fee must be a non-negative integer.");
+    const origin = normalizeOriginCode(String(form.get("origin") || ""));
+    if (origin && !(await listWarehouses(session.shop)).some((w) => w.code === origin)) {
+      return bad(`Unknown warehouse code "${origin}".`);
+    }
 
-    await db.pincodeRule.upsert({
-      where: { shop_pincode: { shop: session.shop, pincode } },
-      update: { deliverable, etaMinDays, etaMaxDays, codAvailable, shippingFee },
-      create: { shop: session.shop, pincode, deliverable, etaMinDays, etaMaxDays, codAvailable, shippingFee },
+    const { terms, errors } = parseRuleTerms((field) => form.get(field) as string | null);
+    const termError = firstTermError(errors);
+    if (termError) return json<ActionResponse>({ ok: false, error: termError, fieldErrors: errors }, { status: 400 });
+
+    await db.$transaction(async (tx) => {
+      const key = { ruleSetId_origin_matchType_pincode: { ruleSetId: ruleSet.id, origin, matchType, pincode } };
+      const before = await tx.pincodeRule.findUnique({ where: key });
+      const after = await tx.pincodeRule.upsert({
+        where: key,
+        update: { pincodeEnd, ...terms },
+        create: { shop: session.shop, ruleSetId: ruleSet.id, origin, matchType, pincode, pincodeEnd, ...terms },
+      });
+      await recordRuleChanges(tx, session.shop, edit, [{ before, after }]);
     });
 
     return json<ActionResponse>({ ok: true });
   }
 
-  if (intent === "bulk_upload") {
-    const file = form.get("file");
-    if (!(file instanceof File)) return bad("Please upload a CSV file.");
-
-    const csvText = await file.text();
-    const { headers, rows } = parseCsv(csvText);
+  // Inline edit of one rule's terms; the pincode and match type identify the rule and stay fixed.
+  if (intent === "update") {
+    const id = String(form.get("id") || "").trim();
+    if (!id) return bad("Missing id");
 
-    if (!headers.map((h) => h.toLowerCase()).includes("pincode")) {
-      return bad('CSV must include a "pincode" column.');
-    }
+    const { terms, errors } = parseRuleTerms((field) => form.get(field) as string | null);
+    const termError = firstTermError(errors);
+    if (termError) return json<ActionResponse>({ ok: false, error: termError, fieldErrors: errors }, { status: 400 });
 
-    // normalize keys to be tolerant with header cases
-    const headerMap = new Map(headers.map((h) => [h.toLowerCase(), h]));
+    const updated = await db.$transaction(async (tx) => {
+      const before = await tx.pincodeRule.findFirst({ where: { id, shop: session.shop, ruleSetId: ruleSet.id } });
+      if (!before) return false;
+      const after = await tx.pincodeRule.update({ where: { id }, data: terms });
+      await recordRuleChanges(tx, session.shop, edit, [{ before, after }]);
+      return true;
+    });
+    if (!updated) return bad("This rule no longer exists.", 404);
 
-    const invalid: Array<{ row: number; reason: string; pincode?: string }> = [];
-    const ops: Prisma.PrismaPromise<unknown>[] = [];
+    return json<ActionResponse>({ ok: true });
+  }
 
-    // collect pincodes for existing check
-    const parsedPincodes = rows
-      .map((r) => String(r[headerMap.get("pincode")!] || "").trim())
-      .filter((p) => /^\d{6}$/.test(p));
+  if (intent === "preview") {
+    const pincode = String(form.get("pincode") || "").trim();
+    if (!/^\d{6}$/.test(pincode)) return bad("Pincode must be exactly 6 digits.");
 
-    const existing = await db.pincodeRule.findMany({
-      where: { shop: session.shop, pincode: { in: parsedPincodes } },
-      select: { pincode: true },
+    const result = await resolveServiceability(session.shop, pincode);
+    return json<ActionResponse>({
+      ok: true,
+      preview: {
+        pincode,
+        exists: result.exists,
+        locality: result.locality ? formatLocality(result.locality) : null,
+        source: result.source,
+        origin: result.origin?.name ?? null,
+        deliverable: result.terms?.deliverable ?? false,
+        blackout: result.blackout?.name ?? null,
+      },
     });
-    const existingSet = new Set(existing.map((e) => e.pincode));
-
-    rows.forEach((r, idx) => {
-      const rowNo = idx + 2;
+  }
 
-      const pincode = String(r[headerMap.get("pincode")!] || "").trim();
-      if (!/^\d{6}$/.test(pincode)) {
-        invalid.push({ row: rowNo, reason: "Invalid pincode (must be 6 digits).", pincode });
-        return;
-      }
+  if (intent === "bulk_upload") {
+    const upload = form.get("file");
+    if (typeof upload !== "string" || !upload) return bad("Please upload a CSV file.");
+
+    // Large files outlive the request, so the background import worker dry-runs the file and,
+    // once the merchant confirms the preview, writes it.
+    const replaceMode = toBool(form.get("replaceMode") as string, false);
+    try {
+      const job = await enqueueImport(session.shop, upload, {
+        ruleSetId: ruleSet.id,
+        replaceMode,
+        createdBy: edit.actor,
+      });
+      return json<ActionResponse>({ ok: true, jobId: job.id });
+    } catch (e) {
+      if (e instanceof ImportFormatError) return bad(e.message);
+      throw e;
+    }
+  }
 
-      const deliverable = toBool(r[headerMap.get("deliverable") ?? ""] ?? null, true);
-      const codAvailable = toBool(r[headerMap.get("codavailable") ?? ""] ?? r[headerMap.get("codAvailable") ?? ""] ?? null, false);
+  if (intent === "import_confirm" || intent === "import_cancel") {
+    const jobId = String(form.get("jobId") || "").trim();
+    if (!jobId) return bad("Missing import id");
+    const handled =
+      intent === "import_confirm" ? await confirmImport(session.shop, jobId) : await cancelImport(session.shop, jobId);
+    if (!handled) return bad("This import is no longer waiting for confirmation.");
+    return json<ActionResponse>({ ok: true });
+  }
 
-      const etaMinStr = r[headerMap.get("etamindays") ?? r["etaMinDays"] ?? ""] ?? r[headerMap.get("etaMinDays") ?? ""] ?? "";
-      const etaMaxStr = r[headerMap.get("etamaxdays") ?? r["etaMaxDays"] ?? ""] ?? r[headerMap.get("etaMaxDays") ?? ""] ?? "";
-      const shipStr = r[headerMap.get("shippingfee") ?? r["shippingFee"] ?? ""] ?? r[headerMap.get("shippingFee") ?? ""] ?? "";
+  if (intent === "cod_enforcement") {
+    const enabled = toBool(form.get("enabled") as string, false);
+    try {
+      await setCodEnforcement(admin, session.shop, enabled);
+    } catch (e) {
+      return bad(e instanceof Error ? e.message : "Could not update COD enforcement.");
+    }
+    return json<ActionResponse>({ ok: true });
+  }
 
-      const etaMinDays = toIntOrNull(String(etaMinStr || "").trim() || null);
-      const etaMaxDays = toIntOrNull(String(etaMaxStr || "").trim() || null);
-      const shippingFee = toIntOrNull(String(shipStr || "").trim() || null);
+  if (intent === "fee_charging") {
+    const enabled = toBool(form.get("enabled") as string, false);
+    try {
+      await setRuleFeeCharging(admin, session.shop, enabled);
+    } catch (e) {
+      return bad(e instanceof Error ? e.message : "Could not update shipping fee charging.");
+    }
+    return json<ActionResponse>({ ok: true });
+  }
 
-      if (String(etaMinStr || "").trim() && etaMinDays === null) {
-        invalid.push({ row: rowNo, reason: "etaMinDays must be a non-negative integer.", pincode });
-        return;
-      }
-      if (String(etaMaxStr || "").trim() && etaMaxDays === null) {
-        invalid.push({ row: rowNo, reason: "etaMaxDays must be a non-negative integer.", pincode });
-        return;
-      }
-      if (String(shipStr || "").trim() && shippingFee === null) {
-        invalid.push({ row: rowNo, reason: "shippingFee must be a non-negative integer.", pincode });
-        return;
+  if (intent === "bulk_edit") {
+    const ids = form.getAll("ids").map(String).filter(Boolean);
+    if (!ids.length) return bad("Select at least one rule.");
+    const where = { id: { in: ids }, shop: session.shop, ruleSetId: ruleSet.id };
+    const op = String(form.get("op") || "");
+
+    let data: Prisma.PincodeRuleUpdateManyMutationInput | null = null;
+    if (op !== "delete") {
+      if (op === "set_cod") {
+        data = { codAvailable: toBool(form.get("codAvailable") as string, false) };
+      } else if (op === "set_eta") {
+        const etaMinDays = toIntOrNull(form.get("etaMinDays") as string);
+        const etaMaxDays = toIntOrNull(form.get("etaMaxDays") as string);
+        if (etaMinDays === null || etaMaxDays === null) return bad("ETA Min and Max must be non-negative integers.");
+        if (etaMinDays > etaMaxDays) return bad("ETA Min must not be greater than ETA Max.");
+        data = { etaMinDays, etaMaxDays };
+      } else if (op === "set_fee") {
+        const shippingFee = toIntOrNull(form.get("shippingFee") as string);
+        if (shippingFee === null) return bad("Shipping fee must be a non-negative integer.");
+        data = { shippingFee };
+      } else if (op === "undeliverable") {
+        data = { deliverable: false };
+      } else {
+        return bad("Unknown bulk action.");
       }
+    }
 
-      ops.push(
-        db.pincodeRule.upsert({
-          where: { shop_pincode: { shop: session.shop, pincode } },
-          update: { deliverable, etaMinDays, etaMaxDays, codAvailable, shippingFee },
-          create: { shop: session.shop, pincode, deliverable, etaMinDays, etaMaxDays, codAvailable, shippingFee },
-        })
+    await db.$transaction(async (tx) => {
+      const before = await tx.pincodeRule.findMany({ where });
+      if (data) await tx.pincodeRule.updateMany({ where, data });
+      else await tx.pincodeRule.deleteMany({ where });
+      const after = data ? new Map((await tx.pincodeRule.findMany({ where })).map((r) => [r.id, r])) : null;
+      await recordRuleChanges(
+        tx,
+        session.shop,
+        { ...edit, source: "BULK_EDIT" },
+        before.map((r) => ({ before: r, after: after?.get(r.id) ?? null })),
       );
     });
 
-    // execute writes
-    if (ops.length) await db.$transaction(ops);
-
-    // compute counts
-    let inserted = 0;
-    let updated = 0;
-    parsedPincodes.forEach((p) => (existingSet.has(p) ? updated++ : inserted++));
-
-    return json<ActionResponse>({
-      ok: true,
-      inserted,
-      updated,
-      invalidCount: invalid.length,
-      invalid: invalid.slice(0, 50),
-    });
+    return json<ActionResponse>({ ok: true });
   }
 
   if (intent === "delete") {
     const id = String(form.get("id") || "").trim();
     if (!id) return bad("Missing id");
-    await db.pincodeRule.delete({ where: { id } });
+    await db.$transaction(async (tx) => {
+      const before = await tx.pincodeRule.findFirst({ where: { id, shop: session.shop, ruleSetId: ruleSet.id } });
+      if (!before) return;
+      await tx.pincodeRule.delete({ where: { id } });
+      await recordRuleChanges(tx, session.shop, edit, [{ before, after: null }]);
+    });
     return json<ActionResponse>({ ok: true });
   }
 
@@ -239,45 +419,132 @@ export const action = async ({ request }: ActionFunctionArgs) => {
    Component
 ====================== */
 export default function PincodesPage() {
-  const { rules } = useLoaderData<LoaderData>();
+  const { ruleSet, rules, page, enforceCod, chargeRuleFees, imports, warehouses } = useLoaderData<LoaderData>();
   const fetcher = useFetcher<ActionResponse>();
-
-  const error = fetcher.data && "ok" in fetcher.data && fetcher.data.ok === false ? (fetcher.data as any).error : null;
-
+  const createFetcher = useFetcher<ActionResponse>();
+  const previewFetcher = useFetcher<ActionResponse>();
+  const preview = previewFetcher.data && "preview" in previewFetcher.data ? previewFetcher.data.preview : null;
+  const previewError =
+    previewFetcher.data && previewFetcher.data.ok === false ? previewFetcher.data.error : null;
+
+  const error = fetcher.data && fetcher.data.ok === false ? fetcher.data.error : null;
+  const queuedJobId = fetcher.data && "jobId" in fetcher.data ? fetcher.data.jobId : null;
+
+  const jobsFetcher = useFetcher<{ jobs: ImportJobRow[] }>();
+  // Whichever is newer wins: the loader's list after an action revalidates, or the last poll.
+  const [jobs, setJobs] = useState(imports);
+  useEffect(() => setJobs(imports), [imports]);
   useEffect(() => {
-    // after successful bulk upload or single create/delete, reload to see fresh rules
-    if (fetcher.data && (fetcher.data as any).ok === true) {
-      // small delay to avoid flicker in embedded iframe
-      setTimeout(() => window.location.reload(), 200);
-    }
-  }, [fetcher.data]);
+    if (jobsFetcher.data) setJobs(jobsFetcher.data.jobs);
+  }, [jobsFetcher.data]);
+  const importing =
+    jobs.some((j) => j.status === "PREVIEWING" || j.status === "QUEUED" || j.status === "RUNNING") ||
+    (queuedJobId !== null && !jobs.some((j) => j.id === queuedJobId));
+
+  const createError =
+    createFetcher.data && createFetcher.data.ok === false && !createFetcher.data.fieldErrors ? createFetcher.data.error : null;
+  const createFieldErrors =
+    createFetcher.data && createFetcher.data.ok === false ? (createFetcher.data.fieldErrors ?? {}) : {};
+
+  // Actions revalidate the loader on their own; the add form only needs clearing after a save.
+  const createFormRef = useRef<HTMLFormElement>(null);
+  useEffect(() => {
+    if (createFetcher.data?.ok === true) createFormRef.current?.reset();
+  }, [createFetcher.data]);
 
-  const rows = useMemo(() => {
-    return rules.map((r) => ({
-      ...r,
-      eta: r.etaMinDays || r.etaMaxDays ? `${r.etaMinDays ?? "-"} - ${r.etaMaxDays ?? "-"}` : "-",
-      codText: r.codAvailable ? "Yes" : "No",
-      deliverText: r.deliverable ? "Yes" : "No",
-      shipText: r.shippingFee ?? "-",
-    }));
-  }, [rules]);
+  useEffect(() => {
+    if (!importing) return;
+    const timer = setInterval(() => {
+      if (jobsFetcher.state === "idle") jobsFetcher.load("/app/imports");
+    }, 2000);
+    return () => clearInterval(timer);
+  }, [importing, jobsFetcher]);
+
+  // refresh the rules once the last running import finishes so the table shows its rows
+  const revalidator = useRevalidator();
+  const wasImporting = useRef(importing);
+  useEffect(() => {
+    if (wasImporting.current && !importing) revalidator.revalidate();
+    wasImporting.current = importing;
+  }, [importing, revalidator]);
 
   return (
     <s-page heading="Pincode Rules">
+      {ruleSet.status === "ARCHIVED" ? (
+        <s-banner tone="warning">
+          <s-paragraph>
+            Viewing {ruleSet.name}, an archived version. It is read-only; roll back to it from{" "}
+            <Link to="/app/rulesets">Rule sets</Link> to make it live again.
+          </s-paragraph>
+        </s-banner>
+      ) : ruleSet.status === "PUBLISHED" ? (
+        <s-banner tone="info">
+          <s-paragraph>
+            Viewing {ruleSet.name}, the live rules. They are read-only so that every change is reviewed before it
+            reaches the storefront: create a draft from them in <Link to="/app/rulesets">Rule sets</Link>, edit it here
+            and publish it.
+          </s-paragraph>
+        </s-banner>
+      ) : (
+        <s-banner tone="info">
+          <s-paragraph>
+            Editing draft {ruleSet.name}
+            {ruleSet.publishAt ? `, scheduled to publish ${new Date(ruleSet.publishAt).toLocaleString()}` : ""}. Changes
+            here don&apos;t reach the storefront or checkout until it is published from{" "}
+            <Link to="/app/rulesets">Rule sets</Link>. Preview Rule Match checks the live rules.
+          </s-paragraph>
+        </s-banner>
+      )}
       {error ? (
         <s-banner tone="critical">
           <s-paragraph>{error}</s-paragraph>
         </s-banner>
       ) : null}
 
+      <s-section heading="Checkout Enforcement">
+        <fetcher.Form method="post">
+          <input type="hidden" name="intent" value="cod_enforcement" />
+          <input type="hidden" name="enabled" value={enforceCod ? "false" : "true"} />
+          <div style={{ display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap" }}>
+            <p style={{ margin: 0 }}>
+              Hide Cash on Delivery at checkout for pincodes without COD: <b>{enforceCod ? "On" : "Off"}</b>
+            </p>
+            <button type="submit" style={btnStyle}>
+              {enforceCod ? "Turn off" : "Turn on"}
+            </button>
+          </div>
+        </fetcher.Form>
+
+        <fetcher.Form method="post" style={{ marginTop: 12 }}>
+          <input type="hidden" name="intent" value="fee_charging" />
+          <input type="hidden" name="enabled" value={chargeRuleFees ? "false" : "true"} />
+          <div style={{ display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap" }}>
+            <p style={{ margin: 0 }}>
+              Charge rule shipping fees at checkout: <b>{chargeRuleFees ? "On" : "Off"}</b>
+            </p>
+            <button type="submit" style={btnStyle}>
+              {chargeRuleFees ? "Turn off" : "Turn on"}
+            </button>
+          </div>
+        </fetcher.Form>
+        <s-paragraph>
+          Pincodes whose rule has a shipping fee are quoted that fee (plus express, when set) instead of your shipping
+          profile rates. Pincodes without a fee keep the profile rates. Requires carrier-calculated shipping on your plan.
+        </s-paragraph>
+      </s-section>
+
       <s-section heading="Bulk Upload (CSV)">
         <div style={{ padding: 16, border: "1px solid rgba(0,0,0,.12)", borderRadius: 12 }}>
           <fetcher.Form method="post" encType="multipart/form-data">
             <input type="hidden" name="intent" value="bulk_upload" />
             <div style={{ display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap" }}>
               <input type="file" name="file" accept=".csv,text/csv" required />
+              <label style={{ display: "flex", gap: 6, alignItems: "center", fontSize: 13 }}>
+                <input type="checkbox" name="replaceMode" value="true" />
+                Replace mode: delete rules that are not in this file
+              </label>
               <button type="submit" style={btnStyle}>
-                {fetcher.state !== "idle" ? "Uploading..." : "Upload CSV"}
+                {fetcher.state !== "idle" ? "Uploading..." : importing ? "Importing..." : "Upload and preview"}
               </button>
 
               <a
@@ -289,131 +556,823 @@ export default function PincodesPage() {
               </a>
             </div>
           </fetcher.Form>
-
-          {fetcher.data && (fetcher.data as any).ok === true && (fetcher.data as any).inserted !== undefined ? (
-            <div style={{ marginTop: 10 }}>
-              <p style={{ margin: 0 }}>
-                ✅ Imported. Inserted: <b>{(fetcher.data as any).inserted}</b>, Updated:{" "}
-                <b>{(fetcher.data as any).updated}</b>, Invalid: <b>{(fetcher.data as any).invalidCount}</b>
-              </p>
-
-              {(fetcher.data as any).invalid?.length ? (
-                <div style={{ marginTop: 8 }}>
-                  <p style={{ fontWeight: 600, marginBottom: 6 }}>First invalid rows:</p>
-                  <ul style={{ margin: 0, paddingLeft: 18 }}>
-                    {(fetcher.data as any).invalid.map((x: any, i: number) => (
-                      <li key={i}>
-                        Row {x.row}: {x.reason} {x.pincode ? `(pincode: ${x.pincode})` : ""}
-                      </li>
-                    ))}
-                  </ul>
-                </div>
-              ) : null}
+          <p style={{ margin: "8px 0 0", fontSize: 12 }}>
+            Only <b>pincode</b> is required. Optional columns: matchType (exact, range, prefix), pincodeEnd, deliverable,
+            codAvailable, etaMinDays, etaMaxDays, shippingFee, expressFee, expressEtaMinDays, expressEtaMaxDays.
+            Nothing is written until you confirm the preview.
+          </p>
+
+          {jobs
+            .filter((j) => j.status === "AWAITING_CONFIRMATION" && j.preview)
+            .map((j) => (
+              <ImportPreviewPanel key={j.id} job={j} preview={j.preview!} fetcher={fetcher} />
+            ))}
+
+          {jobs.length ? (
+            <div style={{ marginTop: 12, overflowX: "auto" }}>
+              <table style={tableStyle}>
+                <thead>
+                  <tr>
+                    <th style={thStyle}>File</th>
+                    <th style={thStyle}>Status</th>
+                    <th style={thStyle}>Progress</th>
+                    <th style={thStyle}>Inserted</th>
+                    <th style={thStyle}>Updated</th>
+                    <th style={thStyle}>Deleted</th>
+                    <th style={thStyle}>Invalid</th>
+                    <th style={thStyle}>Not in directory</th>
+                  </tr>
+                </thead>
+                <tbody>
+                  {jobs.map((j) => (
+                    <tr key={j.id}>
+                      <td style={tdStyle}>
+                        {j.status === "COMPLETED" || j.status === "FAILED" ? (
+                          <Link to={`/app/activity?import=${j.id}`} style={{ textDecoration: "underline" }}>
+                            {j.fileName}
+                          </Link>
+                        ) : (
+                          j.fileName
+                        )}
+                      </td>
+                      <td style={tdStyle}>
+                        {j.status.toLowerCase().replace(/_/g, " ")}
+                        {j.failureReason ? `: ${j.failureReason}` : ""}
+                      </td>
+                      <td style={tdStyle}>{describeProgress(j)}</td>
+                      <td style={tdStyle}>{j.inserted}</td>
+                      <td style={tdStyle}>{j.updated}</td>
+                      <td style={tdStyle}>{j.replaceMode ? j.deleted : "-"}</td>
+                      <td style={tdStyle}>
+                        {j.invalidCount}
+                        {j.invalidCount ? (
+                          <>
+                            {" "}
+                            <button type="button" onClick={() => downloadErrorReport(j.id)} style={linkButtonStyle}>
+                              Error report (CSV)
+                            </button>
+                          </>
+                        ) : null}
+                      </td>
+                      <td style={tdStyle} title={j.unknown.join(", ")}>
+                        {j.unknownCount}
+                      </td>
+                    </tr>
+                  ))}
+                </tbody>
+              </table>
             </div>
           ) : null}
         </div>
       </s-section>
 
       <s-section heading="Add / Update Single Rule">
-        <fetcher.Form method="post">
+        {createError ? (
+          <s-banner tone="critical">
+            <s-paragraph>{createError}</s-paragraph>
+          </s-banner>
+        ) : null}
+        <createFetcher.Form method="post" ref={createFormRef}>
           <input type="hidden" name="intent" value="create" />
 
           <div
             style={{
               display: "grid",
-              gridTemplateColumns: "220px 140px 140px 160px 160px 160px",
+              gridTemplateColumns: "140px 180px 180px 140px 140px 160px 160px 160px",
               gap: 12,
               alignItems: "end",
             }}
           >
             <div>
-              <label htmlFor="pv_pincode" style={labelStyle}>Pincode</label>
-              <input id="pv_pincode" name="pincode" placeholder="110001" maxLength={6} inputMode="numeric" style={inputStyle} />
+              <label htmlFor="pv_match_type" style={labelStyle}>Rule type</label>
+              <select id="pv_match_type" name="matchType" style={inputStyle}>
+                <option value="EXACT">Exact</option>
+                <option value="RANGE">Range</option>
+                <option value="PREFIX">Prefix</option>
+              </select>
             </div>
 
             <div>
-              <label style={labelStyle}>Deliverable</label>
-              <select name="deliverable" style={inputStyle}>
+              <label htmlFor="pv_pincode" style={labelStyle}>Pincode / range start / prefix</label>
+              <input id="pv_pincode" name="pincode" placeholder="110001 or 4000" maxLength={6} inputMode="numeric" style={inputStyle} />
+            </div>
+
+            <div>
+              <label htmlFor="pv_pincode_end" style={labelStyle}>Range end (range only)</label>
+              <input id="pv_pincode_end" name="pincodeEnd" placeholder="560110" maxLength={6} inputMode="numeric" style={inputStyle} />
+            </div>
+
+            <div>
+              <label htmlFor="pv_deliverable" style={labelStyle}>Deliverable</label>
+              <select id="pv_deliverable" name="deliverable" style={inputStyle}>
                 <option value="true">Yes</option>
                 <option value="false">No</option>
               </select>
             </div>
 
             <div>
-              <label style={labelStyle}>COD Available</label>
-              <select name="codAvailable" style={inputStyle}>
+              <label htmlFor="pv_cod" style={labelStyle}>COD Available</label>
+              <select id="pv_cod" name="codAvailable" style={inputStyle}>
                 <option value="false">No</option>
                 <option value="true">Yes</option>
               </select>
             </div>
 
             <div>
-              <label style={labelStyle}>ETA Min (days)</label>
-              <input name="etaMinDays" placeholder="2" style={inputStyle} />
+              <label htmlFor="pv_eta_min" style={labelStyle}>ETA Min (days)</label>
+              <input id="pv_eta_min" name="etaMinDays" placeholder="2" style={inputStyle} />
+              <FieldError message={createFieldErrors.etaMinDays} />
             </div>
 
             <div>
-              <label style={labelStyle}>ETA Max (days)</label>
-              <input name="etaMaxDays" placeholder="4" style={inputStyle} />
+              <label htmlFor="pv_eta_max" style={labelStyle}>ETA Max (days)</label>
+              <input id="pv_eta_max" name="etaMaxDays" placeholder="4" style={inputStyle} />
+              <FieldError message={createFieldErrors.etaMaxDays} />
             </div>
 
             <div>
-              <label style={labelStyle}>Shipping Fee (₹)</label>
-              <input name="shippingFee" placeholder="49" style={inputStyle} />
+              <label htmlFor="pv_shipping_fee" style={labelStyle}>Shipping Fee (₹)</label>
+              <input id="pv_shipping_fee" name="shippingFee" placeholder="49" style={inputStyle} />
+              <FieldError message={createFieldErrors.shippingFee} />
             </div>
           </div>
 
+          <div style={{ display: "grid", gridTemplateColumns: "160px 140px 140px 220px", gap: 12, alignItems: "end", marginTop: 12 }}>
+            <div>
+              <label htmlFor="pv_express_fee" style={labelStyle}>Express Fee (₹, optional)</label>
+              <input id="pv_express_fee" name="expressFee" placeholder="99" style={inputStyle} />
+              <FieldError message={createFieldErrors.expressFee} />
+            </div>
+
+            <div>
+              <label htmlFor="pv_express_eta_min" style={labelStyle}>Express ETA Min</label>
+              <input id="pv_express_eta_min" name="expressEtaMinDays" placeholder="1" style={inputStyle} />
+              <FieldError message={createFieldErrors.expressEtaMinDays} />
+            </div>
+
+            <div>
+              <label htmlFor="pv_express_eta_max" style={labelStyle}>Express ETA Max</label>
+              <input id="pv_express_eta_max" name="expressEtaMaxDays" placeholder="2" style={inputStyle} />
+              <FieldError message={createFieldErrors.expressEtaMaxDays} />
+            </div>
+
+            {warehouses.length ? (
+              <div>
+                <label htmlFor="pv_origin" style={labelStyle}>Ships from</label>
+                <select id="pv_origin" name="origin" style={inputStyle}>
+                  <option value="">Any warehouse</option>
+                  {warehouses.map((w) => (
+                    <option key={w.code} value={w.code}>
+                      {w.name} ({w.code})
+                    </option>
+                  ))}
+                </select>
+              </div>
+            ) : null}
+          </div>
+
           <div style={{ marginTop: 12 }}>
             <button type="submit" style={btnStyle}>
-              {fetcher.state !== "idle" ? "Saving..." : "Save Rule"}
+              {createFetcher.state !== "idle" ? "Saving..." : "Save Rule"}
             </button>
           </div>
-        </fetcher.Form>
+        </createFetcher.Form>
+      </s-section>
+
+      <s-section heading="Preview Rule Match">
+        <previewFetcher.Form method="post">
+          <input type="hidden" name="intent" value="preview" />
+          <div style={{ display: "flex", gap: 12, alignItems: "end", flexWrap: "wrap" }}>
+            <div>
+              <label htmlFor="pv_preview_pincode" style={labelStyle}>Pincode</label>
+              <input id="pv_preview_pincode" name="pincode" placeholder="560042" maxLength={6} inputMode="numeric" style={inputStyle} />
+            </div>
+            <button type="submit" style={btnStyle}>
+              {previewFetcher.state !== "idle" ? "Checking..." : "Preview"}
+            </button>
+          </div>
+        </previewFetcher.Form>
+
+        {previewError ? <p style={{ marginTop: 10 }}>{previewError}</p> : null}
+        {preview ? (
+          <p style={{ marginTop: 10 }}>
+            {describePreview(preview)}
+          </p>
+        ) : null}
       </s-section>
 
       <s-section heading="Existing Rules">
-        <div style={{ overflowX: "auto" }}>
+        <RulesList rules={rules} page={page} fetcher={fetcher} />
+      </s-section>
+    </s-page>
+  );
+}
+
+type TermDraft = Record<keyof EditableTerms, string>;
+
+type PendingConfirm = { heading: string; message: string; action: string; destructive: boolean; run: () => void };
+
+const CONFIRM_MODAL_ID = "rule-confirm-modal";
+
+const FILTER_CHIPS = [
+  { key: "deliverable", value: "yes", label: "Deliverable" },
+  { key: "deliverable", value: "no", label: "Not deliverable" },
+  { key: "cod", value: "yes", label: "COD" },
+  { key: "cod", value: "no", label: "No COD" },
+  { key: "fee", value: "yes", label: "Has fee" },
+  { key: "fee", value: "no", label: "No fee" },
+];
+
+const COLUMNS: { label: string; sort?: SortField }[] = [
+  { label: "Pincode", sort: "pincode" },
+  { label: "Type" },
+  { label: "Deliverable", sort: "deliverable" },
+  { label: "ETA (Min-Max)", sort: "etaMinDays" },
+  { label: "COD", sort: "codAvailable" },
+  { label: "Shipping (₹)", sort: "shippingFee" },
+  { label: "Express (₹)" },
+  { label: "Action" },
+];
+
+// Search, filters, sort and cursor all live in the URL so the loader can page on the server.
+function RulesList({
+  rules,
+  page,
+  fetcher,
+}: {
+  rules: RuleRow[];
+  page: PageInfo;
+  fetcher: ReturnType<typeof useFetcher<ActionResponse>>;
+}) {
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [selected, setSelected] = useState<Set<string>>(new Set());
+  const [bulkOp, setBulkOp] = useState("set_cod");
+  const modalRef = useRef<HTMLElementTagNameMap["s-modal"]>(null);
+  const [pending, setPending] = useState<PendingConfirm | null>(null);
+
+  const askConfirm = (confirm: PendingConfirm) => {
+    setPending(confirm);
+    modalRef.current?.showOverlay();
+  };
+
+  // A new page or a finished bulk edit replaces the rows, so drop selections that no longer show.
+  useEffect(() => {
+    setSelected(new Set());
+  }, [rules]);
+
+  // Anything but a page change starts over from the first page.
+  const updateParams = (changes: Record<string, string | null>) => {
+    const next = new URLSearchParams(searchParams);
+    for (const [key, value] of Object.entries(changes)) {
+      if (value) next.set(key, value);
+      else next.delete(key);
+    }
+    if (!("after" in changes) && !("before" in changes)) {
+      next.delete("after");
+      next.delete("before");
+    }
+    setSearchParams(next);
+  };
+
+  const applySearch = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = new FormData(e.currentTarget);
+    updateParams({
+      q: String(form.get("q") || "").trim(),
+      etaMin: String(form.get("etaMin") || ""),
+      etaMax: String(form.get("etaMax") || ""),
+    });
+  };
+
+  const sortBy = (field: SortField) => {
+    const dir = page.sort === field ? (page.dir === "asc" ? "desc" : "asc") : "asc";
+    updateParams({ sort: field, dir });
+  };
+
+  const exportView = (format: string) => {
+    const params = new URLSearchParams(searchParams);
+    ["after", "before", "sort", "dir"].forEach((key) => params.delete(key));
+    params.set("format", format);
+    downloadFile(`/app/export?${params}`, `pincode-rules.${format}`);
+  };
+
+  const toggle = (id: string) => {
+    const next = new Set(selected);
+    if (next.has(id)) next.delete(id);
+    else next.add(id);
+    setSelected(next);
+  };
+  const allSelected = rules.length > 0 && rules.every((r) => selected.has(r.id));
+
+  const confirmBulk = (e: React.FormEvent<HTMLFormElement>) => {
+    if (bulkOp !== "delete") return;
+    e.preventDefault();
+    const form = e.currentTarget;
+    askConfirm({
+      heading: "Delete rules",
+      message: `Delete ${selected.size} selected rule${selected.size === 1 ? "" : "s"}? Checkout stops using them right away.`,
+      action: "Delete",
+      destructive: true,
+      run: () => fetcher.submit(form),
+    });
+  };
+
+  return (
+    <>
+      <form onSubmit={applySearch} style={{ display: "flex", gap: 12, alignItems: "flex-end", flexWrap: "wrap" }}>
+        <div style={{ minWidth: 260 }}>
+          <label htmlFor="rl_search" style={labelStyle}>Search pincodes</label>
+          <input
+            id="rl_search" name="q"
+            defaultValue={searchParams.get("q") ?? ""}
+            placeholder="110001, 1100 or 110001, 110002"
+            style={inputStyle}
+          />
+        </div>
+        <div style={{ width: 110 }}>
+          <label htmlFor="rl_eta_min" style={labelStyle}>ETA from (days)</label>
+          <input id="rl_eta_min" name="etaMin" defaultValue={searchParams.get("etaMin") ?? ""} inputMode="numeric" style={inputStyle} />
+        </div>
+        <div style={{ width: 110 }}>
+          <label htmlFor="rl_eta_max" style={labelStyle}>ETA up to (days)</label>
+          <input id="rl_eta_max" name="etaMax" defaultValue={searchParams.get("etaMax") ?? ""} inputMode="numeric" style={inputStyle} />
+        </div>
+        <button type="submit" style={btnStyle}>Search</button>
+        <span style={{ fontSize: 12 }}>Export this view:</span>
+        {["csv", "xlsx", "json"].map((format) => (
+          <button key={format} type="button" style={linkButtonStyle} onClick={() => exportView(format)}>
+            {format.toUpperCase()}
+          </button>
+        ))}
+      </form>
+
+      <div style={{ display: "flex", gap: 8, flexWrap: "wrap", marginTop: 12 }}>
+        {FILTER_CHIPS.map((chip) => {
+          const active = searchParams.get(chip.key) === chip.value;
+          return (
+            <button
+              key={`${chip.key}-${chip.value}`}
+              type="button"
+              style={active ? chipActiveStyle : chipStyle}
+              onClick={() => updateParams({ [chip.key]: active ? null : chip.value })}
+            >
+              {chip.label}
+            </button>
+          );
+        })}
+      </div>
+
+      {selected.size ? (
+        <fetcher.Form
+          method="post"
+          onSubmit={confirmBulk}
+          style={{ display: "flex", gap: 12, alignItems: "flex-end", flexWrap: "wrap", marginTop: 12 }}
+        >
+          <input type="hidden" name="intent" value="bulk_edit" />
+          {[...selected].map((id) => (
+            <input key={id} type="hidden" name="ids" value={id} />
+          ))}
+          <p style={{ margin: 0, alignSelf: "center" }}>
+            <b>{selected.size}</b> selected
+          </p>
+          <div>
+            <label htmlFor="bulk_op" style={labelStyle}>Action</label>
+            <select id="bulk_op" name="op" value={bulkOp} onChange={(e) => setBulkOp(e.target.value)} style={inputStyle}>
+              <option value="set_cod">Set COD</option>
+              <option value="set_eta">Set ETA</option>
+              <option value="set_fee">Set shipping fee</option>
+              <option value="undeliverable">Mark not deliverable</option>
+              <option value="delete">Delete</option>
+            </select>
+          </div>
+          {bulkOp === "set_cod" ? (
+            <div>
+              <label htmlFor="bulk_cod" style={labelStyle}>COD</label>
+              <select id="bulk_cod" name="codAvailable" defaultValue="true" style={inputStyle}>
+                <option value="true">Yes</option>
+                <option value="false">No</option>
+              </select>
+            </div>
+          ) : null}
+          {bulkOp === "set_eta" ? (
+            <>
+              <div style={{ width: 100 }}>
+                <label htmlFor="bulk_eta_min" style={labelStyle}>ETA Min</label>
+                <input id="bulk_eta_min" name="etaMinDays" inputMode="numeric" required style={inputStyle} />
+              </div>
+              <div style={{ width: 100 }}>
+                <label htmlFor="bulk_eta_max" style={labelStyle}>ETA Max</label>
+                <input id="bulk_eta_max" name="etaMaxDays" inputMode="numeric" required style={inputStyle} />
+              </div>
+            </>
+          ) : null}
+          {bulkOp === "set_fee" ? (
+            <div style={{ width: 120 }}>
+              <label htmlFor="bulk_fee" style={labelStyle}>Shipping (₹)</label>
+              <input id="bulk_fee" name="shippingFee" inputMode="numeric" required style={inputStyle} />
+            </div>
+          ) : null}
+          <button type="submit" style={bulkOp === "delete" ? btnDangerStyle : btnStyle}>
+            {fetcher.state !== "idle" ? "Applying..." : "Apply"}
+          </button>
+          <button type="button" style={linkButtonStyle} onClick={() => setSelected(new Set())}>
+            Clear selection
+          </button>
+        </fetcher.Form>
+      ) : null}
+
+      <div style={{ overflowX: "auto", marginTop: 12 }}>
+        <table style={tableStyle}>
+          <thead>
+            <tr>
+              <th style={thStyle}>
+                <input
+                  type="checkbox"
+                  aria-label="Select all rules on this page"
+                  checked={allSelected}
+                  onChange={() => setSelected(allSelected ? new Set() : new Set(rules.map((r) => r.id)))}
+                />
+              </th>
+              {COLUMNS.map((col) => (
+                <th key={col.label} style={thStyle}>
+                  {col.sort ? (
+                    <button type="button" style={sortButtonStyle} onClick={() => sortBy(col.sort!)}>
+                      {col.label}
+                      {page.sort === col.sort ? (page.dir === "asc" ? " ▲" : " ▼") : ""}
+                    </button>
+                  ) : (
+                    col.label
+                  )}
+                </th>
+              ))}
+            </tr>
+          </thead>
+          <tbody>
+            {rules.map((r) => (
+              <RuleRowItem
+                key={r.id}
+                rule={r}
+                selected={selected.has(r.id)}
+                onToggle={() => toggle(r.id)}
+                askConfirm={askConfirm}
+              />
+            ))}
+            {rules.length === 0 ? (
+              <tr>
+                <td style={tdStyle} colSpan={9}>
+                  {searchParams.toString() ? "No rules match this search." : "No rules found yet."}
+                </td>
+              </tr>
+            ) : null}
+          </tbody>
+        </table>
+      </div>
+
+      <div style={{ display: "flex", gap: 12, alignItems: "center", marginTop: 12 }}>
+        <button
+          type="button"
+          style={btnStyle}
+          disabled={!page.hasPrev}
+          onClick={() => updateParams({ before: page.firstId, after: null })}
+        >
+          Previous
+        </button>
+        <button
+          type="button"
+          style={btnStyle}
+          disabled={!page.hasNext}
+          onClick={() => updateParams({ after: page.lastId, before: null })}
+        >
+          Next
+        </button>
+        <span style={{ fontSize: 12 }}>
+          {page.total} rule{page.total === 1 ? "" : "s"} match
+        </span>
+      </div>
+
+      <s-modal id={CONFIRM_MODAL_ID} ref={modalRef} heading={pending?.heading ?? ""} onAfterHide={() => setPending(null)}>
+        <s-paragraph>{pending?.message}</s-paragraph>
+        <s-button
+          slot="primary-action"
+          variant="primary"
+          tone={pending?.destructive ? "critical" : "auto"}
+          onClick={() => {
+            pending?.run();
+            modalRef.current?.hideOverlay();
+          }}
+        >
+          {pending?.action}
+        </s-button>
+        <s-button slot="secondary-actions" commandFor={CONFIRM_MODAL_ID} command="--hide">
+          Cancel
+        </s-button>
+      </s-modal>
+    </>
+  );
+}
+
+const draftOf = (rule: RuleRow): TermDraft => ({
+  deliverable: String(rule.deliverable),
+  codAvailable: String(rule.codAvailable),
+  etaMinDays: rule.etaMinDays?.toString() ?? "",
+  etaMaxDays: rule.etaMaxDays?.toString() ?? "",
+  shippingFee: rule.shippingFee?.toString() ?? "",
+  expressFee: rule.expressFee?.toString() ?? "",
+  expressEtaMinDays: rule.expressEtaMinDays?.toString() ?? "",
+  expressEtaMaxDays: rule.expressEtaMaxDays?.toString() ?? "",
+});
+
+const formatEta = (min: number | null, max: number | null) => (min || max ? `${min ?? "-"} - ${max ?? "-"}` : "-");
+
+// One table row with its own fetcher, so saves and deletes show immediately (optimistically)
+// and a rejected save reopens the editor with the server's field errors.
+function RuleRowItem({
+  rule,
+  selected,
+  onToggle,
+  askConfirm,
+}: {
+  rule: RuleRow;
+  selected: boolean;
+  onToggle: () => void;
+  askConfirm: (confirm: PendingConfirm) => void;
+}) {
+  const fetcher = useFetcher<ActionResponse>();
+  const [draft, setDraft] = useState<TermDraft | null>(null); // null while not editing
+  const [errors, setErrors] = useState<TermErrors>({});
+  const submitted = useRef<TermDraft | null>(null);
+
+  useEffect(() => {
+    const data = fetcher.data;
+    if (data?.ok === false && data.fieldErrors && submitted.current) {
+      setDraft(submitted.current);
+      setErrors(data.fieldErrors);
+    }
+  }, [fetcher.data]);
+
+  // While a request is in flight the row shows its outcome; the loader catches up when it finishes.
+  const pendingIntent = fetcher.formData?.get("intent");
+  if (pendingIntent === "delete") return null;
+  const shown =
+    pendingIntent === "update"
+      ? { ...rule, ...parseRuleTerms((field) => fetcher.formData!.get(field) as string | null).terms }
+      : rule;
+  const rowError = !draft && fetcher.data?.ok === false ? fetcher.data.error : null;
+
+  const edit = (field: keyof TermDraft, value: string) => draft && setDraft({ ...draft, [field]: value });
+
+  const save = () => {
+    if (!draft) return;
+    const { errors: found } = parseRuleTerms((field) => draft[field as keyof TermDraft] ?? null);
+    setErrors(found);
+    if (firstTermError(found)) return;
+    askConfirm({
+      heading: "Save rule",
+      message: `Save the new terms for ${rule.label}? Checkout uses them right away.`,
+      action: "Save",
+      destructive: false,
+      run: () => {
+        submitted.current = draft;
+        fetcher.submit({ intent: "update", id: rule.id, ...draft }, { method: "post" });
+        setDraft(null);
+      },
+    });
+  };
+
+  const remove = () =>
+    askConfirm({
+      heading: "Delete rule",
+      message: `Delete the rule for ${rule.label}? Checkout stops using it right away.`,
+      action: "Delete",
+      destructive: true,
+      run: () => fetcher.submit({ intent: "delete", id: rule.id }, { method: "post" }),
+    });
+
+  const input = (field: keyof TermDraft, label: string) =>
+    draft ? (
+      <div>
+        <input
+          aria-label={label}
+          aria-invalid={Boolean(errors[field])}
+          value={draft[field]}
+          onChange={(e) => edit(field, e.target.value)}
+          inputMode="numeric"
+          style={cellInputStyle}
+        />
+        <FieldError message={errors[field]} />
+      </div>
+    ) : null;
+
+  const yesNo = (field: "deliverable" | "codAvailable", label: string) =>
+    draft ? (
+      <select aria-label={label} value={draft[field]} onChange={(e) => edit(field, e.target.value)} style={cellInputStyle}>
+        <option value="true">Yes</option>
+        <option value="false">No</option>
+      </select>
+    ) : null;
+
+  return (
+    <tr style={pendingIntent ? { opacity: 0.6 } : undefined}>
+      <td style={tdStyle}>
+        <input type="checkbox" aria-label={`Select ${rule.label}`} checked={selected} onChange={onToggle} />
+      </td>
+      <td style={tdStyle}>{rule.label}</td>
+      <td style={tdStyle}>{rule.matchType.toLowerCase()}</td>
+      {draft ? (
+        <>
+          <td style={tdStyle}>{yesNo("deliverable", "Deliverable")}</td>
+          <td style={tdStyle}>
+            <div style={{ display: "flex", gap: 4 }}>
+              {input("etaMinDays", "ETA Min")}
+              {input("etaMaxDays", "ETA Max")}
+            </div>
+          </td>
+          <td style={tdStyle}>{yesNo("codAvailable", "COD")}</td>
+          <td style={tdStyle}>{input("shippingFee", "Shipping fee")}</td>
+          <td style={tdStyle}>
+            {input("expressFee", "Express fee")}
+            <div style={{ display: "flex", gap: 4, marginTop: 4 }}>
+              {input("expressEtaMinDays", "Express ETA Min")}
+              {input("expressEtaMaxDays", "Express ETA Max")}
+            </div>
+          </td>
+          <td style={tdStyle}>
+            <div style={{ display: "flex", gap: 8 }}>
+              <button type="button" style={btnStyle} onClick={save}>
+                Save
+              </button>
+              <button
+                type="button"
+                style={linkButtonStyle}
+                onClick={() => {
+                  setDraft(null);
+                  setErrors({});
+                }}
+              >
+                Cancel
+              </button>
+            </div>
+          </td>
+        </>
+      ) : (
+        <>
+          <td style={tdStyle}>{shown.deliverable ? "Yes" : "No"}</td>
+          <td style={tdStyle}>{formatEta(shown.etaMinDays, shown.etaMaxDays)}</td>
+          <td style={tdStyle}>{shown.codAvailable ? "Yes" : "No"}</td>
+          <td style={tdStyle}>{shown.shippingFee ?? "-"}</td>
+          <td style={tdStyle}>{shown.expressFee ?? "-"}</td>
+          <td style={tdStyle}>
+            <div style={{ display: "flex", gap: 8 }}>
+              <button
+                type="button"
+                style={btnStyle}
+                disabled={Boolean(pendingIntent)}
+                onClick={() => {
+                  setDraft(draftOf(rule));
+                  setErrors({});
+                }}
+              >
+                Edit
+              </button>
+              <button type="button" style={btnDangerStyle} disabled={Boolean(pendingIntent)} onClick={remove}>
+                Delete
+              </button>
+            </div>
+            {rowError ? <FieldError message={rowError} /> : null}
+          </td>
+        </>
+      )}
+    </tr>
+  );
+}
+
+function FieldError({ message }: { message?: string }) {
+  return message ? <p style={fieldErrorStyle}>{message}</p> : null;
+}
+
+function ImportPreviewPanel({
+  job,
+  preview,
+  fetcher,
+}: {
+  job: ImportJobRow;
+  preview: ImportPreview;
+  fetcher: ReturnType<typeof useFetcher<ActionResponse>>;
+}) {
+  const { samples } = preview;
+  const more = (shown: number, total: number) => (total > shown ? ` (showing ${shown} of ${total})` : "");
+
+  return (
+    <div style={{ marginTop: 12, padding: 12, border: "1px solid rgba(0,0,0,.12)", borderRadius: 10 }}>
+      <p style={{ margin: 0, fontWeight: 600 }}>Preview of {job.fileName}</p>
+      <p style={{ margin: "6px 0 0" }}>
+        Add: <b>{preview.added}</b>, Change: <b>{preview.changed}</b>, Unchanged: <b>{preview.unchanged}</b>, Invalid:{" "}
+        <b>{preview.invalid}</b>
+        {job.replaceMode ? (
+          <>
+            , Delete: <b>{preview.removed}</b>
+          </>
+        ) : null}
+      </p>
+
+      {samples.changed.length ? (
+        <div style={{ marginTop: 8 }}>
+          <p style={{ fontWeight: 600, marginBottom: 6 }}>
+            Changes{more(samples.changed.length, preview.changed)}:
+          </p>
           <table style={tableStyle}>
             <thead>
               <tr>
                 <th style={thStyle}>Pincode</th>
-                <th style={thStyle}>Deliverable</th>
-                <th style={thStyle}>ETA (Min-Max)</th>
-                <th style={thStyle}>COD</th>
-                <th style={thStyle}>Shipping (₹)</th>
-                <th style={thStyle}>Action</th>
+                <th style={thStyle}>Field</th>
+                <th style={thStyle}>Before</th>
+                <th style={thStyle}>After</th>
               </tr>
             </thead>
             <tbody>
-              {rows.map((r) => (
-                <tr key={r.id}>
-                  <td style={tdStyle}>{r.pincode}</td>
-                  <td style={tdStyle}>{r.deliverText}</td>
-                  <td style={tdStyle}>{r.eta}</td>
-                  <td style={tdStyle}>{r.codText}</td>
-                  <td style={tdStyle}>{r.shipText}</td>
-                  <td style={tdStyle}>
-                    <fetcher.Form method="post">
-                      <input type="hidden" name="intent" value="delete" />
-                      <input type="hidden" name="id" value={r.id} />
-                      <button type="submit" style={btnDangerStyle}>Delete</button>
-                    </fetcher.Form>
-                  </td>
-                </tr>
-              ))}
-              {rows.length === 0 ? (
-                <tr>
-                  <td style={tdStyle} colSpan={6}>No rules found yet.</td>
-                </tr>
-              ) : null}
+              {samples.changed.flatMap((c) =>
+                c.changes.map((f) => (
+                  <tr key={`${c.label}/${f.field}`}>
+                    <td style={tdStyle}>{c.label}</td>
+                    <td style={tdStyle}>{f.field}</td>
+                    <td style={tdStyle}>{String(f.before ?? "-")}</td>
+                    <td style={tdStyle}>{String(f.after ?? "-")}</td>
+                  </tr>
+                )),
+              )}
             </tbody>
           </table>
         </div>
-      </s-section>
-    </s-page>
+      ) : null}
+
+      {samples.added.length ? (
+        <p style={{ marginTop: 8 }}>
+          <b>New{more(samples.added.length, preview.added)}:</b> {samples.added.join(", ")}
+        </p>
+      ) : null}
+
+      {samples.removed.length ? (
+        <p style={{ marginTop: 8 }}>
+          <b>Deleted by replace mode{more(samples.removed.length, preview.removed)}:</b> {samples.removed.join(", ")}
+        </p>
+      ) : null}
+
+      {samples.invalid.length ? (
+        <div style={{ marginTop: 8 }}>
+          <p style={{ fontWeight: 600, marginBottom: 6 }}>
+            Invalid rows, skipped on import{more(samples.invalid.length, preview.invalid)}:
+          </p>
+          <ul style={{ margin: 0, paddingLeft: 18 }}>
+            {samples.invalid.map((x) => (
+              <li key={x.row}>
+                Row {x.row}: {x.reason} {x.pincode ? `(pincode: ${x.pincode})` : ""}
+              </li>
+            ))}
+          </ul>
+        </div>
+      ) : null}
+
+      <div style={{ display: "flex", gap: 8, marginTop: 12 }}>
+        <fetcher.Form method="post">
+          <input type="hidden" name="intent" value="import_confirm" />
+          <input type="hidden" name="jobId" value={job.id} />
+          <button type="submit" style={btnStyle}>Confirm import</button>
+        </fetcher.Form>
+        <fetcher.Form method="post">
+          <input type="hidden" name="intent" value="import_cancel" />
+          <input type="hidden" name="jobId" value={job.id} />
+          <button type="submit" style={btnDangerStyle}>Cancel</button>
+        </fetcher.Form>
+      </div>
+    </div>
   );
 }
 
+function describeProgress(job: ImportJobRow) {
+  if (job.status === "PREVIEWING") return "Checking file...";
+  if (job.status === "AWAITING_CONFIRMATION") return `${job.totalRows ?? 0} rows, waiting for confirmation`;
+  if (job.status === "CANCELLED") return "-";
+  if (job.status === "QUEUED") return "Waiting";
+  if (!job.totalRows) return `${job.processedRows} rows`;
+  const pct = Math.floor((job.processedRows / job.totalRows) * 100);
+  return `${job.processedRows} / ${job.totalRows} rows (${pct}%)`;
+}
+
+function downloadErrorReport(jobId: string) {
+  return downloadFile(`/app/imports/${jobId}/errors`, "pincode-import-errors.csv");
+}
+
+function describePreview(p: PreviewResponse["preview"]) {
+  if (!p.exists) return `${p.pincode} is not in the India Post directory and will be rejected.`;
+  const where = p.locality ? ` (${p.locality})` : "";
+  if (!p.source) return `${p.pincode}${where} matches no rule and will be reported as not deliverable.`;
+
+  const rule = p.source.level === "pincode" ? `${p.source.matchedBy} pincode rule` : `${p.source.level} rule`;
+  const answer = `${p.pincode}${where} is answered by the ${rule} ${p.source.label}: ${p.deliverable ? "deliverable" : "not deliverable"}.`;
+  const shipped = p.origin ? `${answer} Ships from ${p.origin}.` : answer;
+  return p.blackout ? `${shipped} The blackout window "${p.blackout}" is in force.` : shipped;
+}
+
 /* ======================
    Styles
 ====================== */
@@ -436,6 +1395,16 @@ const btnStyle: React.CSSProperties = {
   cursor: "pointer",
 };
 
+const linkButtonStyle: React.CSSProperties = {
+  padding: 0,
+  border: "none",
+  background: "none",
+  textDecoration: "underline",
+  cursor: "pointer",
+  font: "inherit",
+  fontWeight: 400,
+};
+
 const btnDangerStyle: React.CSSProperties = {
   padding: "8px 12px",
   borderRadius: 10,
@@ -445,6 +1414,34 @@ const btnDangerStyle: React.CSSProperties = {
   cursor: "pointer",
 };
 
+const cellInputStyle: React.CSSProperties = {
+  width: 64,
+  padding: "6px 8px",
+  borderRadius: 8,
+  border: "1px solid rgba(0,0,0,.2)",
+};
+
+const fieldErrorStyle: React.CSSProperties = { margin: "4px 0 0", fontSize: 12, color: "#b42318" };
+
+const chipStyle: React.CSSProperties = {
+  padding: "4px 10px",
+  borderRadius: 999,
+  border: "1px solid rgba(0,0,0,.2)",
+  background: "white",
+  cursor: "pointer",
+  fontSize: 12,
+};
+
+const chipActiveStyle: React.CSSProperties = { ...chipStyle, background: "black", color: "white", borderColor: "black" };
+
+const sortButtonStyle: React.CSSProperties = {
+  padding: 0,
+  border: "none",
+  background: "none",
+  font: "inherit",
+  cursor: "pointer",
+};
+
 const tableStyle: React.CSSProperties = { width: "100%", borderCollapse: "collapse" };
 
 const thStyle: React.CSSProperties = {
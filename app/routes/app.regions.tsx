@@ -0,0 +1,369 @@
+import type { RegionScope } from "@prisma/client";
+import { useEffect } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { useFetcher, useLoaderData } from "react-router";
+import { json } from "@remix-run/node";
+
+import { authenticate } from "../shopify.server";
+import { shopDb } from "../models/shopDb.server";
+import { canonicalRegion, listRegions } from "../models/pincodeDirectory.server";
+import { formatRegion } from "../models/regionRule.server";
+import { trySyncCheckoutRules } from "../models/checkoutSync.server";
+import { tryQueueWaitlist } from "../models/waitlist.server";
+import { toBool, toIntOrNull } from "../utils/formValues";
+
+/* ======================
+   Types
+====================== */
+type RegionRow = {
+  id: string;
+  scope: RegionScope;
+  label: string;
+  deliverable: boolean;
+  etaMinDays: number | null;
+  etaMaxDays: number | null;
+  codAvailable: boolean;
+  shippingFee: number | null;
+  expressFee: number | null;
+  expressEtaMinDays: number | null;
+  expressEtaMaxDays: number | null;
+};
+
+type LoaderData = {
+  rules: RegionRow[];
+  states: string[];
+  districts: Array<{ state: string; district: string }>;
+};
+
+type ActionResponse = { ok: true } | { ok: false; error: string };
+
+const SCOPES: RegionScope[] = ["SHOP", "STATE", "DISTRICT"];
+const SCOPE_ORDER: Record<RegionScope, number> = { SHOP: 0, STATE: 1, DISTRICT: 2 };
+
+/* ======================
+   Loader
+====================== */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const db = shopDb(session.shop);
+
+  const [rules, regions] = await Promise.all([
+    db.regionRule.findMany({
+      where: { shop: session.shop },
+      orderBy: [{ state: "asc" }, { district: "asc" }],
+    }),
+    listRegions(),
+  ]);
+
+  return json<LoaderData>({
+    rules: rules
+      .sort((a, b) => SCOPE_ORDER[a.scope] - SCOPE_ORDER[b.scope])
+      .map((r) => ({
+        id: r.id,
+        scope: r.scope,
+        label: formatRegion(r),
+        deliverable: r.deliverable,
+        etaMinDays: r.etaMinDays,
+        etaMaxDays: r.etaMaxDays,
+        codAvailable: r.codAvailable,
+        shippingFee: r.shippingFee,
+        expressFee: r.expressFee,
+        expressEtaMinDays: r.expressEtaMinDays,
+        expressEtaMaxDays: r.expressEtaMaxDays,
+      })),
+    states: regions.states,
+    districts: regions.districts,
+  });
+};
+
+/* ======================
+   Action
+====================== */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session, admin } = await authenticate.admin(request);
+  const db = shopDb(session.shop);
+  const form = await request.formData();
+  const intent = String(form.get("intent") || "");
+
+  const bad = (error: string, status = 400) =>
+    json<ActionResponse>({ ok: false, error }, { status });
+
+  if (intent === "create") {
+    const scope = SCOPES.find((s) => s === String(form.get("scope") || ""));
+    if (!scope) return bad("Unknown rule level.");
+
+    const stateRaw = scope === "SHOP" ? "" : String(form.get("state") || "").trim();
+    const districtRaw = scope === "DISTRICT" ? String(form.get("district") || "").trim() : "";
+    if (scope !== "SHOP" && !stateRaw) return bad("State is required.");
+    if (scope === "DISTRICT" && !districtRaw) return bad("District is required.");
+
+    // Store the directory's spelling so "kerala" and "Kerala" can't become two rules.
+    const { state, district } = await canonicalRegion(stateRaw, districtRaw);
+
+    const deliverable = toBool(form.get("deliverable") as string, true);
+    const codAvailable = toBool(form.get("codAvailable") as string, false);
+
+    const etaMinDays = toIntOrNull(form.get("etaMinDays") as string);
+    const etaMaxDays = toIntOrNull(form.get("etaMaxDays") as string);
+    const shippingFee = toIntOrNull(form.get("shippingFee") as string);
+
+    if (String(form.get("etaMinDays") || "").trim() && etaMinDays === null) return bad("ETA Min must be a non-negative integer.");
+    if (String(form.get("etaMaxDays") || "").trim() && etaMaxDays === null) return bad("ETA Max must be a non-negative integer.");
+    if (String(form.get("shippingFee") || "").trim() && shippingFee === null) return bad("Shipping fee must be a non-negative integer.");
+
+    const expressFee = toIntOrNull(form.get("expressFee") as string);
+    const expressEtaMinDays = toIntOrNull(form.get("expressEtaMinDays") as string);
+    const expressEtaMaxDays = toIntOrNull(form.get("expressEtaMaxDays") as string);
+
+    if (String(form.get("expressFee") || "").trim() && expressFee === null) return bad("Express fee must be a non-negative integer.");
+    if (String(form.get("expressEtaMinDays") || "").trim() && expressEtaMinDays === null) return bad("Express ETA Min must be a non-negative integer.");
+    if (String(form.get("expressEtaMaxDays") || "").trim() && expressEtaMaxDays === null) return bad("Express ETA Max must be a non-negative integer.");
+    if (expressFee !== null && shippingFee === null) return bad("Set a standard shipping fee before adding an express fee.");
+
+    const terms = { deliverable, etaMinDays, etaMaxDays, codAvailable, shippingFee, expressFee, expressEtaMinDays, expressEtaMaxDays };
+    await db.regionRule.upsert({
+      where: { shop_scope_state_district: { shop: session.shop, scope, state, district } },
+      update: terms,
+      create: { shop: session.shop, scope, state, district, ...terms },
+    });
+
+    await trySyncCheckoutRules(admin, session.shop);
+    if (deliverable) await tryQueueWaitlist(session.shop);
+    return json<ActionResponse>({ ok: true });
+  }
+
+  if (intent === "delete") {
+    const id = String(form.get("id") || "").trim();
+    if (!id) return bad("Missing id");
+    await db.regionRule.deleteMany({ where: { id, shop: session.shop } });
+    await trySyncCheckoutRules(admin, session.shop);
+    return json<ActionResponse>({ ok: true });
+  }
+
+  return bad("Unknown intent");
+};
+
+/* ======================
+   Component
+====================== */
+export default function RegionsPage() {
+  const { rules, states, districts } = useLoaderData<LoaderData>();
+  const fetcher = useFetcher<ActionResponse>();
+
+  const error = fetcher.data && fetcher.data.ok === false ? fetcher.data.error : null;
+
+  useEffect(() => {
+    if (fetcher.data?.ok === true) {
+      setTimeout(() => window.location.reload(), 200);
+    }
+  }, [fetcher.data]);
+
+  return (
+    <s-page heading="Region Rules">
+      {error ? (
+        <s-banner tone="critical">
+          <s-paragraph>{error}</s-paragraph>
+        </s-banner>
+      ) : null}
+
+      <s-section heading="How rules cascade">
+        <s-paragraph>
+          A pincode is answered by its own pincode rule (exact, range or prefix) first, then its district rule,
+          then its state rule, and finally the shop default. Districts and states come from the India Post directory.
+        </s-paragraph>
+      </s-section>
+
+      <s-section heading="Add / Update Region Rule">
+        <fetcher.Form method="post">
+          <input type="hidden" name="intent" value="create" />
+
+          <div
+            style={{
+              display: "grid",
+              gridTemplateColumns: "160px 200px 200px 140px 140px 140px 140px 160px",
+              gap: 12,
+              alignItems: "end",
+            }}
+          >
+            <div>
+              <label htmlFor="rr_scope" style={labelStyle}>Level</label>
+              <select id="rr_scope" name="scope" style={inputStyle}>
+                <option value="STATE">State</option>
+                <option value="DISTRICT">District</option>
+                <option value="SHOP">Shop default</option>
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="rr_state" style={labelStyle}>State</label>
+              <input id="rr_state" name="state" list="rr_states" placeholder="Kerala" style={inputStyle} />
+              <datalist id="rr_states">
+                {states.map((s) => (
+                  <option key={s} value={s} />
+                ))}
+              </datalist>
+            </div>
+
+            <div>
+              <label htmlFor="rr_district" style={labelStyle}>District (district only)</label>
+              <input id="rr_district" name="district" list="rr_districts" placeholder="Ernakulam" style={inputStyle} />
+              <datalist id="rr_districts">
+                {districts.map((d) => (
+                  <option key={`${d.state}/${d.district}`} value={d.district}>
+                    {d.state}
+                  </option>
+                ))}
+              </datalist>
+            </div>
+
+            <div>
+              <label htmlFor="rr_deliverable" style={labelStyle}>Deliverable</label>
+              <select id="rr_deliverable" name="deliverable" style={inputStyle}>
+                <option value="true">Yes</option>
+                <option value="false">No</option>
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="rr_cod" style={labelStyle}>COD Available</label>
+              <select id="rr_cod" name="codAvailable" style={inputStyle}>
+                <option value="false">No</option>
+                <option value="true">Yes</option>
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="rr_eta_min" style={labelStyle}>ETA Min (days)</label>
+              <input id="rr_eta_min" name="etaMinDays" placeholder="5" style={inputStyle} />
+            </div>
+
+            <div>
+              <label htmlFor="rr_eta_max" style={labelStyle}>ETA Max (days)</label>
+              <input id="rr_eta_max" name="etaMaxDays" placeholder="7" style={inputStyle} />
+            </div>
+
+            <div>
+              <label htmlFor="rr_shipping_fee" style={labelStyle}>Shipping Fee (₹)</label>
+              <input id="rr_shipping_fee" name="shippingFee" placeholder="79" style={inputStyle} />
+            </div>
+          </div>
+
+          <div style={{ display: "grid", gridTemplateColumns: "160px 140px 140px", gap: 12, alignItems: "end", marginTop: 12 }}>
+            <div>
+              <label htmlFor="rr_express_fee" style={labelStyle}>Express Fee (₹, optional)</label>
+              <input id="rr_express_fee" name="expressFee" placeholder="149" style={inputStyle} />
+            </div>
+
+            <div>
+              <label htmlFor="rr_express_eta_min" style={labelStyle}>Express ETA Min</label>
+              <input id="rr_express_eta_min" name="expressEtaMinDays" placeholder="1" style={inputStyle} />
+            </div>
+
+            <div>
+              <label htmlFor="rr_express_eta_max" style={labelStyle}>Express ETA Max</label>
+              <input id="rr_express_eta_max" name="expressEtaMaxDays" placeholder="2" style={inputStyle} />
+            </div>
+          </div>
+
+          <div style={{ marginTop: 12 }}>
+            <button type="submit" style={btnStyle}>
+              {fetcher.state !== "idle" ? "Saving..." : "Save Rule"}
+            </button>
+          </div>
+        </fetcher.Form>
+      </s-section>
+
+      <s-section heading="Existing Region Rules">
+        <div style={{ overflowX: "auto" }}>
+          <table style={tableStyle}>
+            <thead>
+              <tr>
+                <th style={thStyle}>Level</th>
+                <th style={thStyle}>Region</th>
+                <th style={thStyle}>Deliverable</th>
+                <th style={thStyle}>ETA (Min-Max)</th>
+                <th style={thStyle}>COD</th>
+                <th style={thStyle}>Shipping (₹)</th>
+                <th style={thStyle}>Express (₹)</th>
+                <th style={thStyle}>Action</th>
+              </tr>
+            </thead>
+            <tbody>
+              {rules.map((r) => (
+                <tr key={r.id}>
+                  <td style={tdStyle}>{r.scope.toLowerCase()}</td>
+                  <td style={tdStyle}>{r.label}</td>
+                  <td style={tdStyle}>{r.deliverable ? "Yes" : "No"}</td>
+                  <td style={tdStyle}>
+                    {r.etaMinDays || r.etaMaxDays ? `${r.etaMinDays ?? "-"} - ${r.etaMaxDays ?? "-"}` : "-"}
+                  </td>
+                  <td style={tdStyle}>{r.codAvailable ? "Yes" : "No"}</td>
+                  <td style={tdStyle}>{r.shippingFee ?? "-"}</td>
+                  <td style={tdStyle}>{r.expressFee ?? "-"}</td>
+                  <td style={tdStyle}>
+                    <fetcher.Form method="post">
+                      <input type="hidden" name="intent" value="delete" />
+                      <input type="hidden" name="id" value={r.id} />
+                      <button type="submit" style={btnDangerStyle}>Delete</button>
+                    </fetcher.Form>
+                  </td>
+                </tr>
+              ))}
+              {rules.length === 0 ? (
+                <tr>
+                  <td style={tdStyle} colSpan={8}>No region rules yet.</td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
+      </s-section>
+    </s-page>
+  );
+}
+
+/* ======================
+   Styles
+====================== */
+const labelStyle: React.CSSProperties = { display: "block", fontSize: 12, marginBottom: 6 };
+
+const inputStyle: React.CSSProperties = {
+  width: "100%",
+  padding: "10px 12px",
+  border: "1px solid rgba(0,0,0,.15)",
+  borderRadius: 10,
+  outline: "none",
+};
+
+const btnStyle: React.CSSProperties = {
+  padding: "10px 14px",
+  borderRadius: 10,
+  border: "1px solid rgba(0,0,0,.15)",
+  background: "black",
+  color: "white",
+  cursor: "pointer",
+};
+
+const btnDangerStyle: React.CSSProperties = {
+  padding: "8px 12px",
+  borderRadius: 10,
+  border: "1px solid rgba(0,0,0,.15)",
+  background: "#b42318",
+  color: "white",
+  cursor: "pointer",
+};
+
+const tableStyle: React.CSSProperties = { width: "100%", borderCollapse: "collapse" };
+
+const thStyle: React.CSSProperties = {
+  textAlign: "left",
+  fontSize: 12,
+  padding: "10px 8px",
+  borderBottom: "1px solid rgba(0,0,0,.12)",
+};
+
+const tdStyle: React.CSSProperties = {
+  padding: "10px 8px",
+  borderBottom: "1px solid rgba(0,0,0,.08)",
+  fontSize: 13,
+};
@@ -0,0 +1,353 @@
+import type { RestrictionMode, RestrictionTarget } from "@prisma/client";
+import { useEffect, useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { useFetcher, useLoaderData } from "react-router";
+import { json } from "@remix-run/node";
+import { useAppBridge } from "@shopify/app-bridge-react";
+
+import { authenticate } from "../shopify.server";
+import { shopDb } from "../models/shopDb.server";
+import { parsePincodePatterns } from "../models/productRestriction.server";
+
+/* ======================
+   Types
+====================== */
+type RestrictionRow = {
+  id: string;
+  targetType: RestrictionTarget;
+  targetId: string;
+  targetLabel: string;
+  mode: RestrictionMode;
+  pincodes: string;
+  message: string | null;
+};
+
+type LoaderData = {
+  restrictions: RestrictionRow[];
+};
+
+type ActionResponse = { ok: true } | { ok: false; error: string };
+
+const TARGETS: RestrictionTarget[] = ["PRODUCT", "TAG", "COLLECTION"];
+const MODES: RestrictionMode[] = ["ALLOW_ONLY", "BLOCK"];
+
+const NODE_TITLES_QUERY = `#graphql
+  query RestrictionTargetTitles($ids: [ID!]!) {
+    nodes(ids: $ids) {
+      id
+      ... on Product {
+        title
+      }
+      ... on Collection {
+        title
+      }
+    }
+  }
+`;
+
+/* ======================
+   Loader
+====================== */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session, admin } = await authenticate.admin(request);
+  const db = shopDb(session.shop);
+
+  const restrictions = await db.productRestriction.findMany({
+    where: { shop: session.shop },
+    orderBy: { createdAt: "desc" },
+    select: { id: true, targetType: true, targetId: true, targetLabel: true, mode: true, pincodes: true, message: true },
+  });
+
+  // Products and collections get renamed; show the current title and flag deleted targets.
+  const ids = restrictions.filter((r) => r.targetType !== "TAG").map((r) => r.targetId);
+  if (ids.length) {
+    const res = await admin.graphql(NODE_TITLES_QUERY, { variables: { ids } });
+    const { data } = await res.json();
+    const titles = new Map<string, string>();
+    for (const node of data?.nodes ?? []) {
+      if (node?.id && node.title) titles.set(node.id, node.title);
+    }
+    for (const r of restrictions) {
+      if (r.targetType === "TAG") continue;
+      r.targetLabel = titles.get(r.targetId) ?? `${r.targetLabel} (deleted)`;
+    }
+  }
+
+  return json<LoaderData>({ restrictions });
+};
+
+/* ======================
+   Action
+====================== */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session, admin } = await authenticate.admin(request);
+  const db = shopDb(session.shop);
+  const form = await request.formData();
+  const intent = String(form.get("intent") || "");
+
+  const bad = (error: string, status = 400) =>
+    json<ActionResponse>({ ok: false, error }, { status });
+
+  if (intent === "create") {
+    const targetType = TARGETS.find((t) => t === String(form.get("targetType") || ""));
+    if (!targetType) return bad("Unknown restriction target.");
+    const mode = MODES.find((m) => m === String(form.get("mode") || "")) ?? "ALLOW_ONLY";
+
+    const pincodes = String(form.get("pincodes") || "").trim();
+    const { error: patternError } = parsePincodePatterns(pincodes);
+    if (patternError) return bad(patternError);
+
+    const message = String(form.get("message") || "").trim() || null;
+
+    let targetId: string;
+    let targetLabel: string;
+    if (targetType === "TAG") {
+      targetId = String(form.get("tag") || "").trim();
+      if (!targetId) return bad("Enter a product tag.");
+      targetLabel = targetId;
+    } else {
+      targetId = String(form.get("targetId") || "").trim();
+      if (!targetId) return bad(`Select a ${targetType.toLowerCase()}.`);
+
+      const res = await admin.graphql(NODE_TITLES_QUERY, { variables: { ids: [targetId] } });
+      const { data } = await res.json();
+      const node = data?.nodes?.[0];
+      if (!node?.title) return bad(`That ${targetType.toLowerCase()} no longer exists.`);
+      targetLabel = node.title;
+    }
+
+    await db.productRestriction.create({
+      data: { shop: session.shop, targetType, targetId, targetLabel, mode, pincodes, message },
+    });
+
+    return json<ActionResponse>({ ok: true });
+  }
+
+  if (intent === "delete") {
+    const id = String(form.get("id") || "").trim();
+    if (!id) return bad("Missing id");
+    await db.productRestriction.deleteMany({ where: { id, shop: session.shop } });
+    return json<ActionResponse>({ ok: true });
+  }
+
+  return bad("Unknown intent");
+};
+
+/* ======================
+   Component
+====================== */
+export default function RestrictionsPage() {
+  const { restrictions } = useLoaderData<LoaderData>();
+  const fetcher = useFetcher<ActionResponse>();
+  const shopify = useAppBridge();
+
+  const [targetType, setTargetType] = useState<RestrictionTarget>("PRODUCT");
+  const [picked, setPicked] = useState<{ id: string; title: string } | null>(null);
+
+  const error = fetcher.data && fetcher.data.ok === false ? fetcher.data.error : null;
+
+  useEffect(() => {
+    if (fetcher.data?.ok === true) {
+      setTimeout(() => window.location.reload(), 200);
+    }
+  }, [fetcher.data]);
+
+  async function pickTarget() {
+    const selection = await shopify.resourcePicker({
+      type: targetType === "COLLECTION" ? "collection" : "product",
+      multiple: false,
+    });
+    const first = selection?.[0];
+    if (first) setPicked({ id: first.id, title: first.title });
+  }
+
+  return (
+    <s-page heading="Product Restrictions">
+      {error ? (
+        <s-banner tone="critical">
+          <s-paragraph>{error}</s-paragraph>
+        </s-banner>
+      ) : null}
+
+      <s-section heading="Add Restriction">
+        <s-paragraph>
+          Restrictions apply on top of pincode and region rules. &quot;Ship only to&quot; limits a product to the listed
+          pincodes; &quot;Never ship to&quot; blocks them. List exact pincodes, ranges (560001-560110) or prefixes (4000*).
+        </s-paragraph>
+
+        <fetcher.Form method="post">
+          <input type="hidden" name="intent" value="create" />
+          <input type="hidden" name="targetId" value={picked?.id ?? ""} />
+
+          <div
+            style={{
+              display: "grid",
+              gridTemplateColumns: "160px 260px 160px 1fr",
+              gap: 12,
+              alignItems: "end",
+              marginTop: 12,
+            }}
+          >
+            <div>
+              <label htmlFor="pr_target_type" style={labelStyle}>Applies to</label>
+              <select
+                id="pr_target_type"
+                name="targetType"
+                value={targetType}
+                onChange={(e) => {
+                  setTargetType(e.target.value as RestrictionTarget);
+                  setPicked(null);
+                }}
+                style={inputStyle}
+              >
+                <option value="PRODUCT">Product</option>
+                <option value="COLLECTION">Collection</option>
+                <option value="TAG">Product tag</option>
+              </select>
+            </div>
+
+            {targetType === "TAG" ? (
+              <div>
+                <label htmlFor="pr_tag" style={labelStyle}>Tag</label>
+                <input id="pr_tag" name="tag" placeholder="furniture" style={inputStyle} />
+              </div>
+            ) : (
+              <div>
+                <span style={labelStyle}>{targetType === "PRODUCT" ? "Product" : "Collection"}</span>
+                <button type="button" onClick={pickTarget} style={btnSecondaryStyle}>
+                  {picked ? picked.title : `Select ${targetType.toLowerCase()}`}
+                </button>
+              </div>
+            )}
+
+            <div>
+              <label htmlFor="pr_mode" style={labelStyle}>Mode</label>
+              <select id="pr_mode" name="mode" style={inputStyle}>
+                <option value="ALLOW_ONLY">Ship only to</option>
+                <option value="BLOCK">Never ship to</option>
+              </select>
+            </div>
+
+            <div>
+              <label htmlFor="pr_pincodes" style={labelStyle}>Pincodes</label>
+              <input id="pr_pincodes" name="pincodes" placeholder="110001, 560001-560110, 4000*" style={inputStyle} />
+            </div>
+          </div>
+
+          <div style={{ marginTop: 12 }}>
+            <label htmlFor="pr_message" style={labelStyle}>Shopper message (optional)</label>
+            <input
+              id="pr_message"
+              name="message"
+              placeholder="Furniture ships to metro pincodes only."
+              style={inputStyle}
+            />
+          </div>
+
+          <div style={{ marginTop: 12 }}>
+            <button type="submit" style={btnStyle}>
+              {fetcher.state !== "idle" ? "Saving..." : "Save Restriction"}
+            </button>
+          </div>
+        </fetcher.Form>
+      </s-section>
+
+      <s-section heading="Existing Restrictions">
+        <div style={{ overflowX: "auto" }}>
+          <table style={tableStyle}>
+            <thead>
+              <tr>
+                <th style={thStyle}>Applies to</th>
+                <th style={thStyle}>Target</th>
+                <th style={thStyle}>Mode</th>
+                <th style={thStyle}>Pincodes</th>
+                <th style={thStyle}>Message</th>
+                <th style={thStyle}>Action</th>
+              </tr>
+            </thead>
+            <tbody>
+              {restrictions.map((r) => (
+                <tr key={r.id}>
+                  <td style={tdStyle}>{r.targetType.toLowerCase()}</td>
+                  <td style={tdStyle}>{r.targetLabel}</td>
+                  <td style={tdStyle}>{r.mode === "ALLOW_ONLY" ? "Ship only to" : "Never ship to"}</td>
+                  <td style={tdStyle}>{r.pincodes}</td>
+                  <td style={tdStyle}>{r.message ?? "-"}</td>
+                  <td style={tdStyle}>
+                    <fetcher.Form method="post">
+                      <input type="hidden" name="intent" value="delete" />
+                      <input type="hidden" name="id" value={r.id} />
+                      <button type="submit" style={btnDangerStyle}>Delete</button>
+                    </fetcher.Form>
+                  </td>
+                </tr>
+              ))}
+              {restrictions.length === 0 ? (
+                <tr>
+                  <td style={tdStyle} colSpan={6}>No product restrictions yet.</td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
+      </s-section>
+    </s-page>
+  );
+}
+
+/* ======================
+   Styles
+====================== */
+const labelStyle: React.CSSProperties = { display: "block", fontSize: 12, marginBottom: 6 };
+
+const inputStyle: React.CSSProperties = {
+  width: "100%",
+  padding: "10px 12px",
+  border: "1px solid rgba(0,0,0,.15)",
+  borderRadius: 10,
+  outline: "none",
+};
+
+const btnStyle: React.CSSProperties = {
+  padding: "10px 14px",
+  borderRadius: 10,
+  border: "1px solid rgba(0,0,0,.15)",
+  background: "black",
+  color: "white",
+  cursor: "pointer",
+};
+
+const btnSecondaryStyle: React.CSSProperties = {
+  width: "100%",
+  padding: "10px 14px",
+  borderRadius: 10,
+  border: "1px solid rgba(0,0,0,.15)",
+  background: "white",
+  color: "black",
+  cursor: "pointer",
+  textAlign: "left",
+};
+
+const btnDangerStyle: React.CSSProperties = {
+  padding: "8px 12px",
+  borderRadius: 10,
+  border: "1px solid rgba(0,0,0,.15)",
+  background: "#b42318",
+  color: "white",
+  cursor: "pointer",
+};
+
+const tableStyle: React.CSSProperties = { width: "100%", borderCollapse: "collapse" };
+
+const thStyle: React.CSSProperties = {
+  textAlign: "left",
+  fontSize: 12,
+  padding: "10px 8px",
+  borderBottom: "1px solid rgba(0,0,0,.12)",
+};
+
+const tdStyle: React.CSSProperties = {
+  padding: "10px 8px",
+  borderBottom: "1px solid rgba(0,0,0,.08)",
+  fontSize: 13,
+};
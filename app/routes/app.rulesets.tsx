@@ -0,0 +1,374 @@
+import type { RuleSetStatus } from "@prisma/client";
+import { useRef, useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { Link, useFetcher, useLoaderData } from "react-router";
+import { json } from "@remix-run/node";
+
+import { authenticate } from "../shopify.server";
+import { trySyncCheckoutRules } from "../models/checkoutSync.server";
+import { tryQueueWaitlist } from "../models/waitlist.server";
+import {
+  createDraft,
+  deleteRuleSet,
+  listRuleSets,
+  publishRuleSet,
+  RuleSetError,
+  schedulePublish,
+  unschedulePublish,
+} from "../models/ruleSet.server";
+
+/* ======================
+   Types
+====================== */
+type RuleSetRow = {
+  id: string;
+  name: string;
+  status: RuleSetStatus;
+  ruleCount: number;
+  publishAt: string | null;
+  publishedAt: string | null;
+  archivedAt: string | null;
+};
+
+type LoaderData = { ruleSets: RuleSetRow[] };
+
+type ActionResponse = { ok: true } | { ok: false; error: string };
+
+const STATUS_LABELS: Record<RuleSetStatus, string> = {
+  DRAFT: "Draft",
+  SCHEDULED: "Scheduled",
+  PUBLISHED: "Live",
+  ARCHIVED: "Archived",
+};
+
+// Live first, then what is coming up, then history.
+const STATUS_ORDER: RuleSetStatus[] = ["PUBLISHED", "SCHEDULED", "DRAFT", "ARCHIVED"];
+
+/* ======================
+   Loader
+====================== */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const sets = await listRuleSets(session.shop);
+
+  return json<LoaderData>({
+    ruleSets: sets
+      .sort((a, b) => STATUS_ORDER.indexOf(a.status) - STATUS_ORDER.indexOf(b.status))
+      .map((s) => ({
+        id: s.id,
+        name: s.name,
+        status: s.status,
+        ruleCount: s._count.rules,
+        publishAt: s.publishAt?.toISOString() ?? null,
+        publishedAt: s.publishedAt?.toISOString() ?? null,
+        archivedAt: s.archivedAt?.toISOString() ?? null,
+      })),
+  });
+};
+
+/* ======================
+   Action
+====================== */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session, admin } = await authenticate.admin(request);
+  const form = await request.formData();
+  const intent = String(form.get("intent") || "");
+  const id = String(form.get("id") || "").trim();
+
+  const bad = (error: string, status = 400) => json<ActionResponse>({ ok: false, error }, { status });
+
+  try {
+    if (intent === "create") {
+      const name = String(form.get("name") || "").trim();
+      if (!name) return bad("Give the draft a name.");
+      const copyFrom = String(form.get("copyFrom") || "").trim();
+      await createDraft(session.shop, name, copyFrom || null);
+      return json<ActionResponse>({ ok: true });
+    }
+
+    if (!id) return bad("Missing rule set id");
+
+    // Also used for rollback: publishing an archived set makes that version live again.
+    if (intent === "publish") {
+      await publishRuleSet(session.shop, id);
+      await trySyncCheckoutRules(admin, session.shop);
+      await tryQueueWaitlist(session.shop);
+      return json<ActionResponse>({ ok: true });
+    }
+
+    if (intent === "schedule") {
+      const publishAt = new Date(String(form.get("publishAt") || ""));
+      if (Number.isNaN(publishAt.getTime())) return bad("Pick a date and time to publish at.");
+      if (publishAt.getTime() <= Date.now()) return bad("The publish time must be in the future.");
+      await schedulePublish(session.shop, id, publishAt);
+      return json<ActionResponse>({ ok: true });
+    }
+
+    if (intent === "unschedule") {
+      await unschedulePublish(session.shop, id);
+      return json<ActionResponse>({ ok: true });
+    }
+
+    if (intent === "delete") {
+      await deleteRuleSet(session.shop, id);
+      return json<ActionResponse>({ ok: true });
+    }
+  } catch (e) {
+    if (e instanceof RuleSetError) return bad(e.message);
+    throw e;
+  }
+
+  return bad("Unknown intent");
+};
+
+/* ======================
+   Component
+====================== */
+const CONFIRM_MODAL_ID = "ruleset-confirm-modal";
+
+type PendingConfirm = { heading: string; message: string; action: string; fields: Record<string, string> };
+
+export default function RuleSetsPage() {
+  const { ruleSets } = useLoaderData<LoaderData>();
+  const fetcher = useFetcher<ActionResponse>();
+  const modalRef = useRef<HTMLElementTagNameMap["s-modal"]>(null);
+  const [pending, setPending] = useState<PendingConfirm | null>(null);
+
+  const error = fetcher.data && fetcher.data.ok === false ? fetcher.data.error : null;
+  const live = ruleSets.find((s) => s.status === "PUBLISHED");
+
+  const askConfirm = (confirm: PendingConfirm) => {
+    setPending(confirm);
+    modalRef.current?.showOverlay();
+  };
+
+  return (
+    <s-page heading="Rule sets">
+      {error ? (
+        <s-banner tone="critical">
+          <s-paragraph>{error}</s-paragraph>
+        </s-banner>
+      ) : null}
+
+      <s-section heading="New draft">
+        <s-paragraph>
+          Drafts are edited and imported into from the Pincodes page without changing what the storefront and checkout
+          see. Publish one now or schedule it, for example to switch to a festival map at midnight.
+        </s-paragraph>
+        <fetcher.Form method="post">
+          <input type="hidden" name="intent" value="create" />
+          <div style={{ display: "flex", gap: 12, alignItems: "end", flexWrap: "wrap", marginTop: 12 }}>
+            <div style={{ minWidth: 240 }}>
+              <label htmlFor="rs_name" style={labelStyle}>Name</label>
+              <input id="rs_name" name="name" placeholder="Diwali 2026" required style={inputStyle} />
+            </div>
+            <div style={{ minWidth: 220 }}>
+              <label htmlFor="rs_copy_from" style={labelStyle}>Start from</label>
+              <select id="rs_copy_from" name="copyFrom" defaultValue={live?.id ?? ""} style={inputStyle}>
+                {ruleSets.map((s) => (
+                  <option key={s.id} value={s.id}>
+                    Copy of {s.name} ({STATUS_LABELS[s.status].toLowerCase()})
+                  </option>
+                ))}
+                <option value="">No rules</option>
+              </select>
+            </div>
+            <button type="submit" style={btnStyle}>
+              {fetcher.state !== "idle" ? "Working..." : "Create draft"}
+            </button>
+          </div>
+        </fetcher.Form>
+      </s-section>
+
+      <s-section heading="Versions">
+        <div style={{ overflowX: "auto" }}>
+          <table style={tableStyle}>
+            <thead>
+              <tr>
+                <th style={thStyle}>Name</th>
+                <th style={thStyle}>Status</th>
+                <th style={thStyle}>Rules</th>
+                <th style={thStyle}>Last published</th>
+                <th style={thStyle}>Actions</th>
+              </tr>
+            </thead>
+            <tbody>
+              {ruleSets.map((s) => (
+                <tr key={s.id}>
+                  <td style={tdStyle}>
+                    <Link
+                      to={s.status === "PUBLISHED" ? "/app/pincodes" : `/app/pincodes?set=${s.id}`}
+                      style={{ textDecoration: "underline" }}
+                    >
+                      {s.name}
+                    </Link>
+                  </td>
+                  <td style={tdStyle}>
+                    {STATUS_LABELS[s.status]}
+                    {s.status === "SCHEDULED" && s.publishAt ? ` for ${new Date(s.publishAt).toLocaleString()}` : ""}
+                  </td>
+                  <td style={tdStyle}>{s.ruleCount}</td>
+                  <td style={tdStyle}>{s.publishedAt ? new Date(s.publishedAt).toLocaleString() : "-"}</td>
+                  <td style={tdStyle}>
+                    <div style={{ display: "flex", gap: 12, alignItems: "center", flexWrap: "wrap" }}>
+                      {s.status === "DRAFT" || s.status === "SCHEDULED" ? (
+                        <button
+                          type="button"
+                          style={btnStyle}
+                          onClick={() =>
+                            askConfirm({
+                              heading: "Publish rule set",
+                              message: `Make ${s.name} live now? The storefront and checkout switch to its ${s.ruleCount} rules immediately.`,
+                              action: "Publish",
+                              fields: { intent: "publish", id: s.id },
+                            })
+                          }
+                        >
+                          Publish now
+                        </button>
+                      ) : null}
+                      {s.status === "DRAFT" ? <ScheduleForm id={s.id} fetcher={fetcher} /> : null}
+                      {s.status === "SCHEDULED" ? (
+                        <button
+                          type="button"
+                          style={linkButtonStyle}
+                          onClick={() => fetcher.submit({ intent: "unschedule", id: s.id }, { method: "post" })}
+                        >
+                          Cancel schedule
+                        </button>
+                      ) : null}
+                      {s.status === "ARCHIVED" ? (
+                        <button
+                          type="button"
+                          style={btnStyle}
+                          onClick={() =>
+                            askConfirm({
+                              heading: "Roll back",
+                              message: `Make ${s.name} live again? ${live ? `${live.name} is archived and can be restored the same way.` : ""}`,
+                              action: "Roll back",
+                              fields: { intent: "publish", id: s.id },
+                            })
+                          }
+                        >
+                          Roll back to this
+                        </button>
+                      ) : null}
+                      {s.status !== "PUBLISHED" ? (
+                        <button
+                          type="button"
+                          style={linkButtonStyle}
+                          onClick={() =>
+                            askConfirm({
+                              heading: "Delete rule set",
+                              message: `Delete ${s.name} and its ${s.ruleCount} rules? This can't be undone.`,
+                              action: "Delete",
+                              fields: { intent: "delete", id: s.id },
+                            })
+                          }
+                        >
+                          Delete
+                        </button>
+                      ) : null}
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        </div>
+      </s-section>
+
+      <s-modal id={CONFIRM_MODAL_ID} ref={modalRef} heading={pending?.heading ?? ""} onAfterHide={() => setPending(null)}>
+        <s-paragraph>{pending?.message}</s-paragraph>
+        <s-button
+          slot="primary-action"
+          variant="primary"
+          tone={pending?.fields.intent === "delete" ? "critical" : "auto"}
+          onClick={() => {
+            if (pending) fetcher.submit(pending.fields, { method: "post" });
+            modalRef.current?.hideOverlay();
+          }}
+        >
+          {pending?.action}
+        </s-button>
+        <s-button slot="secondary-actions" commandFor={CONFIRM_MODAL_ID} command="--hide">
+          Cancel
+        </s-button>
+      </s-modal>
+    </s-page>
+  );
+}
+
+// datetime-local has no time zone, so the merchant's local time is converted to UTC here.
+function ScheduleForm({ id, fetcher }: { id: string; fetcher: ReturnType<typeof useFetcher<ActionResponse>> }) {
+  const [local, setLocal] = useState("");
+
+  return (
+    <div style={{ display: "flex", gap: 8, alignItems: "center" }}>
+      <input
+        type="datetime-local"
+        aria-label="Publish at"
+        value={local}
+        onChange={(e) => setLocal(e.target.value)}
+        style={{ ...inputStyle, width: "auto", padding: "8px 10px" }}
+      />
+      <button
+        type="button"
+        style={linkButtonStyle}
+        disabled={!local}
+        onClick={() =>
+          fetcher.submit({ intent: "schedule", id, publishAt: new Date(local).toISOString() }, { method: "post" })
+        }
+      >
+        Schedule
+      </button>
+    </div>
+  );
+}
+
+/* ======================
+   Styles
+====================== */
+const labelStyle: React.CSSProperties = { display: "block", fontSize: 12, marginBottom: 6 };
+
+const inputStyle: React.CSSProperties = {
+  width: "100%",
+  padding: "10px 12px",
+  border: "1px solid rgba(0,0,0,.15)",
+  borderRadius: 10,
+  outline: "none",
+};
+
+const btnStyle: React.CSSProperties = {
+  padding: "10px 14px",
+  borderRadius: 10,
+  border: "1px solid rgba(0,0,0,.15)",
+  background: "black",
+  color: "white",
+  cursor: "pointer",
+};
+
+const linkButtonStyle: React.CSSProperties = {
+  padding: 0,
+  border: "none",
+  background: "none",
+  textDecoration: "underline",
+  cursor: "pointer",
+  font: "inherit",
+  fontWeight: 400,
+};
+
+const tableStyle: React.CSSProperties = { width: "100%", borderCollapse: "collapse" };
+
+const thStyle: React.CSSProperties = {
+  textAlign: "left",
+  fontSize: 12,
+  padding: "10px 8px",
+  borderBottom: "1px solid rgba(0,0,0,.12)",
+};
+
+const tdStyle: React.CSSProperties = {
+  padding: "10px 8px",
+  borderBottom: "1px solid rgba(0,0,0,.08)",
+  fontSize: 13,
+};
@@ -21,6 +21,14 @@ export default function App() {
         <s-link href="/app">Home</s-link>
         {/* <s-link href="/app/additional">Additional page</s-link> */}
         <s-link href="/app/pincodes">Pincodes</s-link>
+        <s-link href="/app/rulesets">Rule sets</s-link>
+        <s-link href="/app/regions">Regions</s-link>
+        <s-link href="/app/restrictions">Product restrictions</s-link>
+        <s-link href="/app/warehouses">Warehouses</s-link>
+        <s-link href="/app/calendar">Delivery calendar</s-link>
+        <s-link href="/app/activity">Activity</s-link>
+        <s-link href="/app/analytics">Analytics</s-link>
+        <s-link href="/app/waitlist">Waitlist</s-link>
       </s-app-nav>
       <Outlet />
     </AppProvider>
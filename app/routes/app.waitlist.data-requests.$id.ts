@@ -0,0 +1,19 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { getCustomerDataRequest } from "../models/shopData.server";
+
+// One customers/data_request record as JSON, for the merchant to send to the customer.
+export const loader = async ({ request, params }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const record = await getCustomerDataRequest(session.shop, params.id ?? "");
+  if (!record) throw new Response("Not found", { status: 404 });
+
+  const { requestId, customerId, contacts, data, createdAt } = record;
+  const body = JSON.stringify({ shop: session.shop, requestId, customerId, contacts, requestedAt: createdAt, data }, null, 2);
+  return new Response(body, {
+    headers: {
+      "Content-Type": "application/json; charset=utf-8",
+      "Content-Disposition": `attachment; filename="customer-data-${requestId ?? record.id}.json"`,
+    },
+  });
+};
@@ -0,0 +1,16 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { exportSignupsCsv, parseSignupFilters } from "../models/waitlist.server";
+
+// The waitlist, with the page's filters, as CSV.
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const csv = await exportSignupsCsv(session.shop, parseSignupFilters(new URL(request.url).searchParams));
+
+  return new Response(csv, {
+    headers: {
+      "Content-Type": "text/csv; charset=utf-8",
+      "Content-Disposition": `attachment; filename="waitlist-${new Date().toISOString().slice(0, 10)}.csv"`,
+    },
+  });
+};
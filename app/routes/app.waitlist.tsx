@@ -0,0 +1,362 @@
+import type { WaitlistChannel, WaitlistStatus } from "@prisma/client";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { useFetcher, useLoaderData, useSearchParams } from "react-router";
+import { json } from "@remix-run/node";
+
+import { authenticate } from "../shopify.server";
+import { deleteSignup, listSignups, parseSignupFilters, tryQueueWaitlist } from "../models/waitlist.server";
+import { listCustomerDataRequests } from "../models/shopData.server";
+import { downloadFile } from "../utils/download";
+
+/* ======================
+   Types
+====================== */
+type SignupRow = {
+  id: string;
+  createdAt: string;
+  pincode: string;
+  channel: WaitlistChannel;
+  contact: string;
+  productTitle: string | null;
+  status: WaitlistStatus;
+  lastError: string | null;
+  notifiedAt: string | null;
+};
+
+type DataRequestRow = {
+  id: string;
+  createdAt: string;
+  requestId: string | null;
+  contacts: string[];
+  signups: number;
+};
+
+type LoaderData = {
+  signups: SignupRow[];
+  hasMore: boolean;
+  counts: Partial<Record<WaitlistStatus, number>>;
+  dataRequests: DataRequestRow[];
+};
+
+type ActionResponse = { ok: true; queued?: number } | { ok: false; error: string };
+
+const STATUS_LABELS: Record<WaitlistStatus, string> = {
+  WAITING: "Waiting",
+  QUEUED: "Sending",
+  NOTIFIED: "Notified",
+  FAILED: "Failed",
+};
+
+/* ======================
+   Loader
+====================== */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const params = new URL(request.url).searchParams;
+
+  const [{ signups, hasMore, counts }, dataRequests] = await Promise.all([
+    listSignups(session.shop, parseSignupFilters(params), { after: params.get("after") || undefined }),
+    listCustomerDataRequests(session.shop),
+  ]);
+
+  return json<LoaderData>({
+    signups: signups.map((s) => ({
+      id: s.id,
+      createdAt: s.createdAt.toISOString(),
+      pincode: s.pincode,
+      channel: s.channel,
+      contact: s.contact,
+      productTitle: s.productTitle,
+      status: s.status,
+      lastError: s.lastError,
+      notifiedAt: s.notifiedAt?.toISOString() ?? null,
+    })),
+    hasMore,
+    counts,
+    dataRequests: dataRequests.map((r) => ({
+      id: r.id,
+      createdAt: r.createdAt.toISOString(),
+      requestId: r.requestId,
+      contacts: r.contacts,
+      signups: ((r.data as { waitlistSignups?: unknown[] }).waitlistSignups ?? []).length,
+    })),
+  });
+};
+
+/* ======================
+   Action
+====================== */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session } = await authenticate.admin(request);
+  const form = await request.formData();
+  const intent = String(form.get("intent") || "");
+
+  const bad = (error: string, status = 400) => json<ActionResponse>({ ok: false, error }, { status });
+
+  if (intent === "delete") {
+    const id = String(form.get("id") || "").trim();
+    if (!id) return bad("Missing id");
+    await deleteSignup(session.shop, id);
+    return json<ActionResponse>({ ok: true });
+  }
+
+  // Rule changes queue signups by themselves; this catches anything else, like a blackout ending.
+  if (intent === "check") {
+    const queued = await tryQueueWaitlist(session.shop);
+    return json<ActionResponse>({ ok: true, queued });
+  }
+
+  return bad("Unknown intent");
+};
+
+/* ======================
+   Component
+====================== */
+export default function WaitlistPage() {
+  const { signups, hasMore, counts, dataRequests } = useLoaderData<LoaderData>();
+  const fetcher = useFetcher<ActionResponse>();
+  const [searchParams, setSearchParams] = useSearchParams();
+
+  const error = fetcher.data && fetcher.data.ok === false ? fetcher.data.error : null;
+  const queued = fetcher.data?.ok ? fetcher.data.queued : undefined;
+
+  const updateParams = (changes: Record<string, string | null>) => {
+    const next = new URLSearchParams(searchParams);
+    for (const [key, value] of Object.entries(changes)) {
+      if (value) next.set(key, value);
+      else next.delete(key);
+    }
+    if (!("after" in changes)) next.delete("after");
+    setSearchParams(next);
+  };
+
+  const applyFilters = (e: React.FormEvent<HTMLFormElement>) => {
+    e.preventDefault();
+    const form = new FormData(e.currentTarget);
+    updateParams({ status: String(form.get("status") || ""), pincode: String(form.get("pincode") || "").trim() });
+  };
+
+  const exportView = () => {
+    const params = new URLSearchParams(searchParams);
+    params.delete("after");
+    downloadFile(`/app/waitlist/export?${params}`, "waitlist.csv");
+  };
+
+  return (
+    <s-page heading="Waitlist">
+      {error ? (
+        <s-banner tone="critical">
+          <s-paragraph>{error}</s-paragraph>
+        </s-banner>
+      ) : null}
+      {queued !== undefined ? (
+        <s-banner tone={queued ? "success" : "info"}>
+          <s-paragraph>
+            {queued
+              ? `Sending ${queued} notification${queued === 1 ? "" : "s"}.`
+              : "No waiting shopper's pincode is deliverable yet."}
+          </s-paragraph>
+        </s-banner>
+      ) : null}
+
+      <s-section heading="Notify-me signups">
+        <s-paragraph>
+          Shoppers who asked the product page widget to tell them when you deliver to their pincode. They are notified
+          once a published rule makes the pincode deliverable (and the product, if they signed up from one).
+        </s-paragraph>
+        <div style={{ display: "flex", gap: 16, flexWrap: "wrap", fontSize: 13, margin: "8px 0 12px" }}>
+          {(Object.keys(STATUS_LABELS) as WaitlistStatus[]).map((s) => (
+            <span key={s}>
+              {STATUS_LABELS[s]}: <strong>{counts[s] ?? 0}</strong>
+            </span>
+          ))}
+        </div>
+
+        <form onSubmit={applyFilters} style={{ display: "flex", gap: 12, alignItems: "flex-end", flexWrap: "wrap" }}>
+          <div style={{ minWidth: 180 }}>
+            <label htmlFor="wl_status" style={labelStyle}>Status</label>
+            <select id="wl_status" name="status" defaultValue={searchParams.get("status") ?? ""} style={inputStyle}>
+              <option value="">All</option>
+              {(Object.keys(STATUS_LABELS) as WaitlistStatus[]).map((s) => (
+                <option key={s} value={s}>
+                  {STATUS_LABELS[s]}
+                </option>
+              ))}
+            </select>
+          </div>
+          <div style={{ minWidth: 180 }}>
+            <label htmlFor="wl_pincode" style={labelStyle}>Pincode starts with</label>
+            <input
+              id="wl_pincode"
+              name="pincode"
+              defaultValue={searchParams.get("pincode") ?? ""}
+              maxLength={6}
+              inputMode="numeric"
+              style={inputStyle}
+            />
+          </div>
+          <button type="submit" style={btnStyle}>
+            Filter
+          </button>
+          <button type="button" style={secondaryBtnStyle} onClick={exportView}>
+            Export CSV
+          </button>
+          <button
+            type="button"
+            style={secondaryBtnStyle}
+            onClick={() => fetcher.submit({ intent: "check" }, { method: "post" })}
+          >
+            {fetcher.state !== "idle" ? "Checking..." : "Check now"}
+          </button>
+        </form>
+
+        <div style={{ overflowX: "auto", marginTop: 12 }}>
+          <table style={tableStyle}>
+            <thead>
+              <tr>
+                <th style={thStyle}>Signed up</th>
+                <th style={thStyle}>Pincode</th>
+                <th style={thStyle}>Product</th>
+                <th style={thStyle}>Contact</th>
+                <th style={thStyle}>Status</th>
+                <th style={thStyle}>Action</th>
+              </tr>
+            </thead>
+            <tbody>
+              {signups.map((s) => (
+                <tr key={s.id}>
+                  <td style={tdStyle}>{new Date(s.createdAt).toLocaleString()}</td>
+                  <td style={tdStyle}>{s.pincode}</td>
+                  <td style={tdStyle}>{s.productTitle ?? "Any product"}</td>
+                  <td style={tdStyle}>{s.contact}</td>
+                  <td style={tdStyle} title={s.lastError ?? undefined}>
+                    {STATUS_LABELS[s.status]}
+                    {s.notifiedAt ? ` ${new Date(s.notifiedAt).toLocaleDateString()}` : ""}
+                    {s.status === "FAILED" && s.lastError ? `: ${s.lastError}` : ""}
+                  </td>
+                  <td style={tdStyle}>
+                    <fetcher.Form method="post">
+                      <input type="hidden" name="intent" value="delete" />
+                      <input type="hidden" name="id" value={s.id} />
+                      <button type="submit" style={linkButtonStyle}>
+                        Delete
+                      </button>
+                    </fetcher.Form>
+                  </td>
+                </tr>
+              ))}
+              {signups.length === 0 ? (
+                <tr>
+                  <td style={tdStyle} colSpan={6}>No signups match.</td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
+
+        <div style={{ display: "flex", gap: 12, marginTop: 12 }}>
+          {searchParams.get("after") ? (
+            <button type="button" style={btnStyle} onClick={() => updateParams({ after: null })}>
+              Newest
+            </button>
+          ) : null}
+          {hasMore ? (
+            <button type="button" style={btnStyle} onClick={() => updateParams({ after: signups[signups.length - 1].id })}>
+              Older
+            </button>
+          ) : null}
+        </div>
+      </s-section>
+
+      {dataRequests.length ? (
+        <s-section heading="Customer data requests">
+          <s-paragraph>
+            Customers who asked Shopify for the data stores hold about them. Download what this app held for each
+            when they asked, and send it to them.
+          </s-paragraph>
+          <div style={{ overflowX: "auto", marginTop: 12 }}>
+            <table style={tableStyle}>
+              <thead>
+                <tr>
+                  <th style={thStyle}>Requested</th>
+                  <th style={thStyle}>Customer</th>
+                  <th style={thStyle}>Signups held</th>
+                  <th style={thStyle}>Action</th>
+                </tr>
+              </thead>
+              <tbody>
+                {dataRequests.map((r) => (
+                  <tr key={r.id}>
+                    <td style={tdStyle}>{new Date(r.createdAt).toLocaleString()}</td>
+                    <td style={tdStyle}>{r.contacts.join(", ") || "No email or phone given"}</td>
+                    <td style={tdStyle}>{r.signups}</td>
+                    <td style={tdStyle}>
+                      <button
+                        type="button"
+                        style={linkButtonStyle}
+                        onClick={() =>
+                          downloadFile(`/app/waitlist/data-requests/${r.id}`, `customer-data-${r.requestId ?? r.id}.json`)
+                        }
+                      >
+                        Download
+                      </button>
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        </s-section>
+      ) : null}
+    </s-page>
+  );
+}
+
+/* ======================
+   Styles
+====================== */
+const labelStyle: React.CSSProperties = { display: "block", fontSize: 12, marginBottom: 6 };
+
+const inputStyle: React.CSSProperties = {
+  width: "100%",
+  padding: "10px 12px",
+  border: "1px solid rgba(0,0,0,.15)",
+  borderRadius: 10,
+  outline: "none",
+};
+
+const btnStyle: React.CSSProperties = {
+  padding: "10px 14px",
+  borderRadius: 10,
+  border: "1px solid rgba(0,0,0,.15)",
+  background: "black",
+  color: "white",
+  cursor: "pointer",
+};
+
+const secondaryBtnStyle: React.CSSProperties = { ...btnStyle, background: "white", color: "black" };
+
+const linkButtonStyle: React.CSSProperties = {
+  padding: 0,
+  border: "none",
+  background: "none",
+  textDecoration: "underline",
+  cursor: "pointer",
+  font: "inherit",
+  fontWeight: 400,
+};
+
+const tableStyle: React.CSSProperties = { width: "100%", borderCollapse: "collapse" };
+
+const thStyle: React.CSSProperties = {
+  textAlign: "left",
+  fontSize: 12,
+  padding: "10px 8px",
+  borderBottom: "1px solid rgba(0,0,0,.12)",
+};
+
+const tdStyle: React.CSSProperties = {
+  padding: "10px 8px",
+  borderBottom: "1px solid rgba(0,0,0,.08)",
+  fontSize: 13,
+};
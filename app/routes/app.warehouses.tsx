@@ -0,0 +1,294 @@
+import type { OriginStrategy } from "@prisma/client";
+import { useEffect, useRef, useState } from "react";
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { useFetcher, useLoaderData } from "react-router";
+import { json } from "@remix-run/node";
+
+import { authenticate } from "../shopify.server";
+import { shopDb } from "../models/shopDb.server";
+import { trySyncCheckoutRules } from "../models/checkoutSync.server";
+import { getShopSettings, updateShopSettings } from "../models/shopSettings.server";
+import { listWarehouses, normalizeOriginCode, validateOriginCode } from "../models/warehouse.server";
+
+/* ======================
+   Types
+====================== */
+type WarehouseRow = { id: string; code: string; name: string; locationId: string; locationName: string | null };
+
+type LocationOption = { id: string; name: string };
+
+type LoaderData = {
+  warehouses: WarehouseRow[];
+  locations: LocationOption[];
+  strategy: OriginStrategy;
+};
+
+type ActionResponse = { ok: true } | { ok: false; error: string };
+
+const STRATEGIES: OriginStrategy[] = ["FASTEST", "CHEAPEST"];
+
+const LOCATIONS_QUERY = `#graphql
+  query WarehouseLocations {
+    locations(first: 100, includeInactive: false) {
+      nodes {
+        id
+        name
+      }
+    }
+  }
+`;
+
+/* ======================
+   Loader
+====================== */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { session, admin } = await authenticate.admin(request);
+
+  const [warehouses, settings, res] = await Promise.all([
+    listWarehouses(session.shop),
+    getShopSettings(session.shop),
+    admin.graphql(LOCATIONS_QUERY),
+  ]);
+  const { data } = await res.json();
+  const locations: LocationOption[] = data?.locations?.nodes ?? [];
+
+  return json<LoaderData>({
+    // Locations get renamed or deactivated in Shopify; show the current name and flag missing ones.
+    warehouses: warehouses.map((w) => ({
+      id: w.id,
+      code: w.code,
+      name: w.name,
+      locationId: w.locationId,
+      locationName: locations.find((l) => l.id === w.locationId)?.name ?? null,
+    })),
+    locations,
+    strategy: settings.originStrategy,
+  });
+};
+
+/* ======================
+   Action
+====================== */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { session, admin } = await authenticate.admin(request);
+  const db = shopDb(session.shop);
+  const form = await request.formData();
+  const intent = String(form.get("intent") || "");
+
+  const bad = (error: string, status = 400) => json<ActionResponse>({ ok: false, error }, { status });
+
+  if (intent === "create") {
+    const code = normalizeOriginCode(String(form.get("code") || ""));
+    const codeError = validateOriginCode(code);
+    if (codeError) return bad(codeError);
+
+    const locationId = String(form.get("locationId") || "").trim();
+    if (!locationId) return bad("Select the Shopify location this warehouse ships from.");
+    const name = String(form.get("name") || "").trim() || code;
+
+    const existing = await db.warehouse.findUnique({ where: { shop_code: { shop: session.shop, code } } });
+    if (existing) return bad(`Warehouse code ${code} is already in use.`);
+
+    await db.warehouse.create({ data: { shop: session.shop, code, name, locationId } });
+    // Rules already tagged with this code start applying.
+    await trySyncCheckoutRules(admin, session.shop);
+    return json<ActionResponse>({ ok: true });
+  }
+
+  if (intent === "delete") {
+    const id = String(form.get("id") || "").trim();
+    if (!id) return bad("Missing id");
+    await db.warehouse.deleteMany({ where: { id, shop: session.shop } });
+    await trySyncCheckoutRules(admin, session.shop);
+    return json<ActionResponse>({ ok: true });
+  }
+
+  if (intent === "strategy") {
+    const originStrategy = STRATEGIES.find((s) => s === String(form.get("strategy") || ""));
+    if (!originStrategy) return bad("Unknown strategy.");
+    await updateShopSettings(session.shop, { originStrategy });
+    return json<ActionResponse>({ ok: true });
+  }
+
+  return bad("Unknown intent");
+};
+
+/* ======================
+   Component
+====================== */
+export default function WarehousesPage() {
+  const { warehouses, locations, strategy } = useLoaderData<LoaderData>();
+  const fetcher = useFetcher<ActionResponse>();
+  const createFetcher = useFetcher<ActionResponse>();
+  const [locationId, setLocationId] = useState("");
+
+  const error =
+    (createFetcher.data && createFetcher.data.ok === false ? createFetcher.data.error : null) ??
+    (fetcher.data && fetcher.data.ok === false ? fetcher.data.error : null);
+
+  const createFormRef = useRef<HTMLFormElement>(null);
+  useEffect(() => {
+    if (createFetcher.data?.ok !== true) return;
+    createFormRef.current?.reset();
+    setLocationId("");
+  }, [createFetcher.data]);
+
+  return (
+    <s-page heading="Warehouses">
+      {error ? (
+        <s-banner tone="critical">
+          <s-paragraph>{error}</s-paragraph>
+        </s-banner>
+      ) : null}
+
+      <s-section heading="How warehouses are chosen">
+        <s-paragraph>
+          Tag pincode rules with a warehouse code (in the rule form or an &quot;origin&quot; CSV column) to give that
+          warehouse its own ETA and fee. When several warehouses deliver to a pincode, the storefront check picks one
+          that has the product in stock; rules without a code answer when no warehouse rule does.
+        </s-paragraph>
+        <fetcher.Form method="post" key={strategy}>
+          <input type="hidden" name="intent" value="strategy" />
+          <div style={{ display: "flex", gap: 12, alignItems: "end", flexWrap: "wrap", marginTop: 12 }}>
+            <div style={{ minWidth: 240 }}>
+              <label htmlFor="wh_strategy" style={labelStyle}>Prefer</label>
+              <select id="wh_strategy" name="strategy" defaultValue={strategy} style={inputStyle}>
+                <option value="FASTEST">Fastest delivery</option>
+                <option value="CHEAPEST">Lowest shipping fee</option>
+              </select>
+            </div>
+            <button type="submit" style={btnStyle}>
+              {fetcher.state !== "idle" ? "Saving..." : "Save"}
+            </button>
+          </div>
+        </fetcher.Form>
+      </s-section>
+
+      <s-section heading="Add Warehouse">
+        <createFetcher.Form method="post" ref={createFormRef}>
+          <input type="hidden" name="intent" value="create" />
+          <div style={{ display: "grid", gridTemplateColumns: "260px 140px 240px", gap: 12, alignItems: "end" }}>
+            <div>
+              <label htmlFor="wh_location" style={labelStyle}>Shopify location</label>
+              <select
+                id="wh_location"
+                name="locationId"
+                value={locationId}
+                onChange={(e) => setLocationId(e.target.value)}
+                style={inputStyle}
+              >
+                <option value="">Select a location</option>
+                {locations.map((l) => (
+                  <option key={l.id} value={l.id}>
+                    {l.name}
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div>
+              <label htmlFor="wh_code" style={labelStyle}>Code</label>
+              <input id="wh_code" name="code" placeholder="BLR" style={inputStyle} />
+            </div>
+            <div>
+              <label htmlFor="wh_name" style={labelStyle}>Name shown to shoppers</label>
+              <input
+                id="wh_name"
+                name="name"
+                placeholder={locations.find((l) => l.id === locationId)?.name ?? "Bangalore"}
+                style={inputStyle}
+              />
+            </div>
+          </div>
+          <div style={{ marginTop: 12 }}>
+            <button type="submit" style={btnStyle}>
+              {createFetcher.state !== "idle" ? "Saving..." : "Add Warehouse"}
+            </button>
+          </div>
+        </createFetcher.Form>
+      </s-section>
+
+      <s-section heading="Existing Warehouses">
+        <div style={{ overflowX: "auto" }}>
+          <table style={tableStyle}>
+            <thead>
+              <tr>
+                <th style={thStyle}>Code</th>
+                <th style={thStyle}>Name</th>
+                <th style={thStyle}>Shopify location</th>
+                <th style={thStyle}>Action</th>
+              </tr>
+            </thead>
+            <tbody>
+              {warehouses.map((w) => (
+                <tr key={w.id}>
+                  <td style={tdStyle}>{w.code}</td>
+                  <td style={tdStyle}>{w.name}</td>
+                  <td style={tdStyle}>{w.locationName ?? "Location removed or inactive"}</td>
+                  <td style={tdStyle}>
+                    <fetcher.Form method="post">
+                      <input type="hidden" name="intent" value="delete" />
+                      <input type="hidden" name="id" value={w.id} />
+                      <button type="submit" style={btnDangerStyle}>Delete</button>
+                    </fetcher.Form>
+                  </td>
+                </tr>
+              ))}
+              {warehouses.length === 0 ? (
+                <tr>
+                  <td style={tdStyle} colSpan={4}>No warehouses yet; every rule applies whichever location ships.</td>
+                </tr>
+              ) : null}
+            </tbody>
+          </table>
+        </div>
+        <s-paragraph>Rules tagged with a deleted warehouse&apos;s code are kept but ignored until the code is added again.</s-paragraph>
+      </s-section>
+    </s-page>
+  );
+}
+
+/* ======================
+   Styles
+====================== */
+const labelStyle: React.CSSProperties = { display: "block", fontSize: 12, marginBottom: 6 };
+
+const inputStyle: React.CSSProperties = {
+  width: "100%",
+  padding: "10px 12px",
+  border: "1px solid rgba(0,0,0,.15)",
+  borderRadius: 10,
+  outline: "none",
+};
+
+const btnStyle: React.CSSProperties = {
+  padding: "10px 14px",
+  borderRadius: 10,
+  border: "1px solid rgba(0,0,0,.15)",
+  background: "black",
+  color: "white",
+  cursor: "pointer",
+};
+
+const btnDangerStyle: React.CSSProperties = {
+  padding: "8px 12px",
+  borderRadius: 10,
+  border: "1px solid rgba(0,0,0,.15)",
+  background: "#b42318",
+  color: "white",
+  cursor: "pointer",
+};
+
+const tableStyle: React.CSSProperties = { width: "100%", borderCollapse: "collapse" };
+
+const thStyle: React.CSSProperties = {
+  textAlign: "left",
+  fontSize: 12,
+  padding: "10px 8px",
+  borderBottom: "1px solid rgba(0,0,0,.12)",
+};
+
+const tdStyle: React.CSSProperties = {
+  padding: "10px 8px",
+  borderBottom: "1px solid rgba(0,0,0,.08)",
+  fontSize: 13,
+};
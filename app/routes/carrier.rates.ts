@@ -0,0 +1,35 @@
+import type { ActionFunctionArgs } from "react-router";
+import {
+  quoteCarrierRates,
+  verifyCarrierRequest,
+  type CarrierRateRequest,
+} from "../models/carrierRates.server";
+
+const headers = { "Content-Type": "application/json" };
+
+// Shopify calls this during checkout for shops where our carrier service is active.
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const rawBody = await request.text();
+  if (!verifyCarrierRequest(rawBody, request.headers.get("X-Shopify-Hmac-Sha256"))) {
+    return new Response(JSON.stringify({ error: "Invalid signature" }), { status: 401, headers });
+  }
+
+  const shop = request.headers.get("X-Shopify-Shop-Domain");
+  if (!shop) return new Response(JSON.stringify({ error: "Missing shop" }), { status: 400, headers });
+
+  // Signed, but still not something to quote from unless it has a destination.
+  const body = parseRateRequest(rawBody);
+  if (!body) return new Response(JSON.stringify({ error: "Invalid rate request" }), { status: 400, headers });
+
+  const rates = await quoteCarrierRates(shop, body);
+  return new Response(JSON.stringify({ rates }), { headers });
+};
+
+function parseRateRequest(rawBody: string): CarrierRateRequest | null {
+  try {
+    const body = JSON.parse(rawBody) as Partial<CarrierRateRequest> | null;
+    return body?.rate?.destination ? (body as CarrierRateRequest) : null;
+  } catch {
+    return null;
+  }
+}
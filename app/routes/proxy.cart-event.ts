@@ -0,0 +1,14 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticateProxy, proxyJson } from "../utils/appProxy.server";
+import { markAddedToCart } from "../models/lookupAnalytics.server";
+
+// POST /apps/pincode/cart-event?lookupId=<id from /check>: the shopper added to cart after that check.
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop } = await authenticateProxy(request);
+
+  const lookupId = (new URL(request.url).searchParams.get("lookupId") || "").trim();
+  if (!lookupId) return proxyJson({ ok: false, error: "Missing lookupId" }, 400);
+
+  await markAddedToCart(shop, lookupId);
+  return proxyJson({ ok: true });
+};
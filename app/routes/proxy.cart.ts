@@ -0,0 +1,108 @@
+import type { LoaderFunctionArgs } from "react-router";
+import { authenticateProxy, proxyJson } from "../utils/appProxy.server";
+import { checkServiceability } from "../models/serviceCache.server";
+import { createRestrictionChecker } from "../models/productRestriction.server";
+
+const MAX_LINES = 100;
+
+type LineResult = {
+  variantId: string;
+  productId: string | null;
+  deliverable: boolean;
+  etaMinDays: number | null;
+  etaMaxDays: number | null;
+  codAvailable: boolean;
+  shippingFee: number | null;
+  // The warehouse expected to ship this line, when warehouse rules picked one.
+  origin: string | null;
+  message: string;
+};
+
+/**
+ * Checks every cart line against one pincode: /apps/pincode/cart?pincode=560034&lines=<variantId>:<productId>,...
+ * The product id half is optional; passing it saves a variant lookup for product restrictions.
+ * Each line is resolved on its own, since warehouse rules pick an origin by where that variant is in stock.
+ */
+export const loader = async ({ request }: LoaderFunctionArgs) => {
+  const { context, shop } = await authenticateProxy(request);
+
+  const url = new URL(request.url);
+  const pincode = (url.searchParams.get("pincode") || "").trim();
+  const lines = (url.searchParams.get("lines") || "")
+    .split(",")
+    .map((l) => l.trim())
+    .filter(Boolean)
+    .map((l) => {
+      const [variantId, productId] = l.split(":");
+      return { variantId, productId: productId || null };
+    });
+
+  if (!/^\d{6}$/.test(pincode)) {
+    return proxyJson({ ok: false, error: "Enter 6-digit pincode." }, 400);
+  }
+  if (!lines.length || lines.length > MAX_LINES || lines.some((l) => !/^\d+$/.test(l.variantId))) {
+    return proxyJson({ ok: false, error: `Pass 1-${MAX_LINES} numeric variant ids in "lines".` }, 400);
+  }
+
+  const checkProduct = createRestrictionChecker(shop, context.admin);
+
+  const results: LineResult[] = await Promise.all(
+    lines.map(async ({ variantId, productId }) => {
+      const blocked = (message: string): LineResult => ({
+        variantId,
+        productId,
+        deliverable: false,
+        etaMinDays: null,
+        etaMaxDays: null,
+        codAvailable: false,
+        shippingFee: null,
+        origin: null,
+        message,
+      });
+
+      const { exists, terms, origin, blackout } = await checkServiceability(shop, pincode, {
+        admin: context.admin,
+        variantId,
+      });
+      if (!exists) return blocked("This pincode does not exist.");
+      if (!terms || !terms.deliverable) return blocked(blackout?.message || "Not deliverable for this pincode.");
+
+      const restricted = await checkProduct(pincode, { productId, variantId });
+      if (restricted) return blocked(restricted.message);
+
+      return {
+        variantId,
+        productId,
+        deliverable: true,
+        etaMinDays: terms.etaMinDays,
+        etaMaxDays: terms.etaMaxDays,
+        codAvailable: terms.codAvailable,
+        shippingFee: terms.shippingFee,
+        origin: origin?.name ?? null,
+        message: blackout?.message || "Delivery available.",
+      };
+    })
+  );
+
+  // The cart ships as one order: it is deliverable only if every line is, arrives with the slowest
+  // line, allows COD only if every line does, and is charged the highest line fee once.
+  const deliverable = results.every((r) => r.deliverable);
+  const maxOf = (values: Array<number | null>) => {
+    const nums = values.filter((v): v is number => v !== null);
+    return nums.length ? Math.max(...nums) : null;
+  };
+
+  return proxyJson({
+    ok: true,
+    pincode,
+    lines: results,
+    combined: {
+      deliverable,
+      blockedVariantIds: results.filter((r) => !r.deliverable).map((r) => r.variantId),
+      etaMinDays: deliverable ? maxOf(results.map((r) => r.etaMinDays)) : null,
+      etaMaxDays: deliverable ? maxOf(results.map((r) => r.etaMaxDays)) : null,
+      codAvailable: deliverable && results.every((r) => r.codAvailable),
+      shippingFee: deliverable ? maxOf(results.map((r) => r.shippingFee)) : null,
+    },
+  });
+};
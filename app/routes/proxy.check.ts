@@ -1,77 +1,95 @@
 import type { LoaderFunctionArgs } from "react-router";
-import db from "../db.server";
+import { authenticateProxy, cachedProxyJson } from "../utils/appProxy.server";
+import { formatLocality } from "../models/pincodeDirectory.server";
+import { checkServiceability } from "../models/serviceCache.server";
+import { createRestrictionChecker } from "../models/productRestriction.server";
+import { recordLookup } from "../models/lookupAnalytics.server";
 
-function corsHeaders(origin: string | null) {
-  // Allow your shop domain(s) + theme editor previews
-  const allowed = [
-    "https://ppdt-store.myshopify.com",
-  ];
-
-  // If you want to allow any *.myshopify.com (dev only), use this:
-  const isMyShopify =
-    origin && /^https:\/\/[a-z0-9][a-z0-9-]*\.myshopify\.com$/i.test(origin);
-
-  const allowOrigin =
-    (origin && allowed.includes(origin)) || isMyShopify ? origin! : allowed[0];
-
-  return {
-    "Access-Control-Allow-Origin": allowOrigin,
-    "Access-Control-Allow-Methods": "GET, OPTIONS",
-    "Access-Control-Allow-Headers": "Content-Type",
-    "Access-Control-Max-Age": "86400",
-    "Content-Type": "application/json",
-  };
-}
+// The widget re-checks the saved pincode on every page load; the browser may reuse an answer this long.
+const CHECK_MAX_AGE_SECONDS = 30;
 
 export const loader = async ({ request }: LoaderFunctionArgs) => {
-  const origin = request.headers.get("origin");
-  const headers = corsHeaders(origin);
-
-  // Handle preflight
-  if (request.method === "OPTIONS") {
-    return new Response(null, { status: 204, headers });
-  }
+  const { context, shop } = await authenticateProxy(request);
 
   const url = new URL(request.url);
-  const shop = url.searchParams.get("shop");
   const pincode = (url.searchParams.get("pincode") || "").trim();
-
-  if (!shop) {
-    return new Response(JSON.stringify({ ok: false, error: "Missing shop" }), {
-      status: 400,
-      headers,
-    });
-  }
+  const productId = url.searchParams.get("productId");
+  const variantId = url.searchParams.get("variantId");
+  // The widget's random per-tab id; only a keyed hash of it is stored.
+  const visitor = url.searchParams.get("visitor");
+  // lookupId is per check and the cutoff countdown changes every second, so neither takes part in
+  // the ETag (the cutoff instant does). A 304 then shows a countdown at most maxAge old.
+  const respond = (body: Record<string, unknown>, maxAge = CHECK_MAX_AGE_SECONDS) =>
+    cachedProxyJson(request, body, maxAge, ["lookupId", "estimate.cutoff.secondsLeft", "estimate.cutoff.text"]);
 
   if (!/^\d{6}$/.test(pincode)) {
-    return new Response(
-      JSON.stringify({ ok: true, deliverable: false, message: "Enter 6-digit pincode." }),
-      { status: 200, headers }
-    );
+    return respond({ ok: true, deliverable: false, message: "Enter 6-digit pincode." });
   }
 
-  const rule = await db.pincodeRule.findUnique({
-    where: { shop_pincode: { shop, pincode } },
-    select: { deliverable: true, etaMinDays: true, etaMaxDays: true, codAvailable: true, shippingFee: true },
+  // With a variant, warehouses that can't fulfil it from stock are passed over.
+  const { exists, locality, terms, source, origin, blackout, estimate } = await checkServiceability(shop, pincode, {
+    admin: context.admin,
+    variantId,
   });
 
-  if (!rule || !rule.deliverable) {
-    return new Response(
-      JSON.stringify({ ok: true, deliverable: false, message: "Not deliverable for this pincode." }),
-      { status: 200, headers }
-    );
+  // Logged without waiting for the write; the id lets the widget report an add to cart.
+  const lookup = { pincode, locality, productId, visitor };
+
+  if (!exists) {
+    recordLookup(shop, { ...lookup, result: "UNKNOWN_PINCODE" });
+    return respond({ ok: true, deliverable: false, exists: false, message: "This pincode does not exist." });
+  }
+
+  if (!terms || !terms.deliverable) {
+    recordLookup(shop, { ...lookup, result: "NOT_DELIVERABLE" });
+    return respond({
+      ok: true,
+      deliverable: false,
+      locality,
+      source,
+      // The shopper can ask to be told when this changes (POST /apps/pincode/waitlist).
+      waitlist: true,
+      message: blackout?.message || "Not deliverable for this pincode.",
+    });
+  }
+
+  // The product page narrows the answer further for SKUs that ship to fewer pincodes.
+  const checkProduct = createRestrictionChecker(shop, context.admin);
+  const restricted = await checkProduct(pincode, { productId, variantId });
+  if (restricted) {
+    recordLookup(shop, { ...lookup, result: "RESTRICTED" });
+    return respond({
+      ok: true,
+      deliverable: false,
+      locality,
+      source,
+      restriction: { target: restricted.restriction.targetLabel },
+      waitlist: true,
+      message: restricted.message,
+    });
   }
 
-  return new Response(
-    JSON.stringify({
+  // Cached past the cutoff, the dates would be a dispatch day out.
+  const maxAge = Math.min(CHECK_MAX_AGE_SECONDS, estimate?.cutoff?.secondsLeft ?? Infinity);
+  return respond(
+    {
       ok: true,
       deliverable: true,
-      etaMinDays: rule.etaMinDays,
-      etaMaxDays: rule.etaMaxDays,
-      codAvailable: rule.codAvailable,
-      shippingFee: rule.shippingFee,
-      message: "Delivery available.",
-    }),
-    { status: 200, headers }
+      lookupId: recordLookup(shop, { ...lookup, result: "DELIVERABLE" }),
+      etaMinDays: terms.etaMinDays,
+      etaMaxDays: terms.etaMaxDays,
+      // e.g. { minDate: "2026-10-21", maxDate: "2026-10-23", text: "Get it Tue, 21 Oct - Thu, 23 Oct",
+      // cutoff: { at, secondsLeft: 12000, text: "3h 20m" } } for an "order within" countdown.
+      estimate,
+      codAvailable: terms.codAvailable,
+      shippingFee: terms.shippingFee,
+      locality,
+      source,
+      // The Shopify location expected to ship, when warehouse rules decided the answer.
+      origin,
+      delayed: blackout !== null,
+      message: blackout?.message || (locality ? `Delivering to ${formatLocality(locality)}` : "Delivery available."),
+    },
+    maxAge,
   );
 };
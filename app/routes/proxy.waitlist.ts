@@ -0,0 +1,28 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticateProxy, proxyJson } from "../utils/appProxy.server";
+import { addSignup, WaitlistError } from "../models/waitlist.server";
+
+/**
+ * POST /apps/pincode/waitlist with a form body of pincode, contact (email or mobile) and,
+ * from a product page, productId, productTitle and productPath: notify the shopper once
+ * the pincode (and product) becomes deliverable.
+ */
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop } = await authenticateProxy(request);
+  const form = await request.formData();
+  const field = (name: string) => String(form.get(name) || "").trim();
+
+  try {
+    await addSignup(shop, {
+      pincode: field("pincode"),
+      contact: field("contact"),
+      productId: field("productId"),
+      productTitle: field("productTitle"),
+      productPath: field("productPath"),
+    });
+  } catch (e) {
+    if (e instanceof WaitlistError) return proxyJson({ ok: false, error: e.message }, 400);
+    throw e;
+  }
+  return proxyJson({ ok: true, message: "We'll let you know when we deliver here." });
+};
@@ -1,6 +1,7 @@
 import type { ActionFunctionArgs } from "react-router";
 import { authenticate } from "../shopify.server";
-import db from "../db.server";
+import { shopDb } from "../models/shopDb.server";
+import { markShopUninstalled, UNINSTALL_GRACE_DAYS } from "../models/shopData.server";
 
 export const action = async ({ request }: ActionFunctionArgs) => {
   const { shop, session, topic } = await authenticate.webhook(request);
@@ -10,8 +11,12 @@ export const action = async ({ request }: ActionFunctionArgs) => {
   // Webhook requests can trigger multiple times and after an app has already been uninstalled.
   // If this webhook already ran, the session may have been deleted previously.
   if (session) {
-    await db.session.deleteMany({ where: { shop } });
+    await shopDb(shop).session.deleteMany({ where: { shop } });
   }
 
+  // Rules and settings are kept so a reinstall within the grace period restores them.
+  await markShopUninstalled(shop);
+  console.log(`Keeping ${shop} data for ${UNINSTALL_GRACE_DAYS} days`);
+
   return new Response();
 };
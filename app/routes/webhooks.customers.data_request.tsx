@@ -0,0 +1,18 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { recordCustomerDataRequest, type CustomerContacts } from "../models/shopData.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, topic, webhookId, payload } = await authenticate.webhook(request);
+
+  const requestId = (payload.data_request as { id?: number } | undefined)?.id;
+  const customer = (payload.customer as (CustomerContacts & { id?: number }) | undefined) ?? {};
+  const recorded = await recordCustomerDataRequest(shop, webhookId, {
+    requestId: requestId ? String(requestId) : null,
+    customerId: customer.id ? String(customer.id) : null,
+    customer,
+  });
+  console.log(`Received ${topic} webhook for ${shop} (request ${requestId ?? "unknown"})${recorded ? "" : ", already recorded"}`);
+
+  return new Response();
+};
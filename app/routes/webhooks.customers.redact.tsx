@@ -0,0 +1,13 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { recordCustomerRedact, type CustomerContacts } from "../models/shopData.server";
+
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, topic, webhookId, payload } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  await recordCustomerRedact(shop, webhookId, (payload.customer as CustomerContacts | undefined) ?? {});
+
+  return new Response();
+};
@@ -0,0 +1,14 @@
+import type { ActionFunctionArgs } from "react-router";
+import { authenticate } from "../shopify.server";
+import { purgeShopData } from "../models/shopData.server";
+
+// Sent 48 hours after uninstall: erase everything stored for the shop.
+export const action = async ({ request }: ActionFunctionArgs) => {
+  const { shop, topic, webhookId } = await authenticate.webhook(request);
+
+  console.log(`Received ${topic} webhook for ${shop}`);
+
+  await purgeShopData(shop, "SHOP_REDACT", webhookId);
+
+  return new Response();
+};
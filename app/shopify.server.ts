@@ -6,6 +6,7 @@ import {
 } from "@shopify/shopify-app-react-router/server";
 import { PrismaSessionStorage } from "@shopify/shopify-app-session-storage-prisma";
 import prisma from "./db.server";
+import { restoreShopData } from "./models/shopData.server";
 
 const shopify = shopifyApp({
   apiKey: process.env.SHOPIFY_API_KEY,
@@ -16,6 +17,12 @@ const shopify = shopifyApp({
   authPathPrefix: "/auth",
   sessionStorage: new PrismaSessionStorage(prisma),
   distribution: AppDistribution.AppStore,
+  hooks: {
+    // Reinstalling within the uninstall grace period brings the shop's rules back.
+    afterAuth: async ({ session, admin }) => {
+      await restoreShopData(admin, session.shop);
+    },
+  },
   future: {
     expiringOfflineAccessTokens: true,
   },
@@ -0,0 +1,62 @@
+import { createHash } from "node:crypto";
+import type { AppProxyContext } from "@shopify/shopify-app-react-router/server";
+import { authenticate } from "../shopify.server";
+
+// Storefront calls arrive through the Shopify app proxy (/apps/pincode/* -> /proxy/*),
+// so they are same-origin for the shopper and need no CORS headers.
+const headers = { "Content-Type": "application/json" };
+
+export function proxyJson(body: unknown, status = 200) {
+  return new Response(JSON.stringify(body), { status, headers });
+}
+
+// A copy of `value` without the dotted `path` ("estimate.cutoff.text"); missing paths are ignored.
+function omitPath(value: unknown, path: string[]): unknown {
+  if (!value || typeof value !== "object" || Array.isArray(value)) return value;
+  const [key, ...rest] = path;
+  if (!(key in value)) return value;
+  const { [key]: inner, ...others } = value as Record<string, unknown>;
+  return rest.length ? { ...others, [key]: omitPath(inner, rest) } : others;
+}
+
+/**
+ * proxyJson for answers the shopper's browser may reuse for `maxAge` seconds and then revalidate;
+ * a revalidation whose If-None-Match still matches gets an empty 304. The weak ETag leaves out
+ * `volatileKeys` (per-request ids and countdowns, nested ones as "a.b"), so the browser keeps the
+ * values from its cached copy. `private` because those ids belong to one shopper: shared caches
+ * and the CDN must not hand them out.
+ */
+export function cachedProxyJson(
+  request: Request,
+  body: Record<string, unknown>,
+  maxAge: number,
+  volatileKeys: string[] = [],
+) {
+  const stable = volatileKeys.reduce<unknown>((acc, key) => omitPath(acc, key.split(".")), body);
+  const etag = `W/"${createHash("sha1").update(JSON.stringify(stable)).digest("base64url")}"`;
+  const cacheHeaders = { "Cache-Control": `private, max-age=${Math.max(0, Math.floor(maxAge))}`, ETag: etag };
+
+  const ifNoneMatch = (request.headers.get("If-None-Match") || "").split(",").map((tag) => tag.trim());
+  if (ifNoneMatch.includes(etag)) return new Response(null, { status: 304, headers: cacheHeaders });
+  return new Response(JSON.stringify(body), { status: 200, headers: { ...headers, ...cacheHeaders } });
+}
+
+/**
+ * Verifies the app proxy HMAC `signature` and returns the signed shop domain.
+ * Throws a JSON response (401/400) that the route returns as-is when verification fails.
+ */
+export async function authenticateProxy(request: Request): Promise<{ context: AppProxyContext; shop: string }> {
+  let context: AppProxyContext;
+  try {
+    context = await authenticate.public.appProxy(request);
+  } catch (e) {
+    if (e instanceof Response) throw proxyJson({ ok: false, error: "Invalid proxy signature" }, 401);
+    throw e;
+  }
+
+  // The `shop` param is covered by the signature, so it can only be trusted after the check above.
+  const shop = new URL(request.url).searchParams.get("shop");
+  if (!shop) throw proxyJson({ ok: false, error: "Missing shop" }, 400);
+
+  return { context, shop };
+}
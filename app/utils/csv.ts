@@ -0,0 +1,92 @@
+// RFC 4180 CSV reading and writing, shared by rule imports, exports and error reports.
+
+/**
+ * Parses a CSV byte stream one record at a time, so large files never sit in memory as rows.
+ * Quoted fields may contain commas, doubled quotes ("") and line breaks; CRLF, LF and CR all
+ * end a record. A leading UTF-8 BOM is dropped and blank lines are skipped.
+ */
+export async function* parseCsvStream(stream: ReadableStream<Uint8Array>): AsyncGenerator<string[]> {
+  // TextDecoder drops the BOM itself unless told otherwise.
+  const decoder = new TextDecoder("utf-8");
+  const reader = stream.getReader();
+
+  let record: string[] = [];
+  let field = "";
+  let inQuotes = false;
+  let quotePending = false; // a quote inside a quoted field: escaped quote or end of field
+  let prev = "";
+
+  const endRecord = () => {
+    record.push(field);
+    const done = record;
+    record = [];
+    field = "";
+    return done.length === 1 && done[0].trim() === "" ? null : done;
+  };
+
+  const consume = function* (text: string) {
+    for (let i = 0; i < text.length; i++) {
+      const ch = text[i];
+
+      if (inQuotes) {
+        if (quotePending) {
+          quotePending = false;
+          if (ch === '"') {
+            field += '"';
+            prev = ch;
+            continue;
+          }
+          inQuotes = false;
+        } else if (ch === '"') {
+          quotePending = true;
+          prev = ch;
+          continue;
+        } else {
+          field += ch;
+          prev = ch;
+          continue;
+        }
+      }
+
+      if (ch === '"' && field === "") {
+        inQuotes = true;
+      } else if (ch === ",") {
+        record.push(field);
+        field = "";
+      } else if (ch === "\n" || ch === "\r") {
+        if (!(ch === "\n" && prev === "\r")) {
+          const done = endRecord();
+          if (done) yield done;
+        }
+      } else {
+        field += ch;
+      }
+      prev = ch;
+    }
+  };
+
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    yield* consume(decoder.decode(value, { stream: true }));
+  }
+  yield* consume(decoder.decode());
+
+  if (field !== "" || record.length) {
+    const last = endRecord();
+    if (last) yield last;
+  }
+}
+
+function csvField(value: string | number | boolean | null | undefined) {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+export function toCsvRow(values: Array<string | number | boolean | null | undefined>) {
+  return values.map(csvField).join(",");
+}
+
+export function toCsv(header: string[], rows: Array<Array<string | number | boolean | null | undefined>>) {
+  return [header, ...rows].map(toCsvRow).join("\r\n") + "\r\n";
+}
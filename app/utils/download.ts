@@ -0,0 +1,11 @@
+// App Bridge adds the session token to fetch, which a plain download link would lack.
+export async function downloadFile(path: string, fallbackName: string) {
+  const res = await fetch(path);
+  const name = res.headers.get("Content-Disposition")?.match(/filename="([^"]+)"/)?.[1] ?? fallbackName;
+  const url = URL.createObjectURL(await res.blob());
+  const a = document.createElement("a");
+  a.href = url;
+  a.download = name;
+  a.click();
+  URL.revokeObjectURL(url);
+}
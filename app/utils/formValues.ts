@@ -0,0 +1,16 @@
+// Lenient parsers for form fields and CSV cells.
+
+export function toBool(val: string | null, fallback = false) {
+  if (!val) return fallback;
+  const v = val.toString().trim().toLowerCase();
+  return v === "true" || v === "1" || v === "yes";
+}
+
+export function toIntOrNull(val: string | null) {
+  if (!val) return null;
+  const s = val.toString().trim();
+  if (!s) return null;
+  const n = Number(s);
+  if (!Number.isFinite(n) || !Number.isInteger(n) || n < 0) return null;
+  return n;
+}
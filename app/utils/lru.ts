@@ -0,0 +1,33 @@
+// A size-bounded in-memory cache that evicts the least recently used entry first.
+// Entries also expire, so a missed invalidation can only serve stale data for `ttlMs`.
+export class LruCache<K, V> {
+  private entries = new Map<K, { value: V; expiresAt: number }>();
+
+  constructor(private readonly maxEntries: number) {}
+
+  get size() {
+    return this.entries.size;
+  }
+
+  get(key: K, now = Date.now()): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry) return undefined;
+    this.entries.delete(key);
+    if (entry.expiresAt <= now) return undefined;
+    // Map keeps insertion order, so re-inserting marks the entry as most recently used.
+    this.entries.set(key, entry);
+    return entry.value;
+  }
+
+  set(key: K, value: V, ttlMs: number, now = Date.now()) {
+    this.entries.delete(key);
+    this.entries.set(key, { value, expiresAt: now + ttlMs });
+    while (this.entries.size > this.maxEntries) {
+      this.entries.delete(this.entries.keys().next().value as K);
+    }
+  }
+
+  delete(key: K) {
+    this.entries.delete(key);
+  }
+}
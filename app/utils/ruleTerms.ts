@@ -0,0 +1,75 @@
+import { toBool, toIntOrNull } from "./formValues";
+
+// Parsing and validation for the editable terms of a rule, shared by the action and the
+// inline editor so both report the same field errors.
+
+const TERM_INT_FIELDS = [
+  "etaMinDays",
+  "etaMaxDays",
+  "shippingFee",
+  "expressFee",
+  "expressEtaMinDays",
+  "expressEtaMaxDays",
+] as const;
+
+export type EditableTerms = {
+  deliverable: boolean;
+  codAvailable: boolean;
+  etaMinDays: number | null;
+  etaMaxDays: number | null;
+  shippingFee: number | null;
+  expressFee: number | null;
+  expressEtaMinDays: number | null;
+  expressEtaMaxDays: number | null;
+};
+
+export type TermErrors = Partial<Record<keyof EditableTerms, string>>;
+
+const FIELD_LABELS: Record<(typeof TERM_INT_FIELDS)[number], string> = {
+  etaMinDays: "ETA Min",
+  etaMaxDays: "ETA Max",
+  shippingFee: "Shipping fee",
+  expressFee: "Express fee",
+  expressEtaMinDays: "Express ETA Min",
+  expressEtaMaxDays: "Express ETA Max",
+};
+
+export function parseRuleTerms(get: (field: string) => string | null): { terms: EditableTerms; errors: TermErrors } {
+  const errors: TermErrors = {};
+  const int = (field: (typeof TERM_INT_FIELDS)[number]) => {
+    const raw = (get(field) ?? "").trim();
+    const value = toIntOrNull(raw);
+    if (raw && value === null) errors[field] = `${FIELD_LABELS[field]} must be a non-negative integer.`;
+    return value;
+  };
+
+  const terms: EditableTerms = {
+    deliverable: toBool(get("deliverable"), true),
+    codAvailable: toBool(get("codAvailable"), false),
+    etaMinDays: int("etaMinDays"),
+    etaMaxDays: int("etaMaxDays"),
+    shippingFee: int("shippingFee"),
+    expressFee: int("expressFee"),
+    expressEtaMinDays: int("expressEtaMinDays"),
+    expressEtaMaxDays: int("expressEtaMaxDays"),
+  };
+
+  if (terms.etaMinDays !== null && terms.etaMaxDays !== null && terms.etaMinDays > terms.etaMaxDays) {
+    errors.etaMaxDays ??= "ETA Max must not be less than ETA Min.";
+  }
+  if (
+    terms.expressEtaMinDays !== null &&
+    terms.expressEtaMaxDays !== null &&
+    terms.expressEtaMinDays > terms.expressEtaMaxDays
+  ) {
+    errors.expressEtaMaxDays ??= "Express ETA Max must not be less than Express ETA Min.";
+  }
+  // Checkout only splits standard/express when both fees exist.
+  if (terms.expressFee !== null && terms.shippingFee === null) {
+    errors.expressFee ??= "Set a standard shipping fee before adding an express fee.";
+  }
+
+  return { terms, errors };
+}
+
+export const firstTermError = (errors: TermErrors) => Object.values(errors)[0] ?? null;
@@ -0,0 +1,47 @@
+// @ts-check
+import { inRuns, normalizePincode, parseRuns } from "./pincode_runs";
+
+/**
+ * @typedef {import("../generated/api").CartValidationsGenerateRunInput} CartValidationsGenerateRunInput
+ * @typedef {import("../generated/api").CartValidationsGenerateRunResult} CartValidationsGenerateRunResult
+ */
+
+const NO_CHANGES = { operations: [] };
+
+/**
+ * Blocks checkout when a delivery group ships to an Indian pincode that no deliverable rule covers.
+ * Shops that haven't synced rules yet (no metafield) are left alone, and so is the cart: errors there
+ * would stop the buyer from changing it. In checkout the error shows as the address is entered and
+ * blocks only completing the order.
+ *
+ * @param {CartValidationsGenerateRunInput} input
+ * @returns {CartValidationsGenerateRunResult}
+ */
+export function cartValidationsGenerateRun(input) {
+  if (input.buyerJourney.step === "CART_INTERACTION") return NO_CHANGES;
+
+  const rules = input.shop.metafield?.jsonValue;
+  if (!rules || typeof rules.deliverable !== "string") return NO_CHANGES;
+
+  const deliverable = parseRuns(rules.deliverable);
+  const errors = [];
+
+  for (const group of input.cart.deliveryGroups) {
+    const address = group.deliveryAddress;
+    if (!address || address.countryCode !== "IN") continue;
+
+    const pincode = normalizePincode(address.zip);
+    if (!pincode) continue;
+
+    if (!inRuns(deliverable, pincode)) {
+      errors.push({
+        message: `We can't deliver to pincode ${pincode} yet. Please use a different shipping address.`,
+        target: "$.cart",
+      });
+      break;
+    }
+  }
+
+  if (!errors.length) return NO_CHANGES;
+  return { operations: [{ validationAdd: { errors } }] };
+}
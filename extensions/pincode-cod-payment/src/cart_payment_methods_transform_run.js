@@ -0,0 +1,39 @@
+// @ts-check
+import { inRuns, normalizePincode, parseRuns } from "./pincode_runs";
+
+/**
+ * @typedef {import("../generated/api").CartPaymentMethodsTransformRunInput} CartPaymentMethodsTransformRunInput
+ * @typedef {import("../generated/api").CartPaymentMethodsTransformRunResult} CartPaymentMethodsTransformRunResult
+ */
+
+const NO_CHANGES = { operations: [] };
+
+// Manual payment methods are named by the merchant, so match the common spellings.
+const COD_NAME = /cash on delivery|\bcod\b|pay on delivery/i;
+
+/**
+ * Hides COD payment methods when any delivery group ships to an Indian pincode
+ * whose rule doesn't allow COD. Does nothing until the merchant turns enforcement on.
+ *
+ * @param {CartPaymentMethodsTransformRunInput} input
+ * @returns {CartPaymentMethodsTransformRunResult}
+ */
+export function cartPaymentMethodsTransformRun(input) {
+  const rules = input.shop.metafield?.jsonValue;
+  if (!rules || rules.codEnforced !== true || typeof rules.cod !== "string") return NO_CHANGES;
+
+  const codRuns = parseRuns(rules.cod);
+  const blocked = input.cart.deliveryGroups.some((group) => {
+    const address = group.deliveryAddress;
+    if (!address || address.countryCode !== "IN") return false;
+    const pincode = normalizePincode(address.zip);
+    return pincode !== null && !inRuns(codRuns, pincode);
+  });
+  if (!blocked) return NO_CHANGES;
+
+  return {
+    operations: input.paymentMethods
+      .filter((method) => COD_NAME.test(method.name))
+      .map((method) => ({ paymentMethodHide: { paymentMethodId: method.id } })),
+  };
+}
@@ -0,0 +1 @@
+export * from "./cart_payment_methods_transform_run";
@@ -0,0 +1,38 @@
+// Decodes the run strings written by app/models/checkoutSync.server.ts
+// ("110001-110005,560034") and answers membership with a binary search.
+
+/**
+ * @param {string | undefined} encoded
+ * @returns {Array<[number, number]>}
+ */
+export function parseRuns(encoded) {
+  if (!encoded) return [];
+  return encoded.split(",").map((run) => {
+    const [from, to] = run.split("-");
+    return [Number(from), Number(to ?? from)];
+  });
+}
+
+/**
+ * @param {Array<[number, number]>} runs sorted, non-overlapping
+ * @param {string} pincode
+ */
+export function inRuns(runs, pincode) {
+  const pin = Number(pincode);
+  let lo = 0;
+  let hi = runs.length - 1;
+  while (lo <= hi) {
+    const mid = (lo + hi) >> 1;
+    const [from, to] = runs[mid];
+    if (pin < from) hi = mid - 1;
+    else if (pin > to) lo = mid + 1;
+    else return true;
+  }
+  return false;
+}
+
+/** Indian addresses sometimes arrive as "560 034"; anything else that isn't 6 digits is ignored. */
+export function normalizePincode(zip) {
+  const digits = String(zip || "").replace(/\s+/g, "");
+  return /^\d{6}$/.test(digits) ? digits : null;
+}
@@ -0,0 +1,30 @@
+// @ts-check
+
+/**
+ * @typedef {import("../generated/api").CartDeliveryOptionsTransformRunInput} CartDeliveryOptionsTransformRunInput
+ * @typedef {import("../generated/api").CartDeliveryOptionsTransformRunResult} CartDeliveryOptionsTransformRunResult
+ */
+
+const RATE_CODE_PREFIX = "pincode-";
+
+/** @param {{ code?: string | null }} option */
+const isRuleRate = (option) => (option.code || "").startsWith(RATE_CODE_PREFIX);
+
+/**
+ * In every delivery group where the app's carrier service quoted a rate, hides the other
+ * shipping rates. Pickup and local delivery options are left alone.
+ *
+ * @param {CartDeliveryOptionsTransformRunInput} input
+ * @returns {CartDeliveryOptionsTransformRunResult}
+ */
+export function cartDeliveryOptionsTransformRun(input) {
+  const operations = input.cart.deliveryGroups.flatMap((group) => {
+    if (!group.deliveryOptions.some(isRuleRate)) return [];
+
+    return group.deliveryOptions
+      .filter((option) => option.deliveryMethodType === "SHIPPING" && !isRuleRate(option))
+      .map((option) => ({ deliveryOptionHide: { deliveryOptionHandle: option.handle } }));
+  });
+
+  return { operations };
+}
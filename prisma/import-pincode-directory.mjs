@@ -0,0 +1,125 @@
+// Loads the India Post pincode directory into the PincodeLocation table. Runs fully offline.
+//
+//   npm run directory:import                      # bundled sample (prisma/data)
+//   npm run directory:import -- ./all_india.csv   # full directory CSV from data.gov.in
+//
+// Re-running is safe: existing (pincode, officeName) rows are skipped.
+import { createReadStream } from "node:fs";
+import { createInterface } from "node:readline";
+import { fileURLToPath } from "node:url";
+import { PrismaClient } from "@prisma/client";
+
+const DEFAULT_FILE = fileURLToPath(new URL("./data/pincode-directory.sample.csv", import.meta.url));
+const BATCH_SIZE = 1000;
+
+// data.gov.in has published the directory under a few header spellings over the years
+const HEADER_ALIASES = {
+  pincode: ["pincode", "pin code", "pin"],
+  officeName: ["officename", "office name", "office_name"],
+  officeType: ["officetype", "office type", "office_type"],
+  district: ["district", "districtname", "district name"],
+  state: ["statename", "state name", "state"],
+};
+
+function splitCsvLine(line) {
+  const out = [];
+  let cur = "";
+  let quoted = false;
+  for (let i = 0; i < line.length; i++) {
+    const ch = line[i];
+    if (quoted) {
+      if (ch === '"' && line[i + 1] === '"') {
+        cur += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        cur += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ",") {
+      out.push(cur.trim());
+      cur = "";
+    } else {
+      cur += ch;
+    }
+  }
+  out.push(cur.trim());
+  return out;
+}
+
+function titleCase(value) {
+  return value.toLowerCase().replace(/\b([a-z])/g, (c) => c.toUpperCase());
+}
+
+// "Connaught Place S.O" -> "Connaught Place"; the office type is kept in its own column
+function cleanOfficeName(value) {
+  return value.replace(/\s+[HSBP]\.?O\.?$/i, "").trim();
+}
+
+async function main() {
+  const file = process.argv[2] || DEFAULT_FILE;
+  const prisma = new PrismaClient();
+
+  const lines = createInterface({ input: createReadStream(file, "utf8"), crlfDelay: Infinity });
+
+  let columns = null;
+  let batch = [];
+  let read = 0;
+  let skipped = 0;
+  let inserted = 0;
+
+  const flush = async () => {
+    if (!batch.length) return;
+    const res = await prisma.pincodeLocation.createMany({ data: batch, skipDuplicates: true });
+    inserted += res.count;
+    batch = [];
+  };
+
+  for await (const raw of lines) {
+    const line = raw.replace(/^\uFEFF/, "");
+    if (!line.trim()) continue;
+
+    const cells = splitCsvLine(line);
+    if (!columns) {
+      const headers = cells.map((h) => h.toLowerCase());
+      columns = Object.fromEntries(
+        Object.entries(HEADER_ALIASES).map(([key, aliases]) => [key, headers.findIndex((h) => aliases.includes(h))])
+      );
+      const missing = ["pincode", "officeName", "district", "state"].filter((k) => columns[k] < 0);
+      if (missing.length) throw new Error(`Directory file is missing column(s): ${missing.join(", ")}`);
+      continue;
+    }
+
+    read++;
+    const pincode = cells[columns.pincode] || "";
+    const officeName = cleanOfficeName(cells[columns.officeName] || "");
+    const district = cells[columns.district] || "";
+    const state = cells[columns.state] || "";
+
+    if (!/^\d{6}$/.test(pincode) || !officeName || !district || !state) {
+      skipped++;
+      continue;
+    }
+
+    batch.push({
+      pincode,
+      officeName,
+      officeType: columns.officeType >= 0 ? cells[columns.officeType] || null : null,
+      district: titleCase(district),
+      state: titleCase(state),
+    });
+
+    if (batch.length >= BATCH_SIZE) await flush();
+  }
+  await flush();
+
+  console.log(`Pincode directory: read ${read} rows, inserted ${inserted}, skipped ${skipped} invalid.`);
+  await prisma.$disconnect();
+}
+
+main().catch((e) => {
+  console.error(e);
+  process.exit(1);
+});
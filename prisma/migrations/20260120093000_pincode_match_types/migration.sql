@@ -0,0 +1,12 @@
+-- CreateEnum
+CREATE TYPE "PincodeMatchType" AS ENUM ('EXACT', 'RANGE', 'PREFIX');
+
+-- DropIndex
+DROP INDEX "PincodeRule_shop_pincode_key";
+
+-- AlterTable
+ALTER TABLE "PincodeRule" ADD COLUMN     "matchType" "PincodeMatchType" NOT NULL DEFAULT 'EXACT',
+ADD COLUMN     "pincodeEnd" TEXT;
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PincodeRule_shop_matchType_pincode_key" ON "PincodeRule"("shop", "matchType", "pincode");
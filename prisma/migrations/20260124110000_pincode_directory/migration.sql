@@ -0,0 +1,17 @@
+-- CreateTable
+CREATE TABLE "PincodeLocation" (
+    "id" TEXT NOT NULL,
+    "pincode" TEXT NOT NULL,
+    "officeName" TEXT NOT NULL,
+    "officeType" TEXT,
+    "district" TEXT NOT NULL,
+    "state" TEXT NOT NULL,
+
+    CONSTRAINT "PincodeLocation_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PincodeLocation_pincode_idx" ON "PincodeLocation"("pincode");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PincodeLocation_pincode_officeName_key" ON "PincodeLocation"("pincode", "officeName");
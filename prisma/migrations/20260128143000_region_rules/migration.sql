@@ -0,0 +1,26 @@
+-- CreateEnum
+CREATE TYPE "RegionScope" AS ENUM ('SHOP', 'STATE', 'DISTRICT');
+
+-- CreateTable
+CREATE TABLE "RegionRule" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "scope" "RegionScope" NOT NULL,
+    "state" TEXT NOT NULL DEFAULT '',
+    "district" TEXT NOT NULL DEFAULT '',
+    "deliverable" BOOLEAN NOT NULL DEFAULT true,
+    "etaMinDays" INTEGER,
+    "etaMaxDays" INTEGER,
+    "codAvailable" BOOLEAN NOT NULL DEFAULT false,
+    "shippingFee" INTEGER,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RegionRule_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RegionRule_shop_idx" ON "RegionRule"("shop");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "RegionRule_shop_scope_state_district_key" ON "RegionRule"("shop", "scope", "state", "district");
@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "RestrictionTarget" AS ENUM ('PRODUCT', 'TAG', 'COLLECTION');
+
+-- CreateEnum
+CREATE TYPE "RestrictionMode" AS ENUM ('ALLOW_ONLY', 'BLOCK');
+
+-- CreateTable
+CREATE TABLE "ProductRestriction" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "targetType" "RestrictionTarget" NOT NULL,
+    "targetId" TEXT NOT NULL,
+    "targetLabel" TEXT NOT NULL,
+    "mode" "RestrictionMode" NOT NULL DEFAULT 'ALLOW_ONLY',
+    "pincodes" TEXT NOT NULL,
+    "message" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "ProductRestriction_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ProductRestriction_shop_idx" ON "ProductRestriction"("shop");
@@ -0,0 +1,14 @@
+-- AlterTable
+ALTER TABLE "PincodeRule" ADD COLUMN     "expressEtaMaxDays" INTEGER,
+ADD COLUMN     "expressEtaMinDays" INTEGER,
+ADD COLUMN     "expressFee" INTEGER;
+
+-- AlterTable
+ALTER TABLE "RegionRule" ADD COLUMN     "expressEtaMaxDays" INTEGER,
+ADD COLUMN     "expressEtaMinDays" INTEGER,
+ADD COLUMN     "expressFee" INTEGER;
+
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN     "carrierServiceId" TEXT,
+ADD COLUMN     "chargeRuleFees" BOOLEAN NOT NULL DEFAULT false,
+ADD COLUMN     "deliveryCustomizationId" TEXT;
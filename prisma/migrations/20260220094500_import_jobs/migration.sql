@@ -0,0 +1,44 @@
+-- CreateEnum
+CREATE TYPE "ImportJobStatus" AS ENUM ('QUEUED', 'RUNNING', 'COMPLETED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "ImportJob" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "status" "ImportJobStatus" NOT NULL DEFAULT 'QUEUED',
+    "fileName" TEXT NOT NULL,
+    "csv" TEXT,
+    "totalRows" INTEGER,
+    "processedRows" INTEGER NOT NULL DEFAULT 0,
+    "inserted" INTEGER NOT NULL DEFAULT 0,
+    "updated" INTEGER NOT NULL DEFAULT 0,
+    "invalidCount" INTEGER NOT NULL DEFAULT 0,
+    "unknownCount" INTEGER NOT NULL DEFAULT 0,
+    "unknown" JSONB NOT NULL DEFAULT '[]',
+    "failureReason" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+    "finishedAt" TIMESTAMP(3),
+
+    CONSTRAINT "ImportJob_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "ImportJobError" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "row" INTEGER NOT NULL,
+    "pincode" TEXT NOT NULL,
+    "reason" TEXT NOT NULL,
+
+    CONSTRAINT "ImportJobError_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "ImportJob_shop_createdAt_idx" ON "ImportJob"("shop", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "ImportJobError_jobId_row_idx" ON "ImportJobError"("jobId", "row");
+
+-- AddForeignKey
+ALTER TABLE "ImportJobError" ADD CONSTRAINT "ImportJobError_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "ImportJob"("id") ON DELETE CASCADE ON UPDATE CASCADE;
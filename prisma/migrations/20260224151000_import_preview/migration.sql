@@ -0,0 +1,9 @@
+-- AlterEnum
+ALTER TYPE "ImportJobStatus" ADD VALUE 'PREVIEWING';
+ALTER TYPE "ImportJobStatus" ADD VALUE 'AWAITING_CONFIRMATION';
+ALTER TYPE "ImportJobStatus" ADD VALUE 'CANCELLED';
+
+-- AlterTable
+ALTER TABLE "ImportJob" ADD COLUMN     "deleted" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "preview" JSONB,
+ADD COLUMN     "replaceMode" BOOLEAN NOT NULL DEFAULT false;
@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "RuleAuditAction" AS ENUM ('CREATE', 'UPDATE', 'DELETE');
+
+-- CreateEnum
+CREATE TYPE "RuleAuditSource" AS ENUM ('EDIT', 'BULK_EDIT', 'IMPORT', 'API', 'REVERT');
+
+-- AlterTable
+ALTER TABLE "ImportJob" ADD COLUMN     "createdBy" TEXT;
+
+-- CreateTable
+CREATE TABLE "RuleAuditEntry" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "action" "RuleAuditAction" NOT NULL,
+    "source" "RuleAuditSource" NOT NULL,
+    "importJobId" TEXT,
+    "actor" TEXT,
+    "matchType" "PincodeMatchType" NOT NULL,
+    "pincode" TEXT NOT NULL,
+    "before" JSONB,
+    "after" JSONB,
+    "revertedAt" TIMESTAMP(3),
+    "revertedBy" TEXT,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "RuleAuditEntry_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RuleAuditEntry_shop_createdAt_idx" ON "RuleAuditEntry"("shop", "createdAt");
+
+-- CreateIndex
+CREATE INDEX "RuleAuditEntry_importJobId_idx" ON "RuleAuditEntry"("importJobId");
@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "RuleSetStatus" AS ENUM ('DRAFT', 'SCHEDULED', 'PUBLISHED', 'ARCHIVED');
+
+-- CreateTable
+CREATE TABLE "RuleSet" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "status" "RuleSetStatus" NOT NULL DEFAULT 'DRAFT',
+    "publishAt" TIMESTAMP(3),
+    "publishedAt" TIMESTAMP(3),
+    "archivedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "RuleSet_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "RuleSet_shop_status_idx" ON "RuleSet"("shop", "status");
+
+-- Existing rules become each shop's first published set.
+INSERT INTO "RuleSet" ("id", "shop", "name", "status", "publishedAt", "updatedAt")
+SELECT 'rs_' || md5("shop"), "shop", 'Initial rules', 'PUBLISHED', CURRENT_TIMESTAMP, CURRENT_TIMESTAMP
+FROM (SELECT DISTINCT "shop" FROM "PincodeRule") AS shops;
+
+-- AlterTable
+ALTER TABLE "PincodeRule" ADD COLUMN     "ruleSetId" TEXT;
+UPDATE "PincodeRule" SET "ruleSetId" = 'rs_' || md5("shop");
+ALTER TABLE "PincodeRule" ALTER COLUMN "ruleSetId" SET NOT NULL;
+
+-- DropIndex
+DROP INDEX "PincodeRule_shop_matchType_pincode_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PincodeRule_ruleSetId_matchType_pincode_key" ON "PincodeRule"("ruleSetId", "matchType", "pincode");
+
+-- AddForeignKey
+ALTER TABLE "PincodeRule" ADD CONSTRAINT "PincodeRule_ruleSetId_fkey" FOREIGN KEY ("ruleSetId") REFERENCES "RuleSet"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- AlterTable
+ALTER TABLE "ImportJob" ADD COLUMN     "ruleSetId" TEXT;
+
+-- AlterTable
+ALTER TABLE "RuleAuditEntry" ADD COLUMN     "ruleSetId" TEXT;
@@ -0,0 +1,45 @@
+-- CreateEnum
+CREATE TYPE "BlackoutScope" AS ENUM ('SHOP', 'STATE', 'DISTRICT', 'PINCODES');
+
+-- CreateEnum
+CREATE TYPE "BlackoutEffect" AS ENUM ('UNDELIVERABLE', 'DELAY');
+
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN     "nonWorkingDays" INTEGER[] DEFAULT ARRAY[]::INTEGER[];
+
+-- CreateTable
+CREATE TABLE "BlackoutWindow" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "scope" "BlackoutScope" NOT NULL,
+    "state" TEXT NOT NULL DEFAULT '',
+    "district" TEXT NOT NULL DEFAULT '',
+    "pincodes" TEXT NOT NULL DEFAULT '',
+    "effect" "BlackoutEffect" NOT NULL DEFAULT 'UNDELIVERABLE',
+    "delayDays" INTEGER NOT NULL DEFAULT 0,
+    "message" TEXT,
+    "startsAt" TIMESTAMP(3) NOT NULL,
+    "endsAt" TIMESTAMP(3) NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "BlackoutWindow_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateTable
+CREATE TABLE "Holiday" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "date" DATE NOT NULL,
+    "name" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "Holiday_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "BlackoutWindow_shop_endsAt_idx" ON "BlackoutWindow"("shop", "endsAt");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Holiday_shop_date_key" ON "Holiday"("shop", "date");
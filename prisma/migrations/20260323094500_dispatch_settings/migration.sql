@@ -0,0 +1,4 @@
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN     "dispatchCutoffMinutes" INTEGER,
+ADD COLUMN     "processingDays" INTEGER NOT NULL DEFAULT 0,
+ADD COLUMN     "timeZone" TEXT NOT NULL DEFAULT 'Asia/Kolkata';
@@ -0,0 +1,33 @@
+-- CreateEnum
+CREATE TYPE "OriginStrategy" AS ENUM ('FASTEST', 'CHEAPEST');
+
+-- AlterTable
+ALTER TABLE "PincodeRule" ADD COLUMN     "origin" TEXT NOT NULL DEFAULT '';
+
+-- AlterTable
+ALTER TABLE "RuleAuditEntry" ADD COLUMN     "origin" TEXT NOT NULL DEFAULT '';
+
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN     "originStrategy" "OriginStrategy" NOT NULL DEFAULT 'FASTEST';
+
+-- CreateTable
+CREATE TABLE "Warehouse" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "code" TEXT NOT NULL,
+    "name" TEXT NOT NULL,
+    "locationId" TEXT NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "Warehouse_pkey" PRIMARY KEY ("id")
+);
+
+-- DropIndex
+DROP INDEX "PincodeRule_ruleSetId_matchType_pincode_key";
+
+-- CreateIndex
+CREATE UNIQUE INDEX "PincodeRule_ruleSetId_origin_matchType_pincode_key" ON "PincodeRule"("ruleSetId", "origin", "matchType", "pincode");
+
+-- CreateIndex
+CREATE UNIQUE INDEX "Warehouse_shop_code_key" ON "Warehouse"("shop", "code");
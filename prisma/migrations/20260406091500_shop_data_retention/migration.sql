@@ -0,0 +1,23 @@
+-- CreateEnum
+CREATE TYPE "DataPurgeReason" AS ENUM ('UNINSTALL_EXPIRED', 'SHOP_REDACT', 'CUSTOMER_REDACT');
+
+-- AlterTable
+ALTER TABLE "ShopSettings" ADD COLUMN     "uninstalledAt" TIMESTAMP(3);
+
+-- CreateTable
+CREATE TABLE "DataPurge" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "reason" "DataPurgeReason" NOT NULL,
+    "webhookId" TEXT,
+    "deleted" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "DataPurge_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "DataPurge_webhookId_key" ON "DataPurge"("webhookId");
+
+-- CreateIndex
+CREATE INDEX "DataPurge_shop_createdAt_idx" ON "DataPurge"("shop", "createdAt");
@@ -0,0 +1,24 @@
+-- CreateEnum
+CREATE TYPE "LookupResult" AS ENUM ('DELIVERABLE', 'NOT_DELIVERABLE', 'RESTRICTED', 'UNKNOWN_PINCODE');
+
+-- CreateTable
+CREATE TABLE "PincodeLookup" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "pincode" TEXT NOT NULL,
+    "result" "LookupResult" NOT NULL,
+    "state" TEXT,
+    "day" DATE NOT NULL,
+    "productId" TEXT,
+    "visitor" TEXT,
+    "addedToCart" BOOLEAN NOT NULL DEFAULT false,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "PincodeLookup_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE INDEX "PincodeLookup_shop_day_idx" ON "PincodeLookup"("shop", "day");
+
+-- CreateIndex
+CREATE INDEX "PincodeLookup_shop_result_pincode_idx" ON "PincodeLookup"("shop", "result", "pincode");
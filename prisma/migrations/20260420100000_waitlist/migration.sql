@@ -0,0 +1,35 @@
+-- CreateEnum
+CREATE TYPE "WaitlistChannel" AS ENUM ('EMAIL', 'PHONE');
+
+-- CreateEnum
+CREATE TYPE "WaitlistStatus" AS ENUM ('WAITING', 'QUEUED', 'NOTIFIED', 'FAILED');
+
+-- CreateTable
+CREATE TABLE "WaitlistSignup" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "pincode" TEXT NOT NULL,
+    "productId" TEXT NOT NULL DEFAULT '',
+    "productTitle" TEXT,
+    "productPath" TEXT,
+    "channel" "WaitlistChannel" NOT NULL,
+    "contact" TEXT NOT NULL,
+    "status" "WaitlistStatus" NOT NULL DEFAULT 'WAITING',
+    "attempts" INTEGER NOT NULL DEFAULT 0,
+    "lastError" TEXT,
+    "queuedAt" TIMESTAMP(3),
+    "notifiedAt" TIMESTAMP(3),
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+    "updatedAt" TIMESTAMP(3) NOT NULL,
+
+    CONSTRAINT "WaitlistSignup_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "WaitlistSignup_shop_pincode_productId_contact_key" ON "WaitlistSignup"("shop", "pincode", "productId", "contact");
+
+-- CreateIndex
+CREATE INDEX "WaitlistSignup_shop_status_pincode_idx" ON "WaitlistSignup"("shop", "status", "pincode");
+
+-- CreateIndex
+CREATE INDEX "WaitlistSignup_status_queuedAt_idx" ON "WaitlistSignup"("status", "queuedAt");
@@ -0,0 +1,19 @@
+-- CreateTable
+CREATE TABLE "CustomerDataRequest" (
+    "id" TEXT NOT NULL,
+    "shop" TEXT NOT NULL,
+    "webhookId" TEXT,
+    "requestId" TEXT,
+    "customerId" TEXT,
+    "contacts" TEXT[],
+    "data" JSONB NOT NULL,
+    "createdAt" TIMESTAMP(3) NOT NULL DEFAULT CURRENT_TIMESTAMP,
+
+    CONSTRAINT "CustomerDataRequest_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "CustomerDataRequest_webhookId_key" ON "CustomerDataRequest"("webhookId");
+
+-- CreateIndex
+CREATE INDEX "CustomerDataRequest_shop_createdAt_idx" ON "CustomerDataRequest"("shop", "createdAt");
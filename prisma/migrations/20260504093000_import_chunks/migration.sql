@@ -0,0 +1,25 @@
+-- AlterEnum
+ALTER TYPE "ImportJobStatus" ADD VALUE 'UPLOADING';
+
+-- CreateTable
+CREATE TABLE "ImportJobChunk" (
+    "id" TEXT NOT NULL,
+    "jobId" TEXT NOT NULL,
+    "index" INTEGER NOT NULL,
+    "data" BYTEA NOT NULL,
+
+    CONSTRAINT "ImportJobChunk_pkey" PRIMARY KEY ("id")
+);
+
+-- CreateIndex
+CREATE UNIQUE INDEX "ImportJobChunk_jobId_index_key" ON "ImportJobChunk"("jobId", "index");
+
+-- AddForeignKey
+ALTER TABLE "ImportJobChunk" ADD CONSTRAINT "ImportJobChunk_jobId_fkey" FOREIGN KEY ("jobId") REFERENCES "ImportJob"("id") ON DELETE CASCADE ON UPDATE CASCADE;
+
+-- Files of jobs still in flight become their first and only chunk.
+INSERT INTO "ImportJobChunk" ("id", "jobId", "index", "data")
+SELECT "id" || '-0', "id", 0, convert_to("csv", 'UTF8') FROM "ImportJob" WHERE "csv" IS NOT NULL;
+
+-- AlterTable
+ALTER TABLE "ImportJob" DROP COLUMN "csv";
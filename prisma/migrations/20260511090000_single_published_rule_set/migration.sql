@@ -0,0 +1,15 @@
+-- Keep only the newest published set per shop; a race could have left two.
+UPDATE "RuleSet" AS r
+SET "status" = 'ARCHIVED', "archivedAt" = CURRENT_TIMESTAMP
+WHERE r."status" = 'PUBLISHED'
+  AND EXISTS (
+    SELECT 1 FROM "RuleSet" AS newer
+    WHERE newer."shop" = r."shop"
+      AND newer."status" = 'PUBLISHED'
+      AND (COALESCE(newer."publishedAt", newer."createdAt"), newer."id")
+        > (COALESCE(r."publishedAt", r."createdAt"), r."id")
+  );
+
+-- CreateIndex
+-- Partial indexes aren't expressible in schema.prisma; see the note on RuleSet.
+CREATE UNIQUE INDEX "RuleSet_shop_published_key" ON "RuleSet"("shop") WHERE "status" = 'PUBLISHED';
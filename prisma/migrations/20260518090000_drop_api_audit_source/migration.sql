@@ -0,0 +1,10 @@
+-- Nothing ever recorded API; rule writes only come from the admin pages, imports and reverts.
+
+-- AlterEnum
+BEGIN;
+CREATE TYPE "RuleAuditSource_new" AS ENUM ('EDIT', 'BULK_EDIT', 'IMPORT', 'REVERT');
+ALTER TABLE "RuleAuditEntry" ALTER COLUMN "source" TYPE "RuleAuditSource_new" USING ("source"::text::"RuleAuditSource_new");
+ALTER TYPE "RuleAuditSource" RENAME TO "RuleAuditSource_old";
+ALTER TYPE "RuleAuditSource_new" RENAME TO "RuleAuditSource";
+DROP TYPE "RuleAuditSource_old";
+COMMIT;
@@ -0,0 +1,89 @@
+// Load-tests the storefront pincode check (/proxy/check) of a running app and prints latency
+// percentiles. Requests are signed the way the Shopify app proxy signs them, so they go through
+// the same verification as real widget traffic.
+//
+//   SHOPIFY_API_SECRET=... BENCH_SHOP=my-store.myshopify.com npm run bench:check
+//
+// Optional: BENCH_URL (default http://localhost:3000/proxy/check), BENCH_REQUESTS (2000),
+// BENCH_CONCURRENCY (20), BENCH_PINCODES (comma-separated hot set, default: the bundled sample
+// directory) and BENCH_HOT_SHARE (0.8), the share of requests for the hot set; the rest ask for
+// random pincodes, like first-time visitors.
+import { createHmac } from "node:crypto";
+import { readFileSync } from "node:fs";
+import { fileURLToPath } from "node:url";
+
+const SAMPLE_DIRECTORY = fileURLToPath(new URL("../prisma/data/pincode-directory.sample.csv", import.meta.url));
+
+const secret = process.env.SHOPIFY_API_SECRET;
+const shop = process.env.BENCH_SHOP;
+if (!secret || !shop) {
+  console.error("Set SHOPIFY_API_SECRET and BENCH_SHOP (the shop domain to check against).");
+  process.exit(1);
+}
+
+const url = process.env.BENCH_URL || "http://localhost:3000/proxy/check";
+const total = Number(process.env.BENCH_REQUESTS) || 2000;
+const concurrency = Number(process.env.BENCH_CONCURRENCY) || 20;
+const hotShare = process.env.BENCH_HOT_SHARE ? Number(process.env.BENCH_HOT_SHARE) : 0.8;
+
+function samplePincodes() {
+  const lines = readFileSync(SAMPLE_DIRECTORY, "utf8").trim().split(/\r?\n/).slice(1);
+  return Array.from(new Set(lines.map((line) => line.split(",")[1]).filter((p) => /^\d{6}$/.test(p))));
+}
+
+const hot = process.env.BENCH_PINCODES ? process.env.BENCH_PINCODES.split(",").map((p) => p.trim()) : samplePincodes();
+
+// Same scheme as Shopify's app proxy: sorted key=value pairs, concatenated, HMAC-SHA256 in hex.
+function signedUrl(params) {
+  const query = { ...params, shop, path_prefix: "/apps/pincode", timestamp: String(Math.floor(Date.now() / 1000)) };
+  const message = Object.keys(query)
+    .sort((a, b) => a.localeCompare(b))
+    .map((key) => `${key}=${query[key]}`)
+    .join("");
+  const signature = createHmac("sha256", secret).update(message).digest("hex");
+  return `${url}?${new URLSearchParams({ ...query, signature })}`;
+}
+
+function nextPincode() {
+  if (Math.random() < hotShare) return { kind: "hot", pincode: hot[Math.floor(Math.random() * hot.length)] };
+  return { kind: "random", pincode: String(110000 + Math.floor(Math.random() * 750000)) };
+}
+
+const timings = { hot: [], random: [] };
+const statuses = new Map();
+let sent = 0;
+
+async function worker() {
+  while (sent < total) {
+    sent++;
+    const { kind, pincode } = nextPincode();
+    const started = performance.now();
+    try {
+      const res = await fetch(signedUrl({ pincode }));
+      await res.arrayBuffer();
+      statuses.set(res.status, (statuses.get(res.status) ?? 0) + 1);
+    } catch {
+      statuses.set("error", (statuses.get("error") ?? 0) + 1);
+    }
+    timings[kind].push(performance.now() - started);
+  }
+}
+
+function summarize(label, values) {
+  if (!values.length) return;
+  const sorted = [...values].sort((a, b) => a - b);
+  const at = (q) => sorted[Math.min(sorted.length - 1, Math.floor(q * sorted.length))].toFixed(1);
+  console.log(
+    `${label.padEnd(8)} n=${String(sorted.length).padEnd(6)} p50=${at(0.5)}ms p90=${at(0.9)}ms p99=${at(0.99)}ms max=${sorted[sorted.length - 1].toFixed(1)}ms`,
+  );
+}
+
+console.log(`${total} checks against ${url} for ${shop}, ${concurrency} at a time, ${hot.length} hot pincodes`);
+const started = performance.now();
+await Promise.all(Array.from({ length: concurrency }, worker));
+const seconds = (performance.now() - started) / 1000;
+
+summarize("all", [...timings.hot, ...timings.random]);
+summarize("hot", timings.hot);
+summarize("random", timings.random);
+console.log(`${(total / seconds).toFixed(0)} req/s over ${seconds.toFixed(1)}s; status codes:`, Object.fromEntries(statuses));
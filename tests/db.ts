@@ -0,0 +1,30 @@
+import db from "../app/db.server";
+
+// The database suites run against TEST_DATABASE_URL (see vitest.config.ts) and are skipped without it.
+export const hasDatabase = Boolean(process.env.TEST_DATABASE_URL);
+
+const run = Date.now().toString(36);
+
+// A shop domain no other run or suite uses, so suites can share one database.
+export const testShop = (label: string) => `${label}-${run}.myshopify.com`;
+
+// Removes everything the suites wrote for `shops`; rules and import chunks go with their sets and jobs.
+export async function deleteShops(shops: string[]) {
+  const where = { shop: { in: shops } };
+  await db.$transaction([
+    db.pincodeRule.deleteMany({ where }),
+    db.ruleSet.deleteMany({ where }),
+    db.regionRule.deleteMany({ where }),
+    db.productRestriction.deleteMany({ where }),
+    db.warehouse.deleteMany({ where }),
+    db.blackoutWindow.deleteMany({ where }),
+    db.holiday.deleteMany({ where }),
+    db.importJob.deleteMany({ where }),
+    db.ruleAuditEntry.deleteMany({ where }),
+    db.pincodeLookup.deleteMany({ where }),
+    db.waitlistSignup.deleteMany({ where }),
+    db.customerDataRequest.deleteMany({ where }),
+    db.shopSettings.deleteMany({ where }),
+    db.session.deleteMany({ where }),
+  ]);
+}
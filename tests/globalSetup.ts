@@ -0,0 +1,11 @@
+import { execFileSync } from "node:child_process";
+
+// Brings the test database up to the current schema before any suite runs.
+export default function setup() {
+  const url = process.env.TEST_DATABASE_URL;
+  if (!url) {
+    console.warn("TEST_DATABASE_URL is not set; skipping the database suites.");
+    return;
+  }
+  execFileSync("npx", ["prisma", "migrate", "deploy"], { stdio: "inherit", env: { ...process.env, DATABASE_URL: url } });
+}
@@ -0,0 +1,50 @@
+import { afterAll, describe, expect, it, vi } from "vitest";
+import { readImportForm } from "../app/models/importJob.server";
+import { writeChunk, type ParsedRow } from "../app/models/pincodeImport.server";
+import { revertImport } from "../app/models/ruleAudit.server";
+import { RuleSetError } from "../app/models/ruleSet.server";
+import { shopDb } from "../app/models/shopDb.server";
+import { deleteShops, hasDatabase, testShop } from "./db";
+
+// The import worker syncs checkout through the Admin API, which needs the app's environment.
+vi.mock("../app/shopify.server", () => ({ unauthenticated: { admin: vi.fn() } }));
+
+describe.skipIf(!hasDatabase)("rule imports", () => {
+  const shop = testShop("import");
+  const scoped = shopDb(shop);
+
+  afterAll(() => deleteShops([shop]));
+
+  it("keeps a warehouse's rule for the same pincode out of the import's audit trail and revert", async () => {
+    const ruleSet = await scoped.ruleSet.create({ data: { shop, name: "Draft" } });
+    const warehouseRule = await scoped.pincodeRule.create({
+      data: { shop, ruleSetId: ruleSet.id, origin: "north", pincode: "110001", etaMinDays: 3 },
+    });
+    const job = await scoped.importJob.create({
+      data: { shop, fileName: "rules.csv", ruleSetId: ruleSet.id, status: "RUNNING" },
+    });
+
+    const row: ParsedRow = { row: 2, matchType: "EXACT", pincode: "110001", origin: "", data: { etaMinDays: 2 } };
+    const written = await scoped.$transaction((tx) =>
+      writeChunk(tx, { shop, ruleSetId: ruleSet.id }, [row], { source: "IMPORT", actor: null, importJobId: job.id }),
+    );
+    expect(written).toEqual({ inserted: 1, updated: 0 });
+
+    const entries = await scoped.ruleAuditEntry.findMany({ where: { shop, importJobId: job.id } });
+    expect(entries.map((e) => [e.action, e.origin, e.pincode])).toEqual([["CREATE", "", "110001"]]);
+
+    expect(await revertImport(shop, job.id, null)).toBe(1);
+    const rules = await scoped.pincodeRule.findMany({ where: { ruleSetId: ruleSet.id } });
+    expect(rules.map((r) => r.id)).toEqual([warehouseRule.id]);
+  });
+
+  it("refuses an upload into a set that can't be edited before storing any of it", async () => {
+    const form = new FormData();
+    form.append("intent", "bulk_upload");
+    form.append("file", new File(["pincode\n110001\n"], "rules.csv", { type: "text/csv" }));
+    const request = new Request("https://app.example.com/app/pincodes", { method: "POST", body: form });
+
+    await expect(readImportForm(request, shop, { status: "PUBLISHED" })).rejects.toBeInstanceOf(RuleSetError);
+    expect(await scoped.importJob.count({ where: { shop, status: "UPLOADING" } })).toBe(0);
+  });
+});
@@ -0,0 +1,294 @@
+import type { ActionFunctionArgs, LoaderFunctionArgs } from "react-router";
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from "vitest";
+import db from "../app/db.server";
+import { authenticate, unauthenticated } from "../app/shopify.server";
+import * as activityPage from "../app/routes/app.activity";
+import * as analyticsPage from "../app/routes/app.analytics";
+import * as calendarPage from "../app/routes/app.calendar";
+import * as exportRoute from "../app/routes/app.export";
+import * as importErrorsRoute from "../app/routes/app.imports.$id.errors";
+import * as importsRoute from "../app/routes/app.imports";
+import * as homePage from "../app/routes/app._index";
+import * as pincodesPage from "../app/routes/app.pincodes";
+import * as regionsPage from "../app/routes/app.regions";
+import * as restrictionsPage from "../app/routes/app.restrictions";
+import * as ruleSetsPage from "../app/routes/app.rulesets";
+import * as dataRequestRoute from "../app/routes/app.waitlist.data-requests.$id";
+import * as waitlistExportRoute from "../app/routes/app.waitlist.export";
+import * as waitlistPage from "../app/routes/app.waitlist";
+import * as warehousesPage from "../app/routes/app.warehouses";
+import { deleteShops, hasDatabase, testShop } from "./db";
+
+// Every admin request is signed in to shop A, and posts or asks for shop B's ids. The Admin API
+// answers with no data: these routes only use it for titles, locations and checkout sync.
+vi.mock("../app/shopify.server", () => ({
+  authenticate: { admin: vi.fn() },
+  unauthenticated: { admin: vi.fn() },
+}));
+
+const SHOP_A = testShop("routes-a");
+const SHOP_B = testShop("routes-b");
+// In every string shop B stores, so a page that shows any of B's rows gives itself away.
+const MARKER = "bravo-only";
+
+const admin = { graphql: vi.fn(async () => Response.json({ data: {} })) };
+
+type Seeded = {
+  draftId: string;
+  ruleId: string;
+  jobId: string;
+  entryId: string;
+  regionId: string;
+  restrictionId: string;
+  warehouseId: string;
+  windowId: string;
+  holidayId: string;
+  signupId: string;
+  dataRequestId: string;
+};
+
+// One row of everything a page lists or an intent takes an id for.
+async function seed(shop: string, label: string): Promise<Seeded> {
+  const draft = await db.ruleSet.create({ data: { shop, name: `${label} draft` } });
+  const rule = await db.pincodeRule.create({
+    data: { shop, ruleSetId: draft.id, pincode: "110001", etaMinDays: 2, etaMaxDays: 4 },
+  });
+  const job = await db.importJob.create({
+    data: { shop, fileName: `${label}.csv`, status: "PREVIEWING", ruleSetId: draft.id },
+  });
+  const entry = await db.ruleAuditEntry.create({
+    data: {
+      shop,
+      action: "CREATE",
+      source: "IMPORT",
+      importJobId: job.id,
+      ruleSetId: draft.id,
+      actor: label,
+      matchType: "EXACT",
+      pincode: "110001",
+      after: { deliverable: true, etaMinDays: 2, etaMaxDays: 4 },
+    },
+  });
+  await db.importJobError.create({ data: { jobId: job.id, row: 2, pincode: "11000x", reason: label } });
+  const region = await db.regionRule.create({ data: { shop, scope: "STATE", state: label, etaMinDays: 3 } });
+  const restriction = await db.productRestriction.create({
+    data: { shop, targetType: "TAG", targetId: label, targetLabel: label, pincodes: "110001", message: label },
+  });
+  const warehouse = await db.warehouse.create({
+    data: { shop, code: "main", name: label, locationId: "gid://shopify/Location/1" },
+  });
+  const window = await db.blackoutWindow.create({
+    data: { shop, name: label, scope: "SHOP", startsAt: new Date("2030-07-01"), endsAt: new Date("2030-07-10") },
+  });
+  const holiday = await db.holiday.create({ data: { shop, date: new Date("2030-01-26"), name: label } });
+  const signup = await db.waitlistSignup.create({
+    data: { shop, pincode: "110001", channel: "EMAIL", contact: `${label}@example.com`, productTitle: label },
+  });
+  const dataRequest = await db.customerDataRequest.create({
+    data: { shop, requestId: label, contacts: [`${label}@example.com`], data: { waitlistSignups: [] } },
+  });
+  return {
+    draftId: draft.id,
+    ruleId: rule.id,
+    jobId: job.id,
+    entryId: entry.id,
+    regionId: region.id,
+    restrictionId: restriction.id,
+    warehouseId: warehouse.id,
+    windowId: window.id,
+    holidayId: holiday.id,
+    signupId: signup.id,
+    dataRequestId: dataRequest.id,
+  };
+}
+
+// Everything stored for a shop, in a stable order, to compare before and after a request.
+async function snapshot(shop: string) {
+  const where = { shop };
+  const orderBy = { id: "asc" } as const;
+  return Promise.all([
+    db.ruleSet.findMany({ where, orderBy }),
+    db.pincodeRule.findMany({ where, orderBy }),
+    db.importJob.findMany({ where, orderBy, include: { errors: true } }),
+    db.ruleAuditEntry.findMany({ where, orderBy }),
+    db.regionRule.findMany({ where, orderBy }),
+    db.productRestriction.findMany({ where, orderBy }),
+    db.warehouse.findMany({ where, orderBy }),
+    db.blackoutWindow.findMany({ where, orderBy }),
+    db.holiday.findMany({ where, orderBy }),
+    db.shopSettings.findMany({ where }),
+    db.waitlistSignup.findMany({ where, orderBy }),
+    db.customerDataRequest.findMany({ where, orderBy }),
+  ]);
+}
+
+type Handler = (args: LoaderFunctionArgs & ActionFunctionArgs) => Promise<unknown>;
+
+// Calls a route module's loader or action and returns what the browser would get back:
+// the body of the returned or thrown Response.
+async function call(handler: Handler, path: string, init: RequestInit = {}, params: Record<string, string> = {}) {
+  const request = new Request(`https://app.example.com${path}`, init);
+  const result = await handler({ request, params, context: {} } as LoaderFunctionArgs & ActionFunctionArgs).catch(
+    (thrown: unknown) => {
+      if (thrown instanceof Response) return thrown;
+      throw thrown;
+    },
+  );
+  return result instanceof Response ? result.text() : JSON.stringify(result);
+}
+
+const post = (handler: Handler, path: string, fields: Record<string, string | string[]>) => {
+  const form = new FormData();
+  for (const [name, value] of Object.entries(fields)) {
+    for (const v of Array.isArray(value) ? value : [value]) form.append(name, v);
+  }
+  return call(handler, path, { method: "POST", body: form });
+};
+
+describe.skipIf(!hasDatabase)("admin routes tenant isolation", () => {
+  let a: Seeded;
+  let b: Seeded;
+  // Shop B's ids and marker: none may show up in anything shop A gets back.
+  let secrets: string[];
+
+  beforeAll(async () => {
+    await deleteShops([SHOP_A, SHOP_B]);
+    a = await seed(SHOP_A, "alpha");
+    b = await seed(SHOP_B, MARKER);
+    secrets = [MARKER, ...Object.values(b)];
+  });
+
+  beforeEach(() => {
+    vi.mocked(authenticate.admin).mockResolvedValue({
+      session: { shop: SHOP_A },
+      admin,
+      sessionToken: { sub: "staff-a" },
+    } as never);
+    vi.mocked(unauthenticated.admin).mockResolvedValue({ admin } as never);
+  });
+
+  afterAll(async () => {
+    await deleteShops([SHOP_A, SHOP_B]);
+    await db.$disconnect();
+  });
+
+  const expectNoLeak = (body: string) => {
+    for (const secret of secrets) expect(body).not.toContain(secret);
+  };
+
+  // Sends one request from shop A and checks shop B's data came through untouched and unseen.
+  const attempt = async (request: () => Promise<string>) => {
+    const before = await snapshot(SHOP_B);
+    expectNoLeak(await request());
+    expect(await snapshot(SHOP_B)).toEqual(before);
+  };
+
+  describe("rules page actions", () => {
+    const onDraft = () => `/app/pincodes?set=${a.draftId}`;
+    const onOtherSet = () => `/app/pincodes?set=${b.draftId}`;
+
+    it("create into the other shop's rule set", () =>
+      attempt(() => post(pincodesPage.action, onOtherSet(), { intent: "create", pincode: "110002", etaMinDays: "1" })));
+
+    it("update the other shop's rule", () =>
+      attempt(() => post(pincodesPage.action, onDraft(), { intent: "update", id: b.ruleId, etaMinDays: "9" })));
+
+    it("delete the other shop's rule", () =>
+      attempt(() => post(pincodesPage.action, onDraft(), { intent: "delete", id: b.ruleId })));
+
+    it("bulk edit the other shop's rules", () =>
+      attempt(() =>
+        post(pincodesPage.action, onDraft(), { intent: "bulk_edit", ids: [b.ruleId, a.ruleId], op: "set_cod", codAvailable: "true" }),
+      ));
+
+    it("bulk upload into the other shop's rule set", () =>
+      attempt(() => {
+        const form = new FormData();
+        form.append("intent", "bulk_upload");
+        form.append("file", new File(["pincode,etaMinDays\n110003,1\n"], "rules.csv", { type: "text/csv" }));
+        return call(pincodesPage.action, onOtherSet(), { method: "POST", body: form });
+      }));
+
+    it("confirm or cancel the other shop's import", async () => {
+      await attempt(() => post(pincodesPage.action, onDraft(), { intent: "import_confirm", jobId: b.jobId }));
+      await attempt(() => post(pincodesPage.action, onDraft(), { intent: "import_cancel", jobId: b.jobId }));
+    });
+
+    it("preview against the other shop's rule set", () =>
+      attempt(() => post(pincodesPage.action, onOtherSet(), { intent: "preview", pincode: "110001" })));
+  });
+
+  describe("activity actions", () => {
+    it("revert the other shop's change", () =>
+      attempt(() => post(activityPage.action, "/app/activity", { intent: "revert", entryId: b.entryId })));
+
+    it("revert the other shop's import", () =>
+      attempt(() => post(activityPage.action, "/app/activity", { intent: "revert_import", jobId: b.jobId })));
+  });
+
+  describe("rule set actions", () => {
+    it.each(["publish", "unschedule", "delete"])("%s the other shop's rule set", (intent) =>
+      attempt(() => post(ruleSetsPage.action, "/app/rulesets", { intent, id: b.draftId })),
+    );
+
+    it("schedule the other shop's rule set", () =>
+      attempt(() =>
+        post(ruleSetsPage.action, "/app/rulesets", { intent: "schedule", id: b.draftId, publishAt: "2099-01-01T00:00" }),
+      ));
+
+    it("copy the other shop's rules into a draft", async () => {
+      await attempt(() => post(ruleSetsPage.action, "/app/rulesets", { intent: "create", name: "Copy", copyFrom: b.draftId }));
+      const copied = await db.pincodeRule.findMany({ where: { shop: SHOP_A } });
+      expect(copied.map((r) => r.id)).toEqual([a.ruleId]);
+    });
+  });
+
+  describe("settings page actions", () => {
+    it("delete the other shop's region rule", () =>
+      attempt(() => post(regionsPage.action, "/app/regions", { intent: "delete", id: b.regionId })));
+
+    it("delete the other shop's product restriction", () =>
+      attempt(() => post(restrictionsPage.action, "/app/restrictions", { intent: "delete", id: b.restrictionId })));
+
+    it("delete the other shop's warehouse", () =>
+      attempt(() => post(warehousesPage.action, "/app/warehouses", { intent: "delete", id: b.warehouseId })));
+
+    it("delete the other shop's blackout window and holiday", async () => {
+      await attempt(() => post(calendarPage.action, "/app/calendar", { intent: "delete_window", id: b.windowId }));
+      await attempt(() => post(calendarPage.action, "/app/calendar", { intent: "delete_holiday", id: b.holidayId }));
+    });
+
+    it("delete the other shop's waitlist signup", () =>
+      attempt(() => post(waitlistPage.action, "/app/waitlist", { intent: "delete", id: b.signupId })));
+  });
+
+  describe("loaders", () => {
+    // Pages read with shop A's session, pointed at B's ids where they take one.
+    const pages: Array<[string, Handler, string, Record<string, string>?]> = [
+      ["home", homePage.loader, "/app"],
+      ["analytics", analyticsPage.loader, "/app/analytics"],
+      ["rules", pincodesPage.loader, "/app/pincodes"],
+      ["rules in the other shop's set", pincodesPage.loader, "/app/pincodes?set=:draftId"],
+      ["activity", activityPage.loader, "/app/activity"],
+      ["the other shop's import activity", activityPage.loader, "/app/activity?import=:jobId"],
+      ["rule sets", ruleSetsPage.loader, "/app/rulesets"],
+      ["regions", regionsPage.loader, "/app/regions"],
+      ["restrictions", restrictionsPage.loader, "/app/restrictions"],
+      ["warehouses", warehousesPage.loader, "/app/warehouses"],
+      ["calendar", calendarPage.loader, "/app/calendar"],
+      ["waitlist", waitlistPage.loader, "/app/waitlist"],
+      ["waitlist export", waitlistExportRoute.loader, "/app/waitlist/export"],
+      ["imports", importsRoute.loader, "/app/imports"],
+      ["rules export", exportRoute.loader, "/app/export"],
+      ["export of the other shop's set", exportRoute.loader, "/app/export?set=:draftId"],
+      ["the other shop's import errors", importErrorsRoute.loader, "/app/imports/:jobId/errors", { id: "jobId" }],
+      ["the other shop's data request", dataRequestRoute.loader, "/app/waitlist/data-requests/:dataRequestId", { id: "dataRequestId" }],
+    ];
+
+    it.each(pages)("%s", (_name, loader, path, params = {}) => {
+      const withIds = (s: string) => s.replace(/:(\w+)/g, (_, key: keyof Seeded) => b[key]);
+      const args = Object.fromEntries(Object.entries(params).map(([name, key]) => [name, b[key as keyof Seeded]]));
+      return attempt(() => call(loader, withIds(path), {}, args));
+    });
+  });
+});
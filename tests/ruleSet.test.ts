@@ -0,0 +1,28 @@
+import { afterAll, describe, expect, it } from "vitest";
+import db from "../app/db.server";
+import { createDraft, ensurePublishedRuleSet, publishRuleSet, RuleSetError } from "../app/models/ruleSet.server";
+import { deleteShops, hasDatabase, testShop } from "./db";
+
+const SHOP = testShop("rule-sets");
+
+describe.skipIf(!hasDatabase)("rule sets", () => {
+  afterAll(async () => {
+    await deleteShops([SHOP]);
+    await db.$disconnect();
+  });
+
+  it("creates one published set however many requests race to", async () => {
+    const sets = await Promise.all(Array.from({ length: 5 }, () => ensurePublishedRuleSet(SHOP)));
+    expect(new Set(sets.map((s) => s.id)).size).toBe(1);
+    expect(await db.ruleSet.count({ where: { shop: SHOP, status: "PUBLISHED" } })).toBe(1);
+  });
+
+  it("keeps one published set when two drafts are published at once", async () => {
+    const drafts = await Promise.all([createDraft(SHOP, "Monsoon", null), createDraft(SHOP, "Diwali", null)]);
+    const outcomes = await Promise.allSettled(drafts.map((d) => publishRuleSet(SHOP, d.id)));
+
+    expect(outcomes.some((o) => o.status === "fulfilled")).toBe(true);
+    for (const o of outcomes) if (o.status === "rejected") expect(o.reason).toBeInstanceOf(RuleSetError);
+    expect(await db.ruleSet.count({ where: { shop: SHOP, status: "PUBLISHED" } })).toBe(1);
+  });
+});
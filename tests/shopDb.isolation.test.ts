@@ -0,0 +1,189 @@
+import { afterAll, beforeAll, describe, expect, it } from "vitest";
+import db from "../app/db.server";
+import { shopDb, ShopScopeError } from "../app/models/shopDb.server";
+
+// Two shops with one row in every shop-owned model each. Every query goes through shop A's
+// client and aims at shop B's rows; B's rows must come out of the suite untouched.
+const run = Date.now().toString(36);
+const SHOP_A = `isolation-a-${run}.myshopify.com`;
+const SHOP_B = `isolation-b-${run}.myshopify.com`;
+
+type Row = { shop: string } & Record<string, unknown>;
+
+// The operations every Prisma model delegate has, loosely typed so one table can drive them all.
+type Delegate = {
+  findMany(args?: object): Promise<Row[]>;
+  findUnique(args: object): Promise<Row | null>;
+  findFirst(args: object): Promise<Row | null>;
+  count(args?: object): Promise<number>;
+  groupBy(args: object): Promise<Array<{ shop: string }>>;
+  create(args: object): Promise<Row>;
+  createMany(args: object): Promise<{ count: number }>;
+  update(args: object): Promise<Row>;
+  updateMany(args: object): Promise<{ count: number }>;
+  upsert(args: object): Promise<Row>;
+  delete(args: object): Promise<Row>;
+  deleteMany(args: object): Promise<{ count: number }>;
+};
+
+type ModelCase = {
+  model: string;
+  // The unique field a route would look a row up by.
+  key: "id" | "shop";
+  seed: (shop: string) => Record<string, unknown> | Promise<Record<string, unknown>>;
+  // A harmless update to try on the other shop's row.
+  change: Record<string, unknown>;
+};
+
+const ruleSetIds = new Map<string, string>();
+
+// In dependency order: pincode rules need their shop's rule set.
+const MODELS: ModelCase[] = [
+  { model: "session", key: "id", seed: (shop) => ({ id: `offline_${shop}`, state: "", accessToken: "token" }), change: { state: "changed" } },
+  { model: "ruleSet", key: "id", seed: () => ({ name: "Published", status: "PUBLISHED" }), change: { name: "Changed" } },
+  {
+    model: "pincodeRule",
+    key: "id",
+    seed: (shop) => ({ ruleSetId: ruleSetIds.get(shop), pincode: "110001", etaMinDays: 2 }),
+    change: { etaMinDays: 9 },
+  },
+  { model: "regionRule", key: "id", seed: () => ({ scope: "SHOP", etaMinDays: 2 }), change: { etaMinDays: 9 } },
+  {
+    model: "productRestriction",
+    key: "id",
+    seed: () => ({ targetType: "TAG", targetId: "fragile", targetLabel: "fragile", pincodes: "110001" }),
+    change: { message: "Changed" },
+  },
+  { model: "shopSettings", key: "shop", seed: () => ({ processingDays: 1 }), change: { processingDays: 9 } },
+  {
+    model: "warehouse",
+    key: "id",
+    seed: () => ({ code: "main", name: "Main", locationId: "gid://shopify/Location/1" }),
+    change: { name: "Changed" },
+  },
+  {
+    model: "blackoutWindow",
+    key: "id",
+    seed: () => ({ name: "Floods", scope: "SHOP", startsAt: new Date("2026-07-01"), endsAt: new Date("2026-07-10") }),
+    change: { name: "Changed" },
+  },
+  { model: "holiday", key: "id", seed: () => ({ date: new Date("2026-01-26"), name: "Republic Day" }), change: { name: "Changed" } },
+  { model: "importJob", key: "id", seed: () => ({ fileName: "rules.csv", status: "COMPLETED" }), change: { fileName: "changed.csv" } },
+  {
+    model: "ruleAuditEntry",
+    key: "id",
+    seed: () => ({ action: "CREATE", source: "EDIT", matchType: "EXACT", pincode: "110001" }),
+    change: { actor: "changed" },
+  },
+  {
+    model: "pincodeLookup",
+    key: "id",
+    seed: (shop) => ({ id: `lookup_${shop}`, pincode: "110001", result: "DELIVERABLE", day: new Date("2026-10-01") }),
+    change: { addedToCart: true },
+  },
+  {
+    model: "waitlistSignup",
+    key: "id",
+    seed: () => ({ pincode: "110001", channel: "EMAIL", contact: "shopper@example.com" }),
+    change: { attempts: 9 },
+  },
+  { model: "customerDataRequest", key: "id", seed: () => ({ contacts: ["shopper@example.com"], data: {} }), change: { requestId: "changed" } },
+];
+
+const delegate = (client: object, model: string) => (client as Record<string, unknown>)[model] as Delegate;
+
+// Read with the bare client; shop B has one row per model.
+const rowsOf = (shop: string, model: string) => delegate(db, model).findMany({ where: { shop } });
+
+// Resolves to the value, or to the error a rejected query threw.
+const settle = <T>(query: Promise<T>) => query.then((value) => ({ value }), (error: unknown) => ({ error }));
+
+async function cleanUp() {
+  for (const { model } of [...MODELS].reverse()) {
+    await delegate(db, model).deleteMany({ where: { shop: { in: [SHOP_A, SHOP_B] } } });
+  }
+}
+
+describe.skipIf(!process.env.TEST_DATABASE_URL)("shopDb tenant isolation", () => {
+  const seeded = new Map<string, { a: Row; b: Row }>();
+  const scoped = shopDb(SHOP_A);
+
+  beforeAll(async () => {
+    await cleanUp();
+    for (const { model, seed } of MODELS) {
+      const rows: Row[] = [];
+      for (const shop of [SHOP_A, SHOP_B]) {
+        const row = await delegate(db, model).create({ data: { ...(await seed(shop)), shop } });
+        if (model === "ruleSet") ruleSetIds.set(shop, row.id as string);
+        rows.push(row);
+      }
+      seeded.set(model, { a: rows[0], b: rows[1] });
+    }
+  });
+
+  afterAll(async () => {
+    await cleanUp();
+    await db.$disconnect();
+  });
+
+  describe.each(MODELS)("$model", ({ model, key, seed, change }) => {
+    const other = () => seeded.get(model)!.b;
+    const target = () => ({ [key]: other()[key] });
+    const client = () => delegate(scoped, model);
+
+    it("reads only the shop's own rows", async () => {
+      const rows = await client().findMany();
+      expect(rows.map((r) => r.shop)).toEqual([SHOP_A]);
+      expect(await client().count()).toBe(1);
+      expect(await client().findMany({ where: { shop: SHOP_B } })).toEqual([]);
+    });
+
+    it("can't look up the other shop's row by its key", async () => {
+      expect((await client().findUnique({ where: target() }))?.shop).not.toBe(SHOP_B);
+      expect((await client().findFirst({ where: target() }))?.shop).not.toBe(SHOP_B);
+    });
+
+    it("groups only the shop's own rows", async () => {
+      const groups = await client().groupBy({ by: ["shop"], _count: { _all: true } });
+      expect(groups.map((g) => g.shop)).toEqual([SHOP_A]);
+    });
+
+    it("can't update, upsert or delete the other shop's row", async () => {
+      const before = await rowsOf(SHOP_B, model);
+
+      const attempts = [
+        settle(client().update({ where: target(), data: change })),
+        settle(client().updateMany({ where: target(), data: change })),
+        settle(client().upsert({ where: target(), create: await seed(SHOP_A), update: change })),
+        settle(client().delete({ where: target() })),
+        settle(client().deleteMany({ where: target() })),
+      ];
+      for (const outcome of await Promise.all(attempts)) {
+        // Either nothing matched, or the write landed on shop A's own row.
+        if ("value" in outcome && outcome.value && "shop" in outcome.value) expect(outcome.value.shop).toBe(SHOP_A);
+      }
+
+      expect(await rowsOf(SHOP_B, model)).toEqual(before);
+    });
+
+    it("refuses to create rows for the other shop", async () => {
+      const data = { ...(await seed(SHOP_B)), shop: SHOP_B };
+      await expect(client().create({ data })).rejects.toBeInstanceOf(ShopScopeError);
+      await expect(client().createMany({ data: [data] })).rejects.toBeInstanceOf(ShopScopeError);
+      await expect(client().upsert({ where: target(), create: data, update: {} })).rejects.toBeInstanceOf(
+        ShopScopeError,
+      );
+      expect(await rowsOf(SHOP_B, model)).toHaveLength(1);
+    });
+  });
+
+  it("scopes queries inside an interactive transaction", async () => {
+    const { b } = seeded.get("pincodeRule")!;
+    await scoped.$transaction(async (tx) => {
+      expect(await tx.pincodeRule.findUnique({ where: { id: b.id as string } })).toBeNull();
+      expect((await tx.pincodeRule.findMany()).every((r) => r.shop === SHOP_A)).toBe(true);
+      expect((await tx.pincodeRule.deleteMany({ where: { id: b.id as string } })).count).toBe(0);
+    });
+    expect(await db.pincodeRule.findUnique({ where: { id: b.id as string } })).not.toBeNull();
+  });
+});
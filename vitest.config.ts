@@ -0,0 +1,14 @@
+import { defineConfig } from "vitest/config";
+
+// Kept apart from vite.config.ts, whose React Router plugin builds the app and isn't wanted here.
+// The suites talk to a real Postgres: set TEST_DATABASE_URL to a disposable database (its schema
+// is migrated by tests/globalSetup.ts). Without it the database suites are skipped.
+export default defineConfig({
+  test: {
+    include: ["tests/**/*.test.ts"],
+    globalSetup: ["tests/globalSetup.ts"],
+    env: process.env.TEST_DATABASE_URL ? { DATABASE_URL: process.env.TEST_DATABASE_URL } : {},
+    // The suites share one database.
+    fileParallelism: false,
+  },
+});